@@ -0,0 +1,161 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest, describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { redisClient, pubClient, subClient } from '../config/redis.js';
+import { Contract } from '../models/contract.js';
+import { fileDispute, resolveDispute } from '../controllers/dispute.js';
+import {
+  autoCompleteExpiredRequests,
+  COMPLETION_GRACE_DAYS,
+} from '../utils/contractCompletion.js';
+
+dotenv.config();
+
+const createMockReq = (params = {}, body = {}, user?: any) => ({
+  params,
+  body,
+  query: {},
+  user,
+});
+
+const createMockRes = () => {
+  const res: any = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  return res;
+};
+
+const clientId = new mongoose.Types.ObjectId();
+const freelancerId = new mongoose.Types.ObjectId();
+
+const signature = (name: string) => ({
+  name,
+  signedAt: new Date(),
+  ip: '127.0.0.1',
+  userAgent: 'jest',
+  termsVersion: 1,
+});
+
+const createContract = (overrides = {}) =>
+  Contract.create({
+    jobId: new mongoose.Types.ObjectId(),
+    clientId,
+    freelancerId,
+    proposalId: new mongoose.Types.ObjectId(),
+    conversationId: new mongoose.Types.ObjectId(),
+    projectDetails: {
+      title: 'Landing page',
+      description: 'Build a landing page',
+      category: 'web-development',
+      skills: ['React'],
+    },
+    budget: { type: 'fixed', amount: 500, currency: 'USD' },
+    duration: { estimatedDuration: 10 },
+    status: 'in_progress',
+    // requested long enough ago to be past the grace period
+    completionRequest: {
+      requestedBy: 'freelancer',
+      requestedAt: new Date(Date.now() - (COMPLETION_GRACE_DAYS + 1) * 24 * 60 * 60 * 1000),
+    },
+    cancellationRequest: {
+      requestedBy: 'client',
+      requestedAt: new Date(),
+      reason: 'Changed plans',
+    },
+    signatures: {
+      client: signature('Client'),
+      freelancer: signature('Freelancer'),
+    },
+    ...overrides,
+  });
+
+const resumeDispute = async (contractId: string) => {
+  await fileDispute(
+    createMockReq(
+      { contractId },
+      { reason: 'Work was not delivered' },
+      { userId: clientId.toString() }
+    ) as any,
+    createMockRes()
+  );
+
+  const res = createMockRes();
+  await resolveDispute(
+    createMockReq(
+      { contractId },
+      { outcome: 'resumed', resolution: 'Work continues as agreed' },
+      { userId: new mongoose.Types.ObjectId().toString() }
+    ) as any,
+    res
+  );
+  return res;
+};
+
+describe('Disputes', () => {
+  beforeAll(async () => {
+    const testDbUrl = process.env.TEST_MONGODB_URL;
+    if (!testDbUrl) {
+      throw new Error('TEST_MONGODB_URL is not set in .env file');
+    }
+    await mongoose.connect(testDbUrl);
+  });
+
+  afterAll(async () => {
+    await Contract.deleteMany({});
+    await mongoose.connection.close();
+    await redisClient.quit();
+    await pubClient.quit();
+    await subClient.quit();
+  });
+
+  beforeEach(async () => {
+    await Contract.deleteMany({});
+  });
+
+  it('should clear pending completion and cancellation requests when a dispute is filed', async () => {
+    const contract = await createContract();
+    const res = createMockRes();
+
+    await fileDispute(
+      createMockReq(
+        { contractId: contract._id.toString() },
+        { reason: 'Work was not delivered' },
+        { userId: clientId.toString() }
+      ) as any,
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(201);
+
+    const disputed = await Contract.findById(contract._id).lean();
+    expect(disputed?.status).toBe('disputed');
+    expect(disputed?.completionRequest).toBeUndefined();
+    expect(disputed?.cancellationRequest).toBeUndefined();
+  });
+
+  it('should not auto-complete a contract resumed by the ruling', async () => {
+    const contract = await createContract();
+
+    const res = await resumeDispute(contract._id.toString());
+    expect(res.status).toHaveBeenCalledWith(200);
+
+    await autoCompleteExpiredRequests();
+
+    const resumed = await Contract.findById(contract._id).lean();
+    expect(resumed?.status).toBe('in_progress');
+    expect(resumed?.completionRequest).toBeUndefined();
+    expect(resumed?.dispute?.outcome).toBe('resumed');
+  });
+
+  it('should resume an unsigned contract as active', async () => {
+    const contract = await createContract({ status: 'active', signatures: {} });
+
+    const res = await resumeDispute(contract._id.toString());
+    expect(res.status).toHaveBeenCalledWith(200);
+
+    const resumed = await Contract.findById(contract._id).lean();
+    expect(resumed?.status).toBe('active');
+  });
+});
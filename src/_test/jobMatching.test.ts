@@ -0,0 +1,172 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_MATCH_WEIGHTS,
+  parseMatchWeights,
+  scoreJob,
+  rankJobs,
+  type MatchContext,
+  type MatchJob,
+} from '../utils/jobMatching.js';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const context: MatchContext = {
+  profile: {
+    skills: ['React', 'TypeScript', 'Node.js'],
+    categories: ['web-development'],
+    experienceLevel: 'intermediate',
+    hourlyRate: { min: 40, max: 60 },
+  },
+  now,
+};
+
+const makeJob = (overrides: Partial<MatchJob> = {}): MatchJob => ({
+  skills: ['react', 'typescript', 'node.js', 'graphql'],
+  category: 'web-development',
+  experienceLevel: 'intermediate',
+  budget: { type: 'hourly', min: 30, max: 50, currency: 'USD' },
+  duration: { type: 'short-term' },
+  createdAt: now,
+  publishedAt: now,
+  ...overrides,
+});
+
+const reasonFor = (job: MatchJob, signal: string, ctx: MatchContext = context) =>
+  scoreJob(job, ctx).matchReasons.find((r) => r.signal === signal);
+
+describe('Job matching', () => {
+  describe('parseMatchWeights', () => {
+    it('should fall back to the defaults', () => {
+      expect(parseMatchWeights(undefined)).toEqual(DEFAULT_MATCH_WEIGHTS);
+    });
+
+    it('should override only the signals given', () => {
+      const weights = parseMatchWeights('skills=50, recency=0');
+      expect(weights.skills).toBe(50);
+      expect(weights.recency).toBe(0);
+      expect(weights.budget).toBe(DEFAULT_MATCH_WEIGHTS.budget);
+    });
+
+    it('should skip unknown signals and invalid weights', () => {
+      const weights = parseMatchWeights('colour=5,skills=-1,budget=abc,text=');
+      expect(weights).toEqual(DEFAULT_MATCH_WEIGHTS);
+    });
+  });
+
+  describe('scoreJob', () => {
+    it('should compare skills case-insensitively', () => {
+      expect(reasonFor(makeJob(), 'skills')).toEqual({
+        signal: 'skills',
+        points: 26.3,
+        reason: '3 of 4 skills match',
+      });
+    });
+
+    it('should count a budget at or above the minimum rate as within it', () => {
+      expect(reasonFor(makeJob(), 'budget')?.reason).toBe('Budget within your rate');
+      expect(
+        reasonFor(
+          makeJob({ budget: { type: 'hourly', min: 20, max: 35, currency: 'USD' } }),
+          'budget'
+        )?.reason
+      ).toBe('Budget slightly below your rate');
+      expect(
+        reasonFor(
+          makeJob({ budget: { type: 'hourly', min: 10, max: 20, currency: 'USD' } }),
+          'budget'
+        )
+      ).toBeUndefined();
+    });
+
+    it('should spread a fixed budget over the estimated hours', () => {
+      const job = makeJob({
+        budget: { type: 'fixed', amount: 4000, currency: 'USD' },
+        duration: { type: 'short-term', estimatedHours: 80 },
+      });
+      expect(reasonFor(job, 'budget')?.points).toBe(DEFAULT_MATCH_WEIGHTS.budget);
+    });
+
+    it('should give half points for a neighbouring experience level', () => {
+      expect(reasonFor(makeJob({ experienceLevel: 'expert' }), 'experience')?.points).toBe(
+        DEFAULT_MATCH_WEIGHTS.experience! / 2
+      );
+      expect(reasonFor(makeJob({ experienceLevel: 'entry' }), 'experience')).toBeDefined();
+    });
+
+    it('should fade recency over two weeks', () => {
+      const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+      expect(reasonFor(makeJob(), 'recency')?.reason).toBe('Posted today');
+      expect(reasonFor(makeJob({ publishedAt: daysAgo(3) }), 'recency')?.reason).toBe(
+        'Posted 3 days ago'
+      );
+      expect(reasonFor(makeJob({ publishedAt: daysAgo(20) }), 'recency')).toBeUndefined();
+    });
+
+    it('should take feedback off the score', () => {
+      const withFeedback: MatchContext = {
+        ...context,
+        feedback: { budgetFloors: { hourly: 50 }, unwantedSkills: ['graphql'] },
+      };
+
+      const reason = reasonFor(makeJob(), 'feedback', withFeedback);
+      expect(reason?.points).toBe(-DEFAULT_MATCH_WEIGHTS.feedback! * 0.75);
+      expect(reason?.reason).toContain('graphql');
+      expect(scoreJob(makeJob(), withFeedback).matchScore).toBeLessThan(
+        scoreJob(makeJob(), context).matchScore
+      );
+    });
+
+    it('should credit related skills only when they have a weight', () => {
+      const withRelated: MatchContext = {
+        ...context,
+        profile: { ...context.profile, relatedSkills: ['GraphQL'] },
+      };
+
+      expect(reasonFor(makeJob(), 'related', withRelated)).toBeUndefined();
+
+      const weights = { ...DEFAULT_MATCH_WEIGHTS, related: 20 };
+      const reason = scoreJob(makeJob(), withRelated, weights).matchReasons.find(
+        (r) => r.signal === 'related'
+      );
+      expect(reason).toEqual({
+        signal: 'related',
+        points: 5,
+        reason: 'Related to your skills: graphql',
+      });
+    });
+
+    it('should skip signals weighted at zero', () => {
+      const weights = { ...DEFAULT_MATCH_WEIGHTS, category: 0 };
+      const { matchReasons } = scoreJob(makeJob(), context, weights);
+      expect(matchReasons.map((r) => r.signal)).not.toContain('category');
+    });
+
+    it('should accept custom signals', () => {
+      const { matchScore, matchReasons } = scoreJob(makeJob(), context, { remote: 5 }, [
+        { name: 'remote', evaluate: () => ({ value: 1, reason: 'Remote friendly' }) },
+      ]);
+      expect(matchScore).toBe(5);
+      expect(matchReasons).toEqual([{ signal: 'remote', points: 5, reason: 'Remote friendly' }]);
+    });
+  });
+
+  describe('rankJobs', () => {
+    it('should put the best match first', () => {
+      const weak = makeJob({ skills: ['php'], category: 'design' });
+      const strong = makeJob();
+
+      const ranked = rankJobs([weak, strong], context);
+      expect(ranked[0]?.skills).toEqual(strong.skills);
+      expect(ranked[0]!.matchScore).toBeGreaterThan(ranked[1]!.matchScore);
+    });
+
+    it('should break ties with the newer job', () => {
+      const older = makeJob({ publishedAt: new Date(now.getTime() - 1000) });
+      const newer = makeJob();
+
+      const ranked = rankJobs([older, newer], context, { skills: 10 });
+      expect(ranked[0]?.publishedAt).toBe(newer.publishedAt);
+    });
+  });
+});
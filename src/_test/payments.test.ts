@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { redisClient, pubClient, subClient } from '../config/redis.js';
+import { LedgerAccount, LedgerTransaction } from '../models/ledger.js';
+import { ClientProfile } from '../models/client.js';
+import { FakePaymentProvider } from '../utils/payments/fakeProvider.js';
+import { setPaymentProvider } from '../utils/payments/provider.js';
+import {
+  assertBalanced,
+  toMinorUnits,
+  fromMinorUnits,
+  PaymentError,
+  ensureAccount,
+  getBalance,
+  getAccountBalance,
+  postTransaction,
+} from '../utils/payments/ledger.js';
+import {
+  fundEscrow,
+  releaseEscrow,
+  refundEscrow,
+  withdrawFromWallet,
+  settleEscrow,
+  getEscrowBalance,
+  getEscrowSummary,
+  calculatePlatformFee,
+} from '../utils/payments/escrow.js';
+
+dotenv.config();
+
+describe('Payments', () => {
+  describe('assertBalanced', () => {
+    it('should accept entries whose debits equal their credits', () => {
+      expect(() =>
+        assertBalanced([
+          { direction: 'debit', amount: 10000, currency: 'USD' },
+          { direction: 'credit', amount: 9000, currency: 'USD' },
+          { direction: 'credit', amount: 1000, currency: 'USD' },
+        ])
+      ).not.toThrow();
+    });
+
+    it('should reject unbalanced entries', () => {
+      expect(() =>
+        assertBalanced([
+          { direction: 'debit', amount: 10000, currency: 'USD' },
+          { direction: 'credit', amount: 9999, currency: 'USD' },
+        ])
+      ).toThrow('Unbalanced ledger transaction');
+    });
+
+    it('should reject a single entry', () => {
+      expect(() =>
+        assertBalanced([{ direction: 'debit', amount: 100, currency: 'USD' }])
+      ).toThrow('at least two entries');
+    });
+
+    it('should reject fractional or non-positive amounts', () => {
+      expect(() =>
+        assertBalanced([
+          { direction: 'debit', amount: 10.5, currency: 'USD' },
+          { direction: 'credit', amount: 10.5, currency: 'USD' },
+        ])
+      ).toThrow('positive integers');
+
+      expect(() =>
+        assertBalanced([
+          { direction: 'debit', amount: 0, currency: 'USD' },
+          { direction: 'credit', amount: 0, currency: 'USD' },
+        ])
+      ).toThrow('positive integers');
+    });
+
+    it('should reject mixed currencies', () => {
+      expect(() =>
+        assertBalanced([
+          { direction: 'debit', amount: 100, currency: 'USD' },
+          { direction: 'credit', amount: 100, currency: 'EUR' },
+        ])
+      ).toThrow('one currency');
+    });
+  });
+
+  describe('minor units', () => {
+    it('should round to whole cents', () => {
+      expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+      expect(toMinorUnits(19.999)).toBe(2000);
+      expect(fromMinorUnits(12345)).toBe(123.45);
+    });
+  });
+
+  describe('PaymentError', () => {
+    it('should map provider failures to 402 and balance problems to 400', () => {
+      expect(new PaymentError('declined', 'payment_failed').status).toBe(402);
+      expect(new PaymentError('no card', 'payment_method_required').status).toBe(402);
+      expect(new PaymentError('empty', 'insufficient_funds').status).toBe(400);
+      expect(new PaymentError('reused', 'idempotency_conflict').status).toBe(409);
+    });
+  });
+
+  describe('FakePaymentProvider', () => {
+    let provider: FakePaymentProvider;
+
+    const movement = {
+      userId: 'client-1',
+      amount: 5000,
+      currency: 'USD',
+      idempotencyKey: 'fund-1',
+    };
+
+    beforeEach(() => {
+      provider = new FakePaymentProvider();
+    });
+
+    it('should record a successful charge', async () => {
+      const result = await provider.charge(movement);
+
+      expect(result.status).toBe('succeeded');
+      expect(provider.operations.get('fund-1')?.kind).toBe('charge');
+    });
+
+    it('should not charge twice for the same idempotency key', async () => {
+      const first = await provider.charge(movement);
+      const second = await provider.charge(movement);
+
+      expect(second.reference).toBe(first.reference);
+      expect(provider.operations.size).toBe(1);
+    });
+
+    it('should fail when told to and allow a retry with the same key', async () => {
+      provider.failNext();
+
+      const failed = await provider.payout(movement);
+      expect(failed.status).toBe('failed');
+      expect(provider.operations.size).toBe(0);
+
+      const retried = await provider.payout(movement);
+      expect(retried.status).toBe('succeeded');
+    });
+
+    it('should decline test tokens and verify others', async () => {
+      const declined = await provider.verifyPaymentMethod('client-1', 'tok_declined');
+      expect(declined.status).toBe('failed');
+      expect(provider.isVerified('client-1')).toBe(false);
+
+      const verified = await provider.verifyPaymentMethod('client-1', 'tok_visa');
+      expect(verified.status).toBe('succeeded');
+      expect(provider.isVerified('client-1')).toBe(true);
+    });
+  });
+
+  describe('ledger and escrow', () => {
+    let provider: FakePaymentProvider;
+    let contract: {
+      _id: mongoose.Types.ObjectId;
+      clientId: mongoose.Types.ObjectId;
+      freelancerId: mongoose.Types.ObjectId;
+      budget: { currency: string };
+    };
+
+    beforeAll(async () => {
+      const testDbUrl = process.env.TEST_MONGODB_URL;
+      if (!testDbUrl) {
+        throw new Error('TEST_MONGODB_URL is not set in .env file');
+      }
+      await mongoose.connect(testDbUrl);
+    });
+
+    afterAll(async () => {
+      await LedgerTransaction.deleteMany({});
+      await LedgerAccount.deleteMany({});
+      await ClientProfile.deleteMany({});
+      await mongoose.connection.close();
+      await redisClient.quit();
+      await pubClient.quit();
+      await subClient.quit();
+    });
+
+    beforeEach(async () => {
+      await LedgerTransaction.deleteMany({});
+      await LedgerAccount.deleteMany({});
+
+      provider = new FakePaymentProvider();
+      setPaymentProvider(provider);
+
+      // fresh ids so no cached client profile carries over between tests
+      contract = {
+        _id: new mongoose.Types.ObjectId(),
+        clientId: new mongoose.Types.ObjectId(),
+        freelancerId: new mongoose.Types.ObjectId(),
+        budget: { currency: 'USD' },
+      };
+      await ClientProfile.create({ clientId: contract.clientId, paymentVerified: true });
+    });
+
+    const walletBalance = () =>
+      getBalance('wallet', contract.freelancerId.toString(), 'USD');
+
+    describe('postTransaction', () => {
+      it('should refuse to take an escrow below zero and write nothing', async () => {
+        const escrow = await ensureAccount('escrow', contract._id.toString(), 'USD');
+        const funding = await ensureAccount('client_funding', contract.clientId.toString(), 'USD');
+
+        await expect(
+          postTransaction({
+            type: 'escrow_refund',
+            idempotencyKey: 'overdraw-1',
+            currency: 'USD',
+            entries: [
+              { account: escrow, direction: 'debit', amount: 100 },
+              { account: funding, direction: 'credit', amount: 100 },
+            ],
+          })
+        ).rejects.toMatchObject({ code: 'insufficient_funds' });
+
+        expect(await LedgerTransaction.countDocuments()).toBe(0);
+      });
+
+      it('should return the first transaction when a key is posted again', async () => {
+        const funding = await ensureAccount('client_funding', contract.clientId.toString(), 'USD');
+        const escrow = await ensureAccount('escrow', contract._id.toString(), 'USD');
+        const input = {
+          type: 'escrow_fund' as const,
+          idempotencyKey: 'fund-replay',
+          currency: 'USD' as const,
+          entries: [
+            { account: funding, direction: 'debit' as const, amount: 5000 },
+            { account: escrow, direction: 'credit' as const, amount: 5000 },
+          ],
+        };
+
+        const first = await postTransaction(input);
+        const second = await postTransaction(input);
+
+        expect(second._id.equals(first._id)).toBe(true);
+        expect(await LedgerTransaction.countDocuments()).toBe(1);
+        expect(await getEscrowBalance(contract)).toBe(5000);
+      });
+    });
+
+    describe('escrow', () => {
+      it('should hold a charge in escrow and not charge twice for one key', async () => {
+        await fundEscrow(contract, 10000, 'fund-1');
+        await fundEscrow(contract, 10000, 'fund-1');
+
+        expect(await getEscrowBalance(contract)).toBe(10000);
+        expect(provider.operations.size).toBe(1);
+      });
+
+      it('should not replay a transaction of another kind under the same key', async () => {
+        await fundEscrow(contract, 10000, 'settle-release:shared');
+
+        await expect(
+          releaseEscrow(contract, 10000, 'settle-release:shared')
+        ).rejects.toMatchObject({ code: 'idempotency_conflict' });
+        expect(await getEscrowBalance(contract)).toBe(10000);
+      });
+
+      it('should not record a charge the provider declined', async () => {
+        provider.failNext();
+
+        await expect(fundEscrow(contract, 10000, 'fund-declined')).rejects.toBeInstanceOf(
+          PaymentError
+        );
+        expect(await getEscrowBalance(contract)).toBe(0);
+      });
+
+      it('should pay the freelancer less the platform fee on release', async () => {
+        await fundEscrow(contract, 10000, 'fund-1');
+        await releaseEscrow(contract, 4000, 'release-1');
+
+        const fee = calculatePlatformFee(4000);
+        const revenue = await ensureAccount('platform_revenue', null, 'USD');
+
+        expect(await getEscrowBalance(contract)).toBe(6000);
+        expect(await walletBalance()).toBe(4000 - fee);
+        expect(await getAccountBalance(revenue._id)).toBe(fee);
+      });
+
+      it('should not release more than escrow holds', async () => {
+        await fundEscrow(contract, 1000, 'fund-1');
+
+        await expect(releaseEscrow(contract, 2000, 'release-1')).rejects.toMatchObject({
+          code: 'insufficient_funds',
+        });
+        expect(await getEscrowBalance(contract)).toBe(1000);
+      });
+
+      it('should reverse a refund the provider failed to send', async () => {
+        await fundEscrow(contract, 5000, 'fund-1');
+        provider.failNext();
+
+        await expect(refundEscrow(contract, 5000, 'refund-1')).rejects.toMatchObject({
+          code: 'payment_failed',
+        });
+
+        expect(await getEscrowBalance(contract)).toBe(5000);
+        expect(await LedgerTransaction.exists({ idempotencyKey: 'refund-1:reversal' })).toBeTruthy();
+      });
+
+      it('should take a retried refund out of escrow again under a new key', async () => {
+        await fundEscrow(contract, 5000, 'fund-1');
+        provider.failNext();
+        await expect(refundEscrow(contract, 5000, 'refund-1')).rejects.toBeInstanceOf(
+          PaymentError
+        );
+
+        const retried = await refundEscrow(contract, 5000, 'refund-1');
+
+        expect(retried.idempotencyKey).toBe('refund-1:retry-2');
+        expect(retried.providerReference).toBeDefined();
+        expect(await getEscrowBalance(contract)).toBe(0);
+        expect(provider.operations.get('refund-1:retry-2')?.kind).toBe('refund');
+      });
+
+      it('should leave escrow in place when settling fails and settle on the next run', async () => {
+        await fundEscrow(contract, 5000, 'fund-1');
+
+        provider.failNext();
+        await settleEscrow(contract, 'refund');
+        expect(await getEscrowBalance(contract)).toBe(5000);
+
+        await settleEscrow(contract, 'refund');
+        expect(await getEscrowBalance(contract)).toBe(0);
+      });
+
+      it('should release what is left to the freelancer when settling a completion', async () => {
+        await fundEscrow(contract, 5000, 'fund-1');
+        await settleEscrow(contract, 'release');
+
+        expect(await getEscrowBalance(contract)).toBe(0);
+        expect(await walletBalance()).toBe(5000 - calculatePlatformFee(5000));
+      });
+
+      it('should sum funding, releases and refunds net of reversals', async () => {
+        await fundEscrow(contract, 10000, 'fund-1');
+        await releaseEscrow(contract, 3000, 'release-1');
+        provider.failNext();
+        await expect(refundEscrow(contract, 2000, 'refund-1')).rejects.toBeInstanceOf(
+          PaymentError
+        );
+        await refundEscrow(contract, 2000, 'refund-1');
+
+        expect(await getEscrowSummary(contract)).toEqual({
+          balance: 5000,
+          funded: 10000,
+          released: 3000,
+          refunded: 2000,
+        });
+      });
+    });
+
+    describe('withdrawFromWallet', () => {
+      it('should restore the wallet when a payout fails and pay out on retry', async () => {
+        await fundEscrow(contract, 10000, 'fund-1');
+        await releaseEscrow(contract, 10000, 'release-1');
+        const freelancerId = contract.freelancerId.toString();
+
+        const earned = await walletBalance();
+
+        provider.failNext();
+        await expect(
+          withdrawFromWallet(freelancerId, earned, 'USD', 'withdraw-1')
+        ).rejects.toMatchObject({ code: 'payment_failed' });
+        expect(await walletBalance()).toBe(earned);
+
+        await withdrawFromWallet(freelancerId, earned, 'USD', 'withdraw-1');
+        expect(await walletBalance()).toBe(0);
+        expect(await getBalance('payout', freelancerId, 'USD')).toBe(earned);
+      });
+
+      it('should not pay out more than the wallet holds', async () => {
+        await expect(
+          withdrawFromWallet(contract.freelancerId.toString(), 100, 'USD', 'withdraw-1')
+        ).rejects.toMatchObject({ code: 'insufficient_funds' });
+        expect(provider.operations.size).toBe(0);
+      });
+    });
+  });
+});
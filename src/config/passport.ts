@@ -2,7 +2,7 @@ import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import type { Request } from "express";
 import dotenv from "dotenv";
-import User from "../models/users.js";
+import User, { SELF_ASSIGNABLE_ROLES, type UserRole } from "../models/users.js";
 import { invalidateUserCached } from "../utils/userCache.js";
 
 dotenv.config();
@@ -27,14 +27,16 @@ passport.use(
         }
 
         // Extract role from state parameter
-        let role = "freelancer"; // default role
+        let role: UserRole = "freelancer"; // default role
         const state = req.query.state;
         if (typeof state === "string") {
           try {
             const decodedState = JSON.parse(
               Buffer.from(state, "base64").toString()
             );
-            role = decodedState.role || "freelancer";
+            if (SELF_ASSIGNABLE_ROLES.includes(decodedState.role)) {
+              role = decodedState.role;
+            }
           } catch (err) {
             console.error("Error parsing state:", err);
           }
@@ -85,6 +85,20 @@ export const deleteFile = (filePath: string): Promise<void> => {
   });
 };
 
+// remove files multer already wrote when the request is rejected
+export const cleanupUploadedFiles = async (
+  req: Express.Request
+): Promise<void> => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  for (const file of files) {
+    try {
+      await deleteFile(file.path);
+    } catch (err) {
+      console.error("Failed to cleanup uploaded file:", err);
+    }
+  }
+};
+
 export const getFilePathFronUrl = (url: string): string => {
   return url.startsWith("/") ? url.slice(1) : url;
 };
@@ -145,3 +159,102 @@ export const proposalAttachUpload = multer({
   },
   fileFilter: proposalFileFilter,
 });
+
+// contract deliverable submissions config
+const deliverableDir = "uploads/contract-deliverables";
+
+if (!fs.existsSync(deliverableDir)) {
+  fs.mkdirSync(deliverableDir, { recursive: true });
+}
+
+const deliverableStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    cb(null, deliverableDir);
+  },
+
+  filename: (req, file, cb) => {
+    const userId = (req as AuthenticatedRequest).user?.userId || "unknown";
+    const contractId = req.params?.["contractId"] || "unknown";
+
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    const sanitizedOriginalname = path
+      .basename(file.originalname, extension)
+      .replace(/[^a-zA-Z0-9-_]/g, "_");
+
+    const uniqueFilename = `deliverable-${userId}-${contractId}-${sanitizedOriginalname}-${Date.now()}${extension}`;
+
+    cb(null, uniqueFilename);
+  },
+});
+
+const deliverableFileFilter = (
+  req: Express.Request,
+  file: Express.Multer.File,
+  cb: FileFilterCallback
+) => {
+  const allowedMimeTypes = [
+    "application/pdf",
+    "application/msword", // .doc
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document", // .docx
+    "text/plain", // .txt
+    "application/zip",
+    "application/x-zip-compressed",
+    "image/jpeg",
+    "image/png",
+    "image/webp",
+  ];
+
+  if (allowedMimeTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    const error = new Error(`Invalid file`) as Error & { code: string };
+    error.code = "INVALID_FILE_TYPE";
+    cb(error);
+  }
+};
+
+export const deliverableUpload = multer({
+  storage: deliverableStorage,
+  limits: {
+    fileSize: 20 * 1024 * 1024,
+  },
+  fileFilter: deliverableFileFilter,
+});
+
+// dispute evidence config
+const disputeEvidenceDir = "uploads/dispute-evidence";
+
+if (!fs.existsSync(disputeEvidenceDir)) {
+  fs.mkdirSync(disputeEvidenceDir, { recursive: true });
+}
+
+const disputeEvidenceStorage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    cb(null, disputeEvidenceDir);
+  },
+
+  filename: (req, file, cb) => {
+    const userId = (req as AuthenticatedRequest).user?.userId || "unknown";
+    const contractId = req.params?.["contractId"] || "unknown";
+
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    const sanitizedOriginalname = path
+      .basename(file.originalname, extension)
+      .replace(/[^a-zA-Z0-9-_]/g, "_");
+
+    const uniqueFilename = `dispute-${userId}-${contractId}-${sanitizedOriginalname}-${Date.now()}${extension}`;
+
+    cb(null, uniqueFilename);
+  },
+});
+
+// evidence accepts the same documents, images and archives as deliverables
+export const disputeEvidenceUpload = multer({
+  storage: disputeEvidenceStorage,
+  limits: {
+    fileSize: 20 * 1024 * 1024,
+  },
+  fileFilter: deliverableFileFilter,
+});
@@ -1,6 +1,6 @@
 import type { Request, Response, NextFunction } from "express";
 import bcrypt from "bcryptjs";
-import User from "../models/users.js";
+import User, { SELF_ASSIGNABLE_ROLES } from "../models/users.js";
 import jwt from "jsonwebtoken";
 import passport from "passport";
 
@@ -42,6 +42,10 @@ const postSignup = async (req: Request, res: Response): Promise<Response> => {
         .json({ error: "Please enter a valid email address" });
     }
 
+    if (role !== undefined && !SELF_ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({ error: "Invalid role" });
+    }
+
     const existingUser = await User.findOne({ email: email.toLowerCase() });
     if (existingUser) {
       return res.status(409).json({ error: "Email already registered" });
@@ -180,6 +180,12 @@ export const sendMessage = async (req: Request, res: Response) => {
       });
     }
 
+    if (conversation.closedAt) {
+      return res.status(409).json({
+        message: "This conversation is closed",
+      });
+    }
+
     const message = await Message.create({
       conversationId: new mongoose.Types.ObjectId(conversationId),
       senderId: new mongoose.Types.ObjectId(userId),
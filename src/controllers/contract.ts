@@ -1,19 +1,134 @@
 import type { Request, Response } from "express";
 import { getCachedConversation } from "../utils/conversationCache.js";
-import { getCachedJob, invalidateJobCache } from "../utils/jobCache.js";
+import {
+  getCachedJob,
+  invalidateJobCache,
+  invalidateClientJobsCache,
+} from "../utils/jobCache.js";
 import { getCachedUser } from "../utils/userCache.js";
 import { Proposal } from "../models/proposal.js";
 import { Contract, type IContract } from "../models/contract.js";
 import { Job } from "../models/job.js";
+import { Timesheet } from "../models/timesheet.js";
+import { getPublishFields } from "../utils/jobLifecycle.js";
 import {
   setContractCache,
   invalidateClientContractsCache,
   invalidateFreelancerContractsCache,
   invalidateJobContractCache,
+  invalidateContractCaches,
+  getCachedContract,
 } from "../utils/contractCache.js";
-import { sendFreelancerHiredEmail } from "../utils/emailServices.js";
+import {
+  sendFreelancerHiredEmail,
+  sendContractCancellationEmail,
+} from "../utils/emailServices.js";
+import {
+  getContractParty,
+  getCounterpartyId,
+  OPEN_CONTRACT_STATUSES,
+  type ContractParty,
+} from "../utils/contractAccess.js";
+import {
+  completeContract,
+  getAutoCompleteAt,
+} from "../utils/contractCompletion.js";
+import { emitToConversation } from "../utils/socket/emitters.js";
+import { redactHiddenReviews } from "../utils/reviews.js";
+import {
+  parseMilestoneDrafts,
+  milestonePlanMatchesBudget,
+  findMilestoneByDeliverable,
+} from "../utils/milestones.js";
+import {
+  getWeekStart,
+  getLoggedMinutes,
+  getTimesheetTotals,
+} from "../utils/timesheets.js";
+import {
+  settleEscrow,
+  fundEscrowShortfall,
+  releaseEscrow,
+  getEscrowBalance,
+} from "../utils/payments/escrow.js";
+import {
+  PaymentError,
+  toMinorUnits,
+  fromMinorUnits,
+} from "../utils/payments/ledger.js";
+import {
+  parseTermsChange,
+  checkBudgetChange,
+  snapshotTerms,
+  applyTermsChange,
+  getContractTerms,
+} from "../utils/amendments.js";
+import {
+  isFullySigned,
+  getRequestIp,
+  UNSIGNED_CONTRACT_ERROR,
+} from "../utils/contractSignatures.js";
+import {
+  buildContractDocument,
+  renderContractMarkdown,
+  renderContractPdf,
+} from "../utils/contractDocument.js";
+import {
+  getUserContracts,
+  sortUserContracts,
+  CONTRACT_STATUSES,
+  CONTRACT_SORT_FIELDS,
+  type ContractFilters,
+  type ContractSortField,
+} from "../utils/contractListing.js";
+import { cleanupUploadedFiles } from "../config/upload.js";
 import mongoose from "mongoose";
 
+// email the other side of the contract about a cancellation step
+const notifyCancellationCounterparty = async (
+  contract: IContract,
+  actingParty: ContractParty,
+  reason: string,
+  stage: "requested" | "approved"
+): Promise<void> => {
+  try {
+    const actor = await getCachedUser(
+      actingParty === "client"
+        ? contract.clientId.toString()
+        : contract.freelancerId.toString()
+    );
+    const recipient = await getCachedUser(
+      getCounterpartyId(contract, actingParty)
+    );
+
+    if (actor && recipient) {
+      await sendContractCancellationEmail(
+        recipient.email,
+        recipient.firstName,
+        actor.firstName,
+        contract.projectDetails.title,
+        contract._id.toString(),
+        reason,
+        stage
+      );
+    }
+  } catch (emailError) {
+    console.error("Failed to send contract cancellation email:", emailError);
+  }
+};
+
+// how far ahead the dashboard looks for deadlines
+const UPCOMING_DEADLINE_DAYS = 14;
+const DASHBOARD_LIST_LIMIT = 10;
+
+// contract goes back to in_progress once nothing is waiting on the client
+const syncReviewStatus = (contract: IContract): void => {
+  const awaitingReview = contract.deliverables.some(
+    (d) => d.status === "submitted"
+  );
+  contract.status = awaitingReview ? "under_review" : "in_progress";
+};
+
 export const createContract = async (
   req: Request,
   res: Response
@@ -219,13 +334,15 @@ export const getContractByConversation = async (
     }
 
     // Verify user is part of the contract
-    if (
-      contract.clientId.toString() !== userId.toString() 
-    ) {
+    const party = getContractParty(contract, userId);
+    if (!party) {
       return res.status(403).json({ error: "Unauthorized" });
     }
 
-    return res.status(200).json({ contract });
+    return res.status(200).json({
+      contract: redactHiddenReviews(contract, party),
+      terms: getContractTerms(contract),
+    });
   } catch (error) {
     console.error("Error fetching contract:", error);
     return res.status(500).json({ error: "Internal server error" });
@@ -255,15 +372,2077 @@ export const getContract = async (
     }
 
     // Verify user is part of the contract (client or freelancer)
-    if (
-      contract.clientId.toString() !== userId.toString() 
-    ) {
+    const party = getContractParty(contract, userId);
+    if (!party) {
       return res.status(403).json({ error: "Unauthorized" });
     }
 
-    return res.status(200).json({ contract });
+    return res.status(200).json({
+      contract: redactHiddenReviews(contract, party),
+      terms: getContractTerms(contract),
+    });
   } catch (error) {
     console.error("Error fetching contract:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+export const getMyContracts = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const {
+      role,
+      status,
+      from,
+      to,
+      counterpartyId,
+      jobId,
+      sortBy = "createdAt",
+      order = "desc",
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const filters: ContractFilters = {};
+
+    if (role !== undefined) {
+      if (role !== "client" && role !== "freelancer") {
+        return res
+          .status(400)
+          .json({ error: "Role must be client or freelancer" });
+      }
+      filters.role = role;
+    }
+
+    if (status) {
+      const statuses = status.split(",").map((s) => s.trim());
+      const invalid = statuses.find(
+        (s) => !CONTRACT_STATUSES.includes(s as IContract["status"])
+      );
+      if (invalid) {
+        return res.status(400).json({ error: `Invalid status: ${invalid}` });
+      }
+      filters.statuses = statuses as IContract["status"][];
+    }
+
+    for (const [key, value] of [["from", from], ["to", to]] as const) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: `Invalid ${key} date` });
+      }
+      filters[key] = date;
+    }
+
+    for (const [key, value] of [["counterpartyId", counterpartyId], ["jobId", jobId]] as const) {
+      if (!value) continue;
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return res.status(400).json({ error: `Invalid ${key}` });
+      }
+      filters[key] = value;
+    }
+
+    if (!CONTRACT_SORT_FIELDS.includes(sortBy as ContractSortField)) {
+      return res.status(400).json({
+        error: `sortBy must be one of ${CONTRACT_SORT_FIELDS.join(", ")}`,
+      });
+    }
+
+    if (order !== "asc" && order !== "desc") {
+      return res.status(400).json({ error: "Order must be asc or desc" });
+    }
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 10));
+
+    const contracts = sortUserContracts(
+      await getUserContracts(userId, filters),
+      sortBy as ContractSortField,
+      order
+    );
+
+    const pageItems = contracts.slice(
+      (pageNum - 1) * limitNum,
+      pageNum * limitNum
+    );
+
+    return res.status(200).json({
+      contracts: pageItems.map(({ contract, role }) => ({
+        ...redactHiddenReviews(contract, role),
+        role,
+      })),
+      pagination: {
+        total: contracts.length,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(contracts.length / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching user contracts:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getContractDashboard = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const contracts = await getUserContracts(userId);
+
+    const counts: Record<string, number> = Object.fromEntries(
+      CONTRACT_STATUSES.map((status) => [status, 0])
+    );
+    for (const { contract } of contracts) {
+      counts[contract.status] = (counts[contract.status] || 0) + 1;
+    }
+
+    // contracts still holding money or moving forward
+    const live = contracts.filter(
+      ({ contract }) =>
+        OPEN_CONTRACT_STATUSES.includes(contract.status) ||
+        contract.status === "disputed"
+    );
+
+    const now = Date.now();
+    const horizon = now + UPCOMING_DEADLINE_DAYS * 24 * 60 * 60 * 1000;
+
+    const deadlines = [];
+    for (const { contract, role } of live) {
+      const base = {
+        contractId: contract._id,
+        title: contract.projectDetails.title,
+        role,
+      };
+
+      if (contract.duration.deadline) {
+        deadlines.push({
+          ...base,
+          type: "contract" as const,
+          dueDate: new Date(contract.duration.deadline),
+        });
+      }
+
+      for (const deliverable of contract.deliverables) {
+        if (!deliverable.dueDate) continue;
+        if (deliverable.status !== "pending" && deliverable.status !== "revision_requested") {
+          continue;
+        }
+        deadlines.push({
+          ...base,
+          type: "deliverable" as const,
+          deliverableId: deliverable._id,
+          description: deliverable.description,
+          dueDate: new Date(deliverable.dueDate),
+        });
+      }
+    }
+
+    const upcomingDeadlines = deadlines
+      .filter((d) => d.dueDate.getTime() <= horizon)
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+      .slice(0, DASHBOARD_LIST_LIMIT)
+      .map((d) => ({ ...d, overdue: d.dueDate.getTime() < now }));
+
+    const escrowTotals: Record<string, number> = {};
+    for (const { contract } of live) {
+      const balance = await getEscrowBalance(contract);
+      if (balance > 0) {
+        const currency = contract.budget.currency;
+        escrowTotals[currency] = (escrowTotals[currency] || 0) + balance;
+      }
+    }
+
+    const recentActivity = sortUserContracts(contracts, "updatedAt", "desc")
+      .slice(0, DASHBOARD_LIST_LIMIT)
+      .map(({ contract, role }) => ({
+        contractId: contract._id,
+        title: contract.projectDetails.title,
+        status: contract.status,
+        role,
+        updatedAt: contract.updatedAt,
+      }));
+
+    return res.status(200).json({
+      dashboard: {
+        counts: { ...counts, total: contracts.length },
+        asClient: contracts.filter((c) => c.role === "client").length,
+        asFreelancer: contracts.filter((c) => c.role === "freelancer").length,
+        upcomingDeadlines,
+        escrow: Object.entries(escrowTotals).map(([currency, amount]) => ({
+          currency,
+          amount: fromMinorUnits(amount),
+        })),
+        recentActivity,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching contract dashboard:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getContractDocument = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const format = (req.query.format as string) || "pdf";
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (format !== "pdf" && format !== "markdown") {
+      return res.status(400).json({ error: "Format must be pdf or markdown" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const document = await buildContractDocument(contract);
+    const filename = `contract-${contractId}`;
+
+    if (format === "markdown") {
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.md"`);
+      return res.status(200).send(renderContractMarkdown(document));
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+    return res.status(200).send(renderContractPdf(document));
+  } catch (error) {
+    console.error("Error exporting contract document:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const signContract = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { accept } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (accept !== true) {
+      return res
+        .status(400)
+        .json({ error: "Set accept to true to sign the contract" });
+    }
+
+    const existing = await Contract.findById(contractId)
+      .select("clientId freelancerId status termsVersion")
+      .lean();
+    if (!existing) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(existing, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(existing.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot sign a ${existing.status} contract` });
+    }
+
+    const user = await getCachedUser(userId);
+    const signature = {
+      name: user ? `${user.firstName} ${user.lastName}` : "Unknown user",
+      signedAt: new Date(),
+      ip: getRequestIp(req),
+      userAgent: (req.get("User-Agent") || "unknown").slice(0, 500),
+      termsVersion: existing.termsVersion || 1,
+    };
+
+    // conditional on not being signed yet so a double click cannot overwrite the first signature
+    const contract = await Contract.findOneAndUpdate(
+      {
+        _id: contractId,
+        [`signatures.${party}.signedAt`]: { $exists: false },
+      },
+      { $set: { [`signatures.${party}`]: signature } },
+      { new: true }
+    );
+    if (!contract) {
+      return res.status(409).json({ error: "You have already signed this contract" });
+    }
+
+    await invalidateContractCaches(contract);
+
+    const fullySigned = isFullySigned(contract);
+
+    emitToConversation(contract.conversationId.toString(), "contract_signed", {
+      contractId,
+      party,
+      signedAt: signature.signedAt,
+      fullySigned,
+    });
+
+    return res.status(200).json({
+      message: fullySigned
+        ? "Contract signed by both parties"
+        : "Contract signed. Waiting for the other party to sign",
+      signatures: contract.signatures,
+      fullySigned,
+    });
+  } catch (error) {
+    console.error("Error signing contract:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const addDeliverables = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { deliverables } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (!Array.isArray(deliverables) || deliverables.length === 0) {
+      return res
+        .status(400)
+        .json({ error: "At least one deliverable is required" });
+    }
+
+    const invalid = deliverables.some(
+      (d: { description?: unknown }) =>
+        typeof d?.description !== "string" || !d.description.trim()
+    );
+    if (invalid) {
+      return res
+        .status(400)
+        .json({ error: "Each deliverable needs a description" });
+    }
+
+    const invalidDueDate = deliverables.some(
+      (d: { dueDate?: unknown }) =>
+        d.dueDate !== undefined &&
+        (typeof d.dueDate !== "string" || isNaN(new Date(d.dueDate).getTime()))
+    );
+    if (invalidDueDate) {
+      return res.status(400).json({ error: "Invalid due date" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can define deliverables" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot add deliverables to a ${contract.status} contract` });
+    }
+
+    for (const d of deliverables as Array<{ description: string; dueDate?: string }>) {
+      contract.deliverables.push({
+        description: d.description.trim(),
+        ...(d.dueDate && { dueDate: new Date(d.dueDate) }),
+        status: "pending",
+      });
+    }
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "deliverable_added", {
+      contractId,
+      deliverables: contract.deliverables,
+    });
+
+    return res.status(201).json({
+      message: "Deliverables added successfully",
+      deliverables: contract.deliverables,
+    });
+  } catch (error) {
+    console.error("Error adding deliverables:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const submitDeliverable = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { contractId, deliverableId } = req.params;
+    const { note } = req.body;
+
+    if (!userId) {
+      await cleanupUploadedFiles(req);
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (
+      !contractId ||
+      !deliverableId ||
+      !mongoose.Types.ObjectId.isValid(contractId) ||
+      !mongoose.Types.ObjectId.isValid(deliverableId)
+    ) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      await cleanupUploadedFiles(req);
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "freelancer") {
+      await cleanupUploadedFiles(req);
+      return res
+        .status(403)
+        .json({ error: "Only the freelancer can submit deliverables" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      await cleanupUploadedFiles(req);
+      return res
+        .status(400)
+        .json({ error: `Cannot submit work on a ${contract.status} contract` });
+    }
+
+    const deliverable = contract.deliverables.id(deliverableId);
+    if (!deliverable) {
+      await cleanupUploadedFiles(req);
+      return res.status(404).json({ error: "Deliverable not found" });
+    }
+
+    if (
+      deliverable.status !== "pending" &&
+      deliverable.status !== "revision_requested"
+    ) {
+      await cleanupUploadedFiles(req);
+      return res
+        .status(400)
+        .json({ error: `Deliverable is already ${deliverable.status}` });
+    }
+
+    const attachments = req.files
+      ? (req.files as Express.Multer.File[]).map(
+          (file) => `/uploads/contract-deliverables/${file.filename}`
+        )
+      : [];
+
+    if (attachments.length === 0 && !note) {
+      return res
+        .status(400)
+        .json({ error: "Attach at least one file or add a note" });
+    }
+
+    if (contract.status === "active" && !isFullySigned(contract)) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: UNSIGNED_CONTRACT_ERROR });
+    }
+
+    const milestone = findMilestoneByDeliverable(contract, deliverableId);
+    if (milestone) milestone.status = "submitted";
+
+    deliverable.status = "submitted";
+    deliverable.submittedAt = new Date();
+    deliverable.attachments = attachments;
+    if (attachments[0]) deliverable.fileUrl = attachments[0];
+    if (note) deliverable.submissionNote = note;
+    contract.status = "under_review";
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "deliverable_submitted",
+      { contractId, deliverable, ...(milestone && { milestone }) }
+    );
+
+    return res.status(200).json({
+      message: "Deliverable submitted successfully",
+      deliverable,
+      ...(milestone && { milestone }),
+    });
+  } catch (error) {
+    console.error("Error submitting deliverable:", error);
+    await cleanupUploadedFiles(req);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const reviewDeliverable = async (
+  req: Request,
+  res: Response,
+  action: "approve" | "request_revision"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { contractId, deliverableId } = req.params;
+    const { feedback } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (
+      !contractId ||
+      !deliverableId ||
+      !mongoose.Types.ObjectId.isValid(contractId) ||
+      !mongoose.Types.ObjectId.isValid(deliverableId)
+    ) {
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    if (action === "request_revision" && !feedback?.trim()) {
+      return res
+        .status(400)
+        .json({ error: "Feedback is required when requesting a revision" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can review deliverables" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot review work on a ${contract.status} contract` });
+    }
+
+    const deliverable = contract.deliverables.id(deliverableId);
+    if (!deliverable) {
+      return res.status(404).json({ error: "Deliverable not found" });
+    }
+
+    if (deliverable.status !== "submitted") {
+      return res
+        .status(400)
+        .json({ error: "Only submitted deliverables can be reviewed" });
+    }
+
+    const milestone = findMilestoneByDeliverable(contract, deliverableId);
+
+    if (action === "approve") {
+      deliverable.status = "approved";
+      // approving a milestone's work releases the milestone
+      if (milestone) {
+        milestone.status = "released";
+        milestone.releasedAt = new Date();
+      }
+    } else {
+      deliverable.status = "revision_requested";
+      deliverable.revisionCount += 1;
+      if (milestone) milestone.status = "in_progress";
+    }
+    if (feedback) deliverable.feedback = feedback;
+    deliverable.reviewedAt = new Date();
+    syncReviewStatus(contract);
+
+    // pay the milestone out before recording it as released
+    if (milestone?.status === "released") {
+      await releaseEscrow(
+        contract,
+        toMinorUnits(milestone.amount),
+        `milestone-release:${milestone._id}`,
+        { milestoneId: milestone._id.toString(), description: milestone.title }
+      );
+    }
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      action === "approve" ? "deliverable_approved" : "deliverable_revision_requested",
+      { contractId, deliverable, ...(milestone && { milestone }) }
+    );
+
+    if (milestone?.status === "released") {
+      emitToConversation(contract.conversationId.toString(), "milestone_released", {
+        contractId,
+        milestone,
+      });
+    }
+
+    return res.status(200).json({
+      message:
+        action === "approve"
+          ? "Deliverable approved"
+          : "Revision requested",
+      deliverable,
+      ...(milestone && { milestone }),
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error reviewing deliverable:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const approveDeliverable = (req: Request, res: Response) =>
+  reviewDeliverable(req, res, "approve");
+
+export const requestDeliverableRevision = (req: Request, res: Response) =>
+  reviewDeliverable(req, res, "request_revision");
+
+export const proposeMilestones = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const parsed = parseMilestoneDrafts(req.body.milestones);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "freelancer") {
+      return res
+        .status(403)
+        .json({ error: "Only the freelancer can propose milestones" });
+    }
+
+    if (contract.budget.type !== "fixed") {
+      return res
+        .status(400)
+        .json({ error: "Milestones are only available on fixed-price contracts" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot change milestones on a ${contract.status} contract` });
+    }
+
+    if (!milestonePlanMatchesBudget(contract, parsed.drafts)) {
+      return res.status(400).json({
+        error: `Milestone amounts must add up to the contract budget of ${contract.budget.amount} ${contract.budget.currency}`,
+      });
+    }
+
+    // a new proposal replaces one the client has not answered yet
+    contract.milestoneProposal = {
+      proposedAt: new Date(),
+      milestones: parsed.drafts,
+    };
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "milestones_proposed", {
+      contractId,
+      milestoneProposal: contract.milestoneProposal,
+    });
+
+    return res.status(200).json({
+      message: "Milestones proposed. Waiting for the client's approval",
+      milestoneProposal: contract.milestoneProposal,
+    });
+  } catch (error) {
+    console.error("Error proposing milestones:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const approveMilestones = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can approve milestones" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot change milestones on a ${contract.status} contract` });
+    }
+
+    const proposal = contract.milestoneProposal;
+    if (!proposal?.proposedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending milestone proposal" });
+    }
+
+    // a milestone may have been started since the proposal was made
+    if (!milestonePlanMatchesBudget(contract, proposal.milestones)) {
+      return res.status(409).json({
+        error: "Milestones have changed since this proposal. Ask the freelancer to propose again",
+      });
+    }
+
+    // unstarted milestones are replaced along with their pending deliverables
+    const replaced = contract.milestones.filter((m) => m.status === "funded");
+    for (const milestone of replaced) {
+      contract.deliverables.pull(milestone.deliverableId);
+      contract.milestones.pull(milestone._id);
+    }
+
+    const fundedAt = new Date();
+    for (const draft of proposal.milestones) {
+      const deliverableId = new mongoose.Types.ObjectId();
+
+      contract.deliverables.push({
+        _id: deliverableId,
+        description: draft.title,
+        ...(draft.dueDate && { dueDate: draft.dueDate }),
+        status: "pending",
+      });
+
+      contract.milestones.push({
+        title: draft.title,
+        amount: draft.amount,
+        ...(draft.description && { description: draft.description }),
+        ...(draft.dueDate && { dueDate: draft.dueDate }),
+        status: "funded",
+        deliverableId,
+        fundedAt,
+      });
+    }
+
+    contract.set("milestoneProposal", undefined);
+
+    // escrow has to cover every milestone that is not yet released
+    const unreleasedTotal = contract.milestones
+      .filter((m) => m.status !== "released")
+      .reduce((sum, m) => sum + toMinorUnits(m.amount), 0);
+
+    await fundEscrowShortfall(
+      contract,
+      unreleasedTotal,
+      `milestones:${contractId}:${proposal.proposedAt.getTime()}`,
+      { description: "Milestones funded" }
+    );
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "milestones_approved", {
+      contractId,
+      milestones: contract.milestones,
+    });
+
+    return res.status(200).json({
+      message: "Milestones approved",
+      milestones: contract.milestones,
+      deliverables: contract.deliverables,
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error approving milestones:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const rejectMilestones = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can reject milestones" });
+    }
+
+    if (!contract.milestoneProposal?.proposedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending milestone proposal" });
+    }
+
+    contract.set("milestoneProposal", undefined);
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "milestones_rejected", {
+      contractId,
+      ...(reason && { reason }),
+    });
+
+    return res.status(200).json({ message: "Milestone proposal rejected" });
+  } catch (error) {
+    console.error("Error rejecting milestones:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const startMilestone = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { contractId, milestoneId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (
+      !contractId ||
+      !milestoneId ||
+      !mongoose.Types.ObjectId.isValid(contractId) ||
+      !mongoose.Types.ObjectId.isValid(milestoneId)
+    ) {
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "freelancer") {
+      return res
+        .status(403)
+        .json({ error: "Only the freelancer can start a milestone" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot start work on a ${contract.status} contract` });
+    }
+
+    const milestone = contract.milestones.id(milestoneId);
+    if (!milestone) {
+      return res.status(404).json({ error: "Milestone not found" });
+    }
+
+    if (milestone.status !== "funded") {
+      return res
+        .status(400)
+        .json({ error: `Milestone is already ${milestone.status}` });
+    }
+
+    if (contract.status === "active" && !isFullySigned(contract)) {
+      return res.status(400).json({ error: UNSIGNED_CONTRACT_ERROR });
+    }
+
+    milestone.status = "in_progress";
+    if (contract.status === "active") contract.status = "in_progress";
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "milestone_started", {
+      contractId,
+      milestone,
+    });
+
+    return res.status(200).json({ message: "Milestone started", milestone });
+  } catch (error) {
+    console.error("Error starting milestone:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const setWeeklyHourCap = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { weeklyHourCap } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    // null removes the cap
+    const cap = weeklyHourCap === null ? null : Number(weeklyHourCap);
+    if (cap !== null && (!Number.isFinite(cap) || cap < 1 || cap > 168)) {
+      return res
+        .status(400)
+        .json({ error: "Weekly hour cap must be between 1 and 168 hours" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can set the weekly hour cap" });
+    }
+
+    if (contract.budget.type !== "hourly") {
+      return res
+        .status(400)
+        .json({ error: "Weekly hour caps only apply to hourly contracts" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot change the terms of a ${contract.status} contract` });
+    }
+
+    contract.set("budget.weeklyHourCap", cap ?? undefined);
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "hour_cap_updated", {
+      contractId,
+      weeklyHourCap: cap,
+    });
+
+    return res.status(200).json({
+      message: cap ? "Weekly hour cap updated" : "Weekly hour cap removed",
+      weeklyHourCap: cap,
+    });
+  } catch (error) {
+    console.error("Error setting weekly hour cap:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getContractSummary = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await getCachedContract(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const summary = {
+      contractId,
+      status: contract.status,
+      budget: contract.budget,
+      deliverables: {
+        total: contract.deliverables.length,
+        approved: contract.deliverables.filter((d) => d.status === "approved").length,
+        awaitingReview: contract.deliverables.filter((d) => d.status === "submitted").length,
+      },
+    };
+
+    if (contract.budget.type === "fixed") {
+      const released = contract.milestones.filter((m) => m.status === "released");
+      const releasedAmount = released.reduce((sum, m) => sum + m.amount, 0);
+
+      return res.status(200).json({
+        summary: {
+          ...summary,
+          milestones: {
+            total: contract.milestones.length,
+            released: released.length,
+            releasedAmount,
+            remainingAmount: contract.budget.amount - releasedAmount,
+          },
+        },
+      });
+    }
+
+    const totals = await getTimesheetTotals(contractId);
+    const weekStart = getWeekStart(new Date());
+    const loggedMinutes = await getLoggedMinutes(contractId, weekStart);
+
+    return res.status(200).json({
+      summary: {
+        ...summary,
+        hours: {
+          approvedHours: totals.approved.minutes / 60,
+          billableAmount: totals.approved.amount,
+          pendingHours: totals.submitted.minutes / 60,
+          pendingAmount: totals.submitted.amount,
+          disputedHours: totals.disputed.minutes / 60,
+          currentWeek: {
+            weekStart,
+            loggedHours: loggedMinutes / 60,
+            weeklyHourCap: contract.budget.weeklyHourCap || null,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching contract summary:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const proposeAmendment = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { message } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (message !== undefined && typeof message !== "string") {
+      return res.status(400).json({ error: "Message must be text" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot change the terms of a ${contract.status} contract` });
+    }
+
+    if (contract.amendments.some((a) => a.status === "pending")) {
+      return res
+        .status(409)
+        .json({ error: "An amendment is already waiting for a response" });
+    }
+
+    const parsed = parseTermsChange(req.body.changes, contract);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (parsed.changes.budgetAmount !== undefined) {
+      const budgetError = await checkBudgetChange(
+        contract,
+        parsed.changes.budgetAmount
+      );
+      if (budgetError) {
+        return res.status(400).json({ error: budgetError });
+      }
+    }
+
+    contract.amendments.push({
+      proposedBy: party,
+      proposedAt: new Date(),
+      changes: parsed.changes,
+      status: "pending",
+      ...(message?.trim() && { message: message.trim() }),
+    });
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    const amendment = contract.amendments[contract.amendments.length - 1];
+
+    emitToConversation(contract.conversationId.toString(), "amendment_proposed", {
+      contractId,
+      amendment,
+      awaitingUserId: getCounterpartyId(contract, party),
+    });
+
+    return res.status(201).json({
+      message: "Amendment proposed. Waiting for the other party's response",
+      amendment,
+    });
+  } catch (error) {
+    console.error("Error proposing amendment:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const resolveAmendment = async (
+  req: Request,
+  res: Response,
+  mode: "accept" | "reject" | "withdraw"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { contractId, amendmentId } = req.params;
+    const { note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (
+      !contractId ||
+      !amendmentId ||
+      !mongoose.Types.ObjectId.isValid(contractId) ||
+      !mongoose.Types.ObjectId.isValid(amendmentId)
+    ) {
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({ error: "Note must be text" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const amendment = contract.amendments.id(amendmentId);
+    if (!amendment) {
+      return res.status(404).json({ error: "Amendment not found" });
+    }
+
+    if (amendment.status !== "pending") {
+      return res
+        .status(400)
+        .json({ error: `Amendment is already ${amendment.status}` });
+    }
+
+    const isProposer = amendment.proposedBy === party;
+    if (mode === "withdraw" && !isProposer) {
+      return res
+        .status(403)
+        .json({ error: "Only the proposer can withdraw an amendment" });
+    }
+    if (mode !== "withdraw" && isProposer) {
+      return res
+        .status(403)
+        .json({ error: `You cannot ${mode} your own amendment` });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot change the terms of a ${contract.status} contract` });
+    }
+
+    if (mode === "accept") {
+      // escrow may have been funded since the amendment was proposed
+      if (amendment.changes.budgetAmount !== undefined) {
+        const budgetError = await checkBudgetChange(
+          contract,
+          amendment.changes.budgetAmount
+        );
+        if (budgetError) {
+          return res.status(409).json({ error: budgetError });
+        }
+      }
+
+      amendment.previous = snapshotTerms(contract, amendment.changes);
+      applyTermsChange(contract, amendment.changes);
+      contract.termsVersion += 1;
+      amendment.version = contract.termsVersion;
+    }
+
+    amendment.status =
+      mode === "accept" ? "accepted" : mode === "reject" ? "rejected" : "withdrawn";
+    amendment.respondedAt = new Date();
+    if (note?.trim()) amendment.responseNote = note.trim();
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      `amendment_${amendment.status}`,
+      {
+        contractId,
+        amendment,
+        termsVersion: contract.termsVersion,
+      }
+    );
+
+    // a new budget needs a milestone plan that adds up to it again
+    const unstarted = contract.milestones.filter((m) => m.status === "funded");
+    const milestonesNeedUpdate =
+      mode === "accept" &&
+      contract.milestones.length > 0 &&
+      !milestonePlanMatchesBudget(contract, unstarted);
+
+    return res.status(200).json({
+      message: `Amendment ${amendment.status}`,
+      amendment,
+      termsVersion: contract.termsVersion,
+      ...(milestonesNeedUpdate && { milestonesNeedUpdate }),
+    });
+  } catch (error) {
+    console.error(`Error trying to ${mode} amendment:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const acceptAmendment = (req: Request, res: Response) =>
+  resolveAmendment(req, res, "accept");
+
+export const rejectAmendment = (req: Request, res: Response) =>
+  resolveAmendment(req, res, "reject");
+
+export const withdrawAmendment = (req: Request, res: Response) =>
+  resolveAmendment(req, res, "withdraw");
+
+export const requestDeadlineExtension = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { deadline, reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ error: "A reason is required" });
+    }
+
+    const requestedDeadline = new Date(deadline);
+    if (!deadline || isNaN(requestedDeadline.getTime())) {
+      return res.status(400).json({ error: "Invalid deadline" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "freelancer") {
+      return res
+        .status(403)
+        .json({ error: "Only the freelancer can request an extension" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot extend a ${contract.status} contract` });
+    }
+
+    const currentDeadline = contract.duration.deadline;
+    if (!currentDeadline) {
+      return res.status(400).json({ error: "This contract has no deadline" });
+    }
+
+    if (
+      requestedDeadline <= currentDeadline ||
+      requestedDeadline.getTime() <= Date.now()
+    ) {
+      return res.status(400).json({
+        error: "The new deadline must be later than the current one and in the future",
+      });
+    }
+
+    if (contract.extensionRequest?.requestedAt) {
+      return res
+        .status(409)
+        .json({ error: "An extension request is already pending" });
+    }
+
+    contract.extensionRequest = {
+      requestedAt: new Date(),
+      deadline: requestedDeadline,
+      reason: reason.trim(),
+    };
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "extension_requested", {
+      contractId,
+      extensionRequest: contract.extensionRequest,
+      currentDeadline,
+    });
+
+    return res.status(200).json({
+      message: "Extension requested. Waiting for the client's response",
+      extensionRequest: contract.extensionRequest,
+    });
+  } catch (error) {
+    console.error("Error requesting deadline extension:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const resolveDeadlineExtension = async (
+  req: Request,
+  res: Response,
+  mode: "approve" | "reject"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({ error: "Note must be text" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: `Only the client can ${mode} an extension` });
+    }
+
+    const request = contract.extensionRequest;
+    if (!request?.requestedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending extension request" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Contract is already ${contract.status}` });
+    }
+
+    // an amendment may have moved the deadline since the request was made
+    const currentDeadline = contract.duration.deadline;
+    if (mode === "approve" && currentDeadline && request.deadline <= currentDeadline) {
+      return res.status(409).json({
+        error: "The deadline has already been moved past the requested date",
+      });
+    }
+
+    const respondedAt = new Date();
+
+    // an approved extension is recorded as an accepted amendment so it shows in the history
+    if (mode === "approve") {
+      const changes = { deadline: request.deadline };
+      const previous = snapshotTerms(contract, changes);
+      applyTermsChange(contract, changes);
+      contract.termsVersion += 1;
+
+      contract.amendments.push({
+        proposedBy: "freelancer",
+        proposedAt: request.requestedAt,
+        message: request.reason,
+        changes,
+        status: "accepted",
+        respondedAt,
+        previous,
+        version: contract.termsVersion,
+        ...(note?.trim() && { responseNote: note.trim() }),
+      });
+    }
+
+    contract.set("extensionRequest", undefined);
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      mode === "approve" ? "extension_approved" : "extension_rejected",
+      {
+        contractId,
+        deadline: contract.duration.deadline,
+        ...(note && { note }),
+      }
+    );
+
+    return res.status(200).json({
+      message: mode === "approve" ? "Extension approved" : "Extension rejected",
+      deadline: contract.duration.deadline,
+      termsVersion: contract.termsVersion,
+    });
+  } catch (error) {
+    console.error(`Error trying to ${mode} deadline extension:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const approveDeadlineExtension = (req: Request, res: Response) =>
+  resolveDeadlineExtension(req, res, "approve");
+
+export const rejectDeadlineExtension = (req: Request, res: Response) =>
+  resolveDeadlineExtension(req, res, "reject");
+
+export const requestContractCompletion = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { message } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (message !== undefined && typeof message !== "string") {
+      return res.status(400).json({ error: "Message must be text" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot complete a ${contract.status} contract` });
+    }
+
+    if (contract.completionRequest?.requestedAt) {
+      return res
+        .status(409)
+        .json({ error: "A completion request is already pending" });
+    }
+
+    if (contract.status === "active" && !isFullySigned(contract)) {
+      return res.status(400).json({ error: UNSIGNED_CONTRACT_ERROR });
+    }
+
+    const hasSubmittedWork = contract.deliverables.some(
+      (d) => d.status === "submitted"
+    );
+    if (hasSubmittedWork) {
+      return res.status(400).json({
+        error: "Review all submitted deliverables before requesting completion",
+      });
+    }
+
+    const pendingTimesheets = await Timesheet.exists({
+      contractId,
+      status: "submitted",
+    });
+    if (pendingTimesheets) {
+      return res.status(400).json({
+        error: "Review all submitted timesheets before requesting completion",
+      });
+    }
+
+    const hasUnreleasedMilestones = contract.milestones.some(
+      (m) => m.status !== "released"
+    );
+    if (hasUnreleasedMilestones) {
+      return res.status(400).json({
+        error: "Release all milestones before requesting completion",
+      });
+    }
+
+    // an amended budget can leave part of it outside any milestone
+    if (
+      contract.milestones.length > 0 &&
+      !milestonePlanMatchesBudget(contract, [])
+    ) {
+      return res.status(400).json({
+        error: "Milestones no longer add up to the budget. Propose milestones for the rest of it first",
+      });
+    }
+
+    const requestedAt = new Date();
+    contract.completionRequest = {
+      requestedBy: party,
+      requestedAt,
+      ...(message && { message }),
+    };
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    const autoCompleteAt = getAutoCompleteAt(requestedAt);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "completion_requested",
+      {
+        contractId,
+        completionRequest: contract.completionRequest,
+        awaitingUserId: getCounterpartyId(contract, party),
+        autoCompleteAt,
+      }
+    );
+
+    return res.status(200).json({
+      message: "Completion requested",
+      completionRequest: contract.completionRequest,
+      autoCompleteAt,
+    });
+  } catch (error) {
+    console.error("Error requesting contract completion:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const acceptContractCompletion = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!contract.completionRequest?.requestedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending completion request" });
+    }
+
+    if (contract.completionRequest.requestedBy === party) {
+      return res
+        .status(403)
+        .json({ error: "You cannot accept your own completion request" });
+    }
+
+    const completed = await completeContract(contractId, "mutual");
+    if (!completed) {
+      return res
+        .status(400)
+        .json({ error: "Contract is no longer open for completion" });
+    }
+
+    return res.status(200).json({
+      message: "Contract completed successfully",
+      contract: completed,
+    });
+  } catch (error) {
+    console.error("Error accepting contract completion:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const declineContractCompletion = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!contract.completionRequest?.requestedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending completion request" });
+    }
+
+    if (contract.completionRequest.requestedBy === party) {
+      return res
+        .status(403)
+        .json({ error: "You cannot decline your own completion request" });
+    }
+
+    contract.set("completionRequest", undefined);
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "completion_declined",
+      {
+        contractId,
+        declinedBy: party,
+        ...(reason && { reason }),
+      }
+    );
+
+    return res.status(200).json({ message: "Completion request declined" });
+  } catch (error) {
+    console.error("Error declining contract completion:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const requestContractCancellation = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { reason, jobAction } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ error: "A cancellation reason is required" });
+    }
+
+    if (reason.length > 500) {
+      return res
+        .status(400)
+        .json({ error: "Reason cannot exceed 500 characters" });
+    }
+
+    if (jobAction !== undefined && jobAction !== "reopen" && jobAction !== "close") {
+      return res.status(400).json({ error: "jobAction must be reopen or close" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot cancel a ${contract.status} contract` });
+    }
+
+    if (contract.cancellationRequest?.requestedAt) {
+      return res
+        .status(409)
+        .json({ error: "A cancellation request is already pending" });
+    }
+
+    // only the client decides what happens to their job posting
+    contract.cancellationRequest = {
+      requestedBy: party,
+      requestedAt: new Date(),
+      reason: reason.trim(),
+      ...(party === "client" && jobAction && { jobAction }),
+    };
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "cancellation_requested",
+      { contractId, cancellationRequest: contract.cancellationRequest }
+    );
+
+    await notifyCancellationCounterparty(contract, party, reason.trim(), "requested");
+
+    return res.status(200).json({
+      message: "Cancellation requested",
+      cancellationRequest: contract.cancellationRequest,
+    });
+  } catch (error) {
+    console.error("Error requesting contract cancellation:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const approveContractCancellation = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { jobAction } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (jobAction !== undefined && jobAction !== "reopen" && jobAction !== "close") {
+      return res.status(400).json({ error: "jobAction must be reopen or close" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const request = contract.cancellationRequest;
+    if (!request?.requestedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending cancellation request" });
+    }
+
+    if (request.requestedBy === party) {
+      return res
+        .status(403)
+        .json({ error: "You cannot approve your own cancellation request" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot cancel a ${contract.status} contract` });
+    }
+
+    const resolvedJobAction: "reopen" | "close" =
+      (party === "client" ? jobAction : undefined) ||
+      request.jobAction ||
+      "close";
+    const now = new Date();
+
+    const session = await mongoose.startSession();
+    let cancelled: IContract | null = null;
+
+    try {
+      await session.withTransaction(async () => {
+        cancelled = await Contract.findOneAndUpdate(
+          { _id: contractId, status: { $in: OPEN_CONTRACT_STATUSES } },
+          {
+            $set: {
+              status: "cancelled",
+              cancelledAt: now,
+              cancellationReason: request.reason,
+              "cancellationRequest.approvedBy": party,
+              "cancellationRequest.approvedAt": now,
+              "cancellationRequest.jobAction": resolvedJobAction,
+            },
+          },
+          { new: true, session }
+        );
+
+        if (!cancelled) return;
+
+        await Job.findByIdAndUpdate(
+          contract.jobId,
+          resolvedJobAction === "reopen"
+            ? { $set: getPublishFields(now), $unset: { closedAt: 1 } }
+            : { status: "closed", closedAt: now },
+          { session }
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const cancelledContract = cancelled as IContract | null;
+    if (!cancelledContract) {
+      return res
+        .status(400)
+        .json({ error: "Contract is no longer open for cancellation" });
+    }
+
+    await invalidateContractCaches(cancelledContract);
+    await invalidateJobCache(contract.jobId.toString());
+    await invalidateClientJobsCache(contract.clientId.toString());
+    // Note: Matched jobs cache will refresh via TTL when freelancers query
+
+    await settleEscrow(cancelledContract, "refund");
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "contract_cancelled",
+      {
+        contractId,
+        cancelledAt: now,
+        reason: request.reason,
+        jobAction: resolvedJobAction,
+      }
+    );
+
+    await notifyCancellationCounterparty(
+      cancelledContract,
+      party,
+      request.reason,
+      "approved"
+    );
+
+    return res.status(200).json({
+      message: "Contract cancelled",
+      contract: cancelledContract,
+    });
+  } catch (error) {
+    console.error("Error approving contract cancellation:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// rejecting (counterparty) and withdrawing (requester) both clear the pending request
+const clearCancellationRequest = async (
+  req: Request,
+  res: Response,
+  mode: "reject" | "withdraw"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const request = contract.cancellationRequest;
+    if (!request?.requestedAt || request.approvedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending cancellation request" });
+    }
+
+    const isRequester = request.requestedBy === party;
+    if (mode === "reject" && isRequester) {
+      return res
+        .status(403)
+        .json({ error: "You cannot reject your own cancellation request" });
+    }
+    if (mode === "withdraw" && !isRequester) {
+      return res
+        .status(403)
+        .json({ error: "Only the requester can withdraw a cancellation request" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Contract is already ${contract.status}` });
+    }
+
+    contract.set("cancellationRequest", undefined);
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      mode === "reject" ? "cancellation_rejected" : "cancellation_withdrawn",
+      {
+        contractId,
+        by: party,
+        ...(reason && { reason }),
+      }
+    );
+
+    return res.status(200).json({
+      message:
+        mode === "reject"
+          ? "Cancellation request rejected"
+          : "Cancellation request withdrawn",
+    });
+  } catch (error) {
+    console.error(`Error trying to ${mode} contract cancellation:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const rejectContractCancellation = (req: Request, res: Response) =>
+  clearCancellationRequest(req, res, "reject");
+
+export const withdrawContractCancellation = (req: Request, res: Response) =>
+  clearCancellationRequest(req, res, "withdraw");
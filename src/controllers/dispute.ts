@@ -0,0 +1,710 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import {
+  Contract,
+  type IContract,
+  type DisputeOutcome,
+} from "../models/contract.js";
+import { DisputeMessage } from "../models/dispute.js";
+import { Job } from "../models/job.js";
+import { cleanupUploadedFiles } from "../config/upload.js";
+import { invalidateContractCaches } from "../utils/contractCache.js";
+import {
+  invalidateJobCache,
+  invalidateClientJobsCache,
+} from "../utils/jobCache.js";
+import { getCachedUser } from "../utils/userCache.js";
+import { completeContract } from "../utils/contractCompletion.js";
+import {
+  getContractParty,
+  getCounterpartyId,
+  OPEN_CONTRACT_STATUSES,
+} from "../utils/contractAccess.js";
+import { emitToConversation, emitToUser } from "../utils/socket/emitters.js";
+import { settleEscrow } from "../utils/payments/escrow.js";
+import { isFullySigned } from "../utils/contractSignatures.js";
+
+const DISPUTE_OUTCOMES: DisputeOutcome[] = ["completed", "cancelled", "resumed"];
+
+// matches the maxlength on dispute.resolution
+const MAX_RESOLUTION_LENGTH = 2000;
+
+const isAdmin = async (userId: string): Promise<boolean> => {
+  const user = await getCachedUser(userId);
+  return user?.role === "admin";
+};
+
+const getEvidenceUrls = (req: Request): string[] =>
+  req.files
+    ? (req.files as Express.Multer.File[]).map(
+        (file) => `/uploads/dispute-evidence/${file.filename}`
+      )
+    : [];
+
+/**
+ * Close a dispute and move the contract to its final status
+ * @returns The updated contract, or null if it was no longer disputed
+ */
+const applyDisputeOutcome = async (
+  contract: IContract,
+  outcome: DisputeOutcome,
+  resolution: string,
+  resolvedBy: "admin" | "mutual_agreement"
+): Promise<IContract | null> => {
+  const contractId = contract._id.toString();
+  const resolvedFields = {
+    "dispute.status": "resolved",
+    "dispute.isDisputed": false,
+    "dispute.outcome": outcome,
+    "dispute.resolution": resolution,
+    "dispute.resolvedAt": new Date(),
+    "dispute.resolvedBy": resolvedBy,
+  };
+
+  let updated: IContract | null = null;
+
+  if (outcome === "completed") {
+    updated = await completeContract(
+      contractId,
+      resolvedBy === "admin" ? "admin" : "mutual",
+      { fromStatuses: ["disputed"], set: resolvedFields }
+    );
+  } else if (outcome === "cancelled") {
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        updated = await Contract.findOneAndUpdate(
+          { _id: contractId, status: "disputed" },
+          {
+            $set: {
+              ...resolvedFields,
+              status: "cancelled",
+              cancelledAt: new Date(),
+              cancellationReason: resolution.slice(0, 500),
+            },
+          },
+          { new: true, session }
+        );
+
+        if (!updated) return;
+
+        await Job.findByIdAndUpdate(
+          contract.jobId,
+          { status: "closed" },
+          { session }
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    await invalidateJobCache(contract.jobId.toString());
+    await invalidateClientJobsCache(contract.clientId.toString());
+  } else {
+    // work can't start on a contract that was disputed before both parties signed
+    updated = await Contract.findOneAndUpdate(
+      { _id: contractId, status: "disputed" },
+      {
+        $set: {
+          ...resolvedFields,
+          status: isFullySigned(contract) ? "in_progress" : "active",
+        },
+        $unset: { completionRequest: 1, cancellationRequest: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  const resolved = updated as IContract | null;
+  if (!resolved) {
+    return null;
+  }
+
+  await invalidateContractCaches(resolved);
+
+  if (outcome === "cancelled") {
+    await settleEscrow(resolved, "refund");
+  }
+
+  emitToConversation(contract.conversationId.toString(), "dispute_resolved", {
+    contractId,
+    outcome,
+    resolution,
+    resolvedBy,
+  });
+
+  return resolved;
+};
+
+export const fileDispute = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      await cleanupUploadedFiles(req);
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "A dispute reason is required" });
+    }
+
+    if (reason.length > 1000) {
+      await cleanupUploadedFiles(req);
+      return res
+        .status(400)
+        .json({ error: "Reason cannot exceed 1000 characters" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      await cleanupUploadedFiles(req);
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      await cleanupUploadedFiles(req);
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      await cleanupUploadedFiles(req);
+      return res
+        .status(400)
+        .json({ error: `Cannot dispute a ${contract.status} contract` });
+    }
+
+    // a contract resumed after an earlier ruling keeps that dispute's record
+    const previous = contract.toObject().dispute;
+    if (previous?.filedAt) {
+      contract.pastDisputes.push(previous);
+    }
+
+    contract.dispute = {
+      disputeId: new mongoose.Types.ObjectId(),
+      isDisputed: true,
+      filedBy: party,
+      filedAt: new Date(),
+      reason: reason.trim(),
+      status: "open",
+      evidence: getEvidenceUrls(req),
+    };
+    contract.status = "disputed";
+    // pending requests would otherwise outlive the dispute, and an old
+    // completion request would auto-complete a resumed contract
+    contract.set("completionRequest", undefined);
+    contract.set("cancellationRequest", undefined);
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToConversation(contract.conversationId.toString(), "dispute_filed", {
+      contractId,
+      dispute: contract.dispute,
+    });
+
+    return res.status(201).json({
+      message: "Dispute filed",
+      dispute: contract.dispute,
+    });
+  } catch (error) {
+    console.error("Error filing dispute:", error);
+    await cleanupUploadedFiles(req);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getDispute = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId projectDetails.title status dispute pastDisputes")
+      .lean();
+
+    if (!contract?.dispute?.filedAt) {
+      return res.status(404).json({ error: "Dispute not found" });
+    }
+
+    if (!getContractParty(contract, userId) && !(await isAdmin(userId))) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    return res.status(200).json({
+      contractId,
+      title: contract.projectDetails.title,
+      contractStatus: contract.status,
+      dispute: contract.dispute,
+      pastDisputes: contract.pastDisputes || [],
+    });
+  } catch (error) {
+    console.error("Error fetching dispute:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const postDisputeMessage = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { content } = req.body;
+
+    if (!userId) {
+      await cleanupUploadedFiles(req);
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (typeof content !== "string" || !content.trim()) {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "Message content is required" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId dispute")
+      .lean();
+
+    if (!contract?.dispute?.filedAt) {
+      await cleanupUploadedFiles(req);
+      return res.status(404).json({ error: "Dispute not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    const senderRole = party || ((await isAdmin(userId)) ? "admin" : null);
+    if (!senderRole) {
+      await cleanupUploadedFiles(req);
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (contract.dispute.status === "resolved") {
+      await cleanupUploadedFiles(req);
+      return res.status(400).json({ error: "This dispute is already resolved" });
+    }
+
+    const message = await DisputeMessage.create({
+      contractId,
+      ...(contract.dispute.disputeId && { disputeId: contract.dispute.disputeId }),
+      senderId: userId,
+      senderRole,
+      content: content.trim(),
+      attachments: getEvidenceUrls(req),
+    });
+
+    const recipients = new Set([
+      contract.clientId.toString(),
+      contract.freelancerId.toString(),
+      ...(contract.dispute.assignedAdmin
+        ? [contract.dispute.assignedAdmin.toString()]
+        : []),
+    ]);
+    recipients.delete(userId);
+    for (const recipientId of recipients) {
+      emitToUser(recipientId, "dispute_message", { contractId, message });
+    }
+
+    return res.status(201).json({ message });
+  } catch (error) {
+    console.error("Error posting dispute message:", error);
+    await cleanupUploadedFiles(req);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getDisputeMessages = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const { disputeId } = req.query as Record<string, string>;
+    if (disputeId && !mongoose.Types.ObjectId.isValid(disputeId)) {
+      return res.status(400).json({ error: "Invalid dispute ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId dispute pastDisputes")
+      .lean();
+
+    if (!contract?.dispute?.filedAt) {
+      return res.status(404).json({ error: "Dispute not found" });
+    }
+
+    if (!getContractParty(contract, userId) && !(await isAdmin(userId))) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    // the current dispute's thread unless an earlier dispute is asked for
+    const dispute = disputeId
+      ? [contract.dispute, ...(contract.pastDisputes || [])].find(
+          (d) => d.disputeId?.toString() === disputeId
+        )
+      : contract.dispute;
+
+    if (!dispute) {
+      return res.status(404).json({ error: "Dispute not found" });
+    }
+
+    // threads from before disputes had ids have none either
+    const filter = { contractId, disputeId: dispute.disputeId ?? null };
+
+    const messages = await DisputeMessage.find(filter)
+      .sort({ createdAt: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate("senderId", "firstName lastName")
+      .lean();
+
+    const total = await DisputeMessage.countDocuments(filter);
+
+    return res.status(200).json({
+      messages,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching dispute messages:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const proposeDisputeAgreement = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { outcome, resolution } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (!DISPUTE_OUTCOMES.includes(outcome)) {
+      return res
+        .status(400)
+        .json({ error: "Outcome must be completed, cancelled or resumed" });
+    }
+
+    if (typeof resolution !== "string" || !resolution.trim()) {
+      return res
+        .status(400)
+        .json({ error: "Describe the terms of the agreement" });
+    }
+
+    if (resolution.trim().length > MAX_RESOLUTION_LENGTH) {
+      return res.status(400).json({
+        error: `Resolution cannot exceed ${MAX_RESOLUTION_LENGTH} characters`,
+      });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (contract.status !== "disputed" || !contract.dispute) {
+      return res.status(400).json({ error: "This contract is not in dispute" });
+    }
+
+    contract.dispute.agreementProposal = {
+      proposedBy: party,
+      proposedAt: new Date(),
+      outcome,
+      resolution: resolution.trim(),
+    };
+
+    await contract.save();
+    await invalidateContractCaches(contract);
+
+    emitToUser(getCounterpartyId(contract, party), "dispute_agreement_proposed", {
+      contractId,
+      agreementProposal: contract.dispute.agreementProposal,
+    });
+
+    return res.status(200).json({
+      message: "Agreement proposed",
+      agreementProposal: contract.dispute.agreementProposal,
+    });
+  } catch (error) {
+    console.error("Error proposing dispute agreement:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const acceptDisputeAgreement = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const proposal = contract.dispute?.agreementProposal;
+    if (contract.status !== "disputed" || !proposal?.proposedAt) {
+      return res
+        .status(400)
+        .json({ error: "There is no pending agreement to accept" });
+    }
+
+    if (proposal.proposedBy === party) {
+      return res
+        .status(403)
+        .json({ error: "You cannot accept your own proposal" });
+    }
+
+    const resolved = await applyDisputeOutcome(
+      contract,
+      proposal.outcome,
+      proposal.resolution,
+      "mutual_agreement"
+    );
+
+    if (!resolved) {
+      return res.status(400).json({ error: "This contract is not in dispute" });
+    }
+
+    return res.status(200).json({
+      message: "Dispute resolved by mutual agreement",
+      contract: resolved,
+    });
+  } catch (error) {
+    console.error("Error accepting dispute agreement:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getDisputeQueue = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { status = "open" } = req.query as Record<string, string>;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    // comma separated, e.g. ?status=open,under_review
+    const statuses = status.split(",");
+
+    if (statuses.some((s) => !["open", "under_review", "resolved"].includes(s))) {
+      return res.status(400).json({ error: "Invalid dispute status" });
+    }
+
+    const filter = { "dispute.status": { $in: statuses } };
+
+    const disputes = await Contract.find(filter)
+      .select("projectDetails.title budget status clientId freelancerId dispute")
+      .sort({ "dispute.filedAt": 1 }) // oldest first so nothing waits forever
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate("clientId", "firstName lastName email")
+      .populate("freelancerId", "firstName lastName email")
+      .lean();
+
+    const total = await Contract.countDocuments(filter);
+
+    return res.status(200).json({
+      disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching dispute queue:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const takeDisputeForReview = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findOneAndUpdate(
+      { _id: contractId, status: "disputed", "dispute.status": "open" },
+      {
+        $set: {
+          "dispute.status": "under_review",
+          "dispute.assignedAdmin": new mongoose.Types.ObjectId(userId),
+        },
+      },
+      { new: true }
+    );
+
+    if (!contract) {
+      return res
+        .status(400)
+        .json({ error: "Dispute not found or already under review" });
+    }
+
+    await invalidateContractCaches(contract);
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      "dispute_under_review",
+      { contractId }
+    );
+
+    return res.status(200).json({
+      message: "Dispute is now under review",
+      dispute: contract.dispute,
+    });
+  } catch (error) {
+    console.error("Error taking dispute for review:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const resolveDispute = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { outcome, resolution } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    if (!DISPUTE_OUTCOMES.includes(outcome)) {
+      return res
+        .status(400)
+        .json({ error: "Outcome must be completed, cancelled or resumed" });
+    }
+
+    if (typeof resolution !== "string" || !resolution.trim()) {
+      return res.status(400).json({ error: "A resolution is required" });
+    }
+
+    if (resolution.trim().length > MAX_RESOLUTION_LENGTH) {
+      return res.status(400).json({
+        error: `Resolution cannot exceed ${MAX_RESOLUTION_LENGTH} characters`,
+      });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (contract.status !== "disputed" || !contract.dispute) {
+      return res.status(400).json({ error: "This contract is not in dispute" });
+    }
+
+    const resolved = await applyDisputeOutcome(
+      contract,
+      outcome,
+      resolution.trim(),
+      "admin"
+    );
+
+    if (!resolved) {
+      return res.status(400).json({ error: "This contract is not in dispute" });
+    }
+
+    return res.status(200).json({
+      message: "Dispute resolved",
+      contract: resolved,
+    });
+  } catch (error) {
+    console.error("Error resolving dispute:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -17,6 +17,22 @@ import {
 } from "../utils/freelancerCache.js";
 import type { CachedJob } from "../utils/jobCache.js";
 import type { IJob } from "../models/job.js";
+import { buildJobVisibilityFilter } from "../utils/jobVisibility.js";
+import { getMatchSignals } from "../utils/jobFeedback.js";
+import { matchAll, escapeRegex } from "../utils/jobSearch.js";
+import { rankJobs, MATCH_WEIGHTS, type MatchJob } from "../utils/jobMatching.js";
+import { normalizeSkills, getRelatedSkills } from "../utils/skillTaxonomy.js";
+import {
+  parseFreelancerSearchQuery,
+  buildFreelancerSearchConditions,
+  buildFreelancerRelevance,
+  buildFreelancerSearchFacets,
+  formatFreelancerSearchFacets,
+  getFreelancerSort,
+} from "../utils/freelancerSearch.js";
+
+// how many open jobs a freelancer's matches are ranked from
+const MAX_MATCH_CANDIDATES = 500;
 
 export const postFreelancerProfile = async (
   req: Request,
@@ -51,7 +67,7 @@ export const postFreelancerProfile = async (
       freelancerId: userId,
       bio,
       title,
-      skills,
+      skills: Array.isArray(skills) ? await normalizeSkills(skills) : skills,
       categories,
       experienceLevel,
       hourlyRate,
@@ -144,7 +160,7 @@ export const updateFreelancerProfile = async (
       Object.entries({
         title,
         bio,
-        skills,
+        skills: Array.isArray(skills) ? await normalizeSkills(skills) : skills,
         categories,
         experienceLevel,
         hourlyRate,
@@ -281,6 +297,11 @@ export const getFreelancerMatchJobs = async (
       return res.status(400).json({ error: "Invalid request" });
     }
 
+    // matches include the invite-only jobs this freelancer was invited to
+    if (freelancerId !== userId.toString()) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
     const user = await User.findById(userId);
 
     if (user?.role !== "freelancer") {
@@ -293,9 +314,11 @@ export const getFreelancerMatchJobs = async (
 
     // Try to get from cache first (only for first page with default limit)
     if (page === 1 && limit === 20) {
-      const cachedJobs = await getCachedMatchedJobs(freelancerId);
-      if (cachedJobs) {
-        return res.status(200).json({ jobs: cachedJobs, page, limit, total: cachedJobs.length });
+      const cached = await getCachedMatchedJobs(freelancerId);
+      if (cached) {
+        return res
+          .status(200)
+          .json({ jobs: cached.jobs, page, limit, total: cached.total });
       }
     }
 
@@ -318,51 +341,63 @@ export const getFreelancerMatchJobs = async (
     }
 
     const freelancerSkills = freelancerProfile.skills;
-
-    const matchJobs = await Job.aggregate([
+    const visibilityFilter = await buildJobVisibilityFilter(freelancerId);
+    // "not interested" jobs never come back, and their reasons push similar jobs down
+    const signals = await getMatchSignals(freelancerId, freelancerSkills);
+    // related skills widen the candidates only when they count towards the score
+    const relatedSkills = MATCH_WEIGHTS.related
+      ? await getRelatedSkills(freelancerSkills)
+      : [];
+
+    // only the newest candidates are scored, ranking happens in jobMatching
+    const candidates: Array<CachedJob & MatchJob> = await Job.aggregate([
       {
         $match: {
           status: "open",
           _id: {
-            $nin: appliedJobIds.map((id) => new mongoose.Types.ObjectId(id)),
+            $nin: [
+              ...appliedJobIds.map((id) => new mongoose.Types.ObjectId(id)),
+              ...signals.hiddenJobIds,
+            ],
           },
 
           $or: [
             {
               skills: {
-                $in: freelancerSkills.map((s) => new RegExp(`^${s}$`, "i")),
+                $in: [...freelancerSkills, ...relatedSkills].map(
+                  (s) => new RegExp(`^${escapeRegex(s)}$`, "i")
+                ),
               },
             },
             //match by text search
             { $text: { $search: freelancerSkills.join(" ") } },
           ],
+          $and: [visibilityFilter],
         },
       },
-      {
-        $addFields: {
-          //calc relevance score
-          score: {
-            $add: [
-              //skill match count
-              { $size: { $setIntersection: ["$skills", freelancerSkills] } },
-
-              //text search score
-              { $ifNull: [{ $meta: "textScore" }, 0] },
-            ],
-          },
-        },
-      },
-      { $sort: { score: -1 } },
-      { $skip: skip },
-      { $limit: limit },
+      { $addFields: { textScore: { $ifNull: [{ $meta: "textScore" }, 0] } } },
+      { $sort: { publishedAt: -1, createdAt: -1 } },
+      { $limit: MAX_MATCH_CANDIDATES },
     ]);
 
+    const rankedJobs = rankJobs(candidates, {
+      profile: { ...freelancerProfile, relatedSkills },
+      feedback: signals,
+      now: new Date(),
+    });
+    const matchJobs = rankedJobs.slice(skip, skip + limit);
+
     // Cache the first page results
     if (page === 1 && limit === 20) {
-      await setMatchedJobsCache(freelancerId, matchJobs as CachedJob[]);
+      await setMatchedJobsCache(freelancerId, {
+        jobs: matchJobs as CachedJob[],
+        total: rankedJobs.length,
+      });
     }
 
-    return res.status(200).json({ jobs: matchJobs, page, limit });
+    return res
+      .status(200)
+      .json({ jobs: matchJobs, page, limit, total: rankedJobs.length });
   } catch (err) {
     console.error("Error fetching job", err);
     return res.status(500).json({
@@ -407,3 +442,110 @@ export const getFreelancerAcceptedJobs = async (
     });
   }
 };
+
+export const searchFreelancers = async (
+  req: Request,
+  res: Response,
+): Promise<Response> => {
+  try {
+    const { page = "1", limit = "20" } = req.query as Record<string, string>;
+
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const parsed = parseFreelancerSearchQuery(req.query as Record<string, string>);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { filters } = parsed;
+    // search by the same spelling jobs and profiles are saved with
+    if (filters.skills) filters.skills = await normalizeSkills(filters.skills);
+
+    const conditions = buildFreelancerSearchConditions(filters);
+    const resultFilters = [
+      conditions.category,
+      conditions.experienceLevel,
+      conditions.availability,
+      conditions.rate,
+    ];
+
+    const [result] = await FreelancerProfile.aggregate([
+      {
+        $match: {
+          ...conditions.text,
+          ...(conditions.base.length && { $and: conditions.base }),
+        },
+      },
+      // scored before $facet, the text score isn't available inside it
+      { $addFields: { score: buildFreelancerRelevance(filters) } },
+      {
+        $facet: {
+          freelancers: [
+            matchAll(resultFilters),
+            { $sort: getFreelancerSort(filters) },
+            { $skip: skip },
+            { $limit: limitNum },
+            {
+              $lookup: {
+                from: "users",
+                localField: "freelancerId",
+                foreignField: "_id",
+                as: "user",
+              },
+            },
+            { $unwind: "$user" },
+            {
+              $project: {
+                freelancerId: 1,
+                firstName: "$user.firstName",
+                lastName: "$user.lastName",
+                title: 1,
+                bio: 1,
+                profilePicture: 1,
+                skills: 1,
+                categories: 1,
+                experienceLevel: 1,
+                hourlyRate: 1,
+                availability: 1,
+                "location.country": 1,
+                "location.city": 1,
+                "location.timezone": 1,
+                languages: 1,
+                "rating.average": 1,
+                "rating.count": 1,
+                completedJobs: 1,
+                successRate: 1,
+                isVerified: 1,
+                isAvailableForHire: 1,
+                lastActive: 1,
+                score: 1,
+              },
+            },
+          ],
+          total: [matchAll(resultFilters), { $count: "count" }],
+          ...buildFreelancerSearchFacets(conditions),
+        },
+      },
+    ]);
+
+    const total = result.total[0]?.count || 0;
+
+    return res.status(200).json({
+      freelancers: result.freelancers,
+      facets: formatFreelancerSearchFacets(result),
+      sortBy: filters.sortBy,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (err) {
+    console.error("Error searching freelancers:", err);
+    return res.status(500).json({
+      error: "Error searching freelancers",
+    });
+  }
+};
@@ -0,0 +1,282 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Job } from "../models/job.js";
+import User from "../models/users.js";
+import { Invitation } from "../models/invitation.js";
+import { getCachedUser } from "../utils/userCache.js";
+import { invalidateMatchedJobsCache } from "../utils/jobCache.js";
+import { sendJobInvitationEmail } from "../utils/emailServices.js";
+import { emitToUser } from "../utils/socket/emitters.js";
+
+const MAX_INVITES_PER_REQUEST = 20;
+
+export const inviteFreelancers = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+    const { freelancerIds, note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    if (
+      !Array.isArray(freelancerIds) ||
+      freelancerIds.length === 0 ||
+      freelancerIds.length > MAX_INVITES_PER_REQUEST
+    ) {
+      return res.status(400).json({
+        error: `Invite between 1 and ${MAX_INVITES_PER_REQUEST} freelancers at a time`,
+      });
+    }
+
+    if (freelancerIds.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: "Invalid freelancer ID" });
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({ error: "Note must be text" });
+    }
+
+    const job = await Job.findById(jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (job.clientId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (job.status !== "open") {
+      return res
+        .status(400)
+        .json({ error: "Only open jobs can have invitations" });
+    }
+
+    const freelancers = await User.find({
+      _id: { $in: [...new Set(freelancerIds as string[])] },
+      role: "freelancer",
+    }).select("_id firstName email");
+
+    if (freelancers.length === 0) {
+      return res.status(404).json({ error: "No freelancers found" });
+    }
+
+    const alreadyInvited = await Invitation.find({
+      jobId,
+      freelancerId: { $in: freelancers.map((f) => f._id) },
+    }).distinct("freelancerId");
+    const invitedIds = alreadyInvited.map((id) => id.toString());
+
+    const client = await getCachedUser(userId);
+    const clientName = client ? `${client.firstName} ${client.lastName}` : "A client";
+
+    const invitations = [];
+    for (const freelancer of freelancers) {
+      const freelancerId = freelancer._id.toString();
+      if (invitedIds.includes(freelancerId)) continue;
+
+      const invitation = new Invitation({
+        jobId,
+        clientId: userId,
+        freelancerId,
+        ...(note?.trim() && { note: note.trim() }),
+      });
+      await invitation.save();
+      invitations.push(invitation);
+
+      // invite-only jobs now show up in this freelancer's matches
+      await invalidateMatchedJobsCache(freelancerId);
+
+      emitToUser(freelancerId, "job_invitation", {
+        invitationId: invitation._id,
+        jobId,
+        jobTitle: job.title,
+        clientName,
+        note: invitation.note,
+      });
+
+      try {
+        await sendJobInvitationEmail(
+          freelancer.email,
+          freelancer.firstName,
+          clientName,
+          job.title,
+          invitation.note
+        );
+      } catch (emailError) {
+        console.error("Failed to send job invitation email:", emailError);
+      }
+    }
+
+    return res.status(201).json({
+      message: `${invitations.length} freelancer${invitations.length === 1 ? "" : "s"} invited`,
+      invitations,
+      skipped: invitedIds,
+    });
+  } catch (error) {
+    console.error("Error inviting freelancers:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getJobInvitations = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const job = await Job.findById(jobId).select("clientId").lean();
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (job.clientId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const invitations = await Invitation.find({ jobId })
+      .populate("freelancerId", "firstName lastName")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.status(200).json({ invitations });
+  } catch (error) {
+    console.error("Error fetching job invitations:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getMyInvitations = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { status } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (
+      status !== undefined &&
+      status !== "pending" &&
+      status !== "accepted" &&
+      status !== "declined"
+    ) {
+      return res.status(400).json({ error: "Invalid status" });
+    }
+
+    const invitations = await Invitation.find({
+      freelancerId: userId,
+      ...(status && { status }),
+    })
+      .populate("jobId", "title category skills budget duration status visibility")
+      .populate("clientId", "firstName lastName")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.status(200).json({ invitations });
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const respondToInvitation = async (
+  req: Request,
+  res: Response,
+  action: "accept" | "decline"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const invitationId = req.params.invitationId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!invitationId || !mongoose.Types.ObjectId.isValid(invitationId)) {
+      return res.status(400).json({ error: "Invalid invitation ID" });
+    }
+
+    if (action === "decline" && (typeof reason !== "string" || !reason.trim())) {
+      return res.status(400).json({ error: "A reason is required" });
+    }
+
+    const invitation = await Invitation.findById(invitationId);
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    if (invitation.freelancerId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (invitation.status !== "pending") {
+      return res
+        .status(400)
+        .json({ error: `Invitation is already ${invitation.status}` });
+    }
+
+    const job = await Job.findById(invitation.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (action === "accept" && job.status !== "open") {
+      return res
+        .status(400)
+        .json({ error: "This job is no longer accepting proposals" });
+    }
+
+    invitation.status = action === "accept" ? "accepted" : "declined";
+    invitation.respondedAt = new Date();
+    if (action === "decline") invitation.declineReason = reason.trim();
+    await invitation.save();
+
+    await invalidateMatchedJobsCache(userId);
+
+    emitToUser(invitation.clientId.toString(), `invitation_${invitation.status}`, {
+      invitationId,
+      jobId: job._id,
+      freelancerId: userId,
+      ...(invitation.declineReason && { reason: invitation.declineReason }),
+    });
+
+    // accepting hands the job back so the proposal form can open straight away
+    return res.status(200).json({
+      message: `Invitation ${invitation.status}`,
+      invitation,
+      ...(action === "accept" && { job }),
+    });
+  } catch (error) {
+    console.error(`Error trying to ${action} invitation:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const acceptInvitation = (req: Request, res: Response) =>
+  respondToInvitation(req, res, "accept");
+
+export const declineInvitation = (req: Request, res: Response) =>
+  respondToInvitation(req, res, "decline");
@@ -0,0 +1,146 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Contract } from "../models/contract.js";
+import { Invoice } from "../models/invoice.js";
+import { getContractParty } from "../utils/contractAccess.js";
+import { renderInvoicePdf } from "../utils/invoices.js";
+
+export const getContractInvoices = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId")
+      .lean();
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const invoices = await Invoice.find({ contractId })
+      .sort({ issuedAt: -1 })
+      .lean();
+
+    return res.status(200).json({ invoices });
+  } catch (error) {
+    console.error("Error fetching contract invoices:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getMyInvoices = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { role } = req.query;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (role !== undefined && role !== "client" && role !== "freelancer") {
+      return res
+        .status(400)
+        .json({ error: "Role must be client or freelancer" });
+    }
+
+    // invoices the user paid, received, or both
+    const filter =
+      role === "client"
+        ? { clientId: userId }
+        : role === "freelancer"
+          ? { freelancerId: userId }
+          : { $or: [{ clientId: userId }, { freelancerId: userId }] };
+
+    const invoices = await Invoice.find(filter)
+      .sort({ issuedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean();
+
+    const total = await Invoice.countDocuments(filter);
+
+    return res.status(200).json({
+      invoices,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching invoices:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const sendInvoice = async (
+  req: Request,
+  res: Response,
+  format: "json" | "pdf"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const invoiceId = req.params.invoiceId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!invoiceId || !mongoose.Types.ObjectId.isValid(invoiceId)) {
+      return res.status(400).json({ error: "Invalid invoice ID" });
+    }
+
+    const invoice = await Invoice.findById(invoiceId);
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    if (!getContractParty(invoice, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (format === "json") {
+      return res.status(200).json({ invoice });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${invoice.invoiceNumber}.pdf"`
+    );
+    return res.status(200).send(pdf);
+  } catch (error) {
+    console.error("Error fetching invoice:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getInvoice = (req: Request, res: Response) =>
+  sendInvoice(req, res, "json");
+
+export const downloadInvoicePdf = (req: Request, res: Response) =>
+  sendInvoice(req, res, "pdf");
@@ -9,7 +9,31 @@ import {
   getCachedJobsByClient,
   invalidateJobCache,
   invalidateClientJobsCache,
+  invalidateAllMatchedJobsCaches,
+  getCachedRecommendedFreelancers,
+  setRecommendedFreelancersCache,
 } from "../utils/jobCache.js";
+import {
+  rankFreelancersForJob,
+  MAX_RECOMMENDED_FREELANCERS,
+} from "../utils/freelancerMatching.js";
+import { getPublishFields } from "../utils/jobLifecycle.js";
+import {
+  buildJobVisibilityFilter,
+  isPublicJob,
+  isInvitedToJob,
+} from "../utils/jobVisibility.js";
+import { parseScreeningQuestions } from "../utils/screeningQuestions.js";
+import {
+  parseJobSearchQuery,
+  buildJobSearchConditions,
+  buildJobSearchFacets,
+  formatJobSearchFacets,
+  matchAll,
+  escapeRegex,
+} from "../utils/jobSearch.js";
+import { getHiddenJobIds } from "../utils/jobFeedback.js";
+import { normalizeSkills } from "../utils/skillTaxonomy.js";
 
 // Interfaces for populated documents
 interface PopulatedUser {
@@ -43,8 +67,31 @@ export const postNewJob = async (
       budget,
       experienceLevel,
       duration,
+      visibility,
+      screeningQuestions,
+      status = "open",
+      publishAt,
     } = req.body;
 
+    if (status !== "open" && status !== "draft") {
+      return res.status(400).json({ error: "Status must be open or draft" });
+    }
+
+    const screening =
+      screeningQuestions !== undefined
+        ? parseScreeningQuestions(screeningQuestions)
+        : null;
+    if (screening && "error" in screening) {
+      return res.status(400).json({ error: screening.error });
+    }
+
+    const scheduledAt = publishAt ? new Date(publishAt) : null;
+    if (scheduledAt && (isNaN(scheduledAt.getTime()) || scheduledAt <= new Date())) {
+      return res
+        .status(400)
+        .json({ error: "publishAt must be a date in the future" });
+    }
+
     const user = await User.findById(userId);
 
     if (!user) {
@@ -54,23 +101,46 @@ export const postNewJob = async (
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    await Job.create({
+    const job = new Job({
       clientId: userId,
       title,
       description,
       category,
-      skills,
+      skills: Array.isArray(skills) ? await normalizeSkills(skills) : skills,
       budget,
       experienceLevel,
       duration,
-      status: "open",
+      ...(visibility && { visibility }),
+      ...(screening && { screeningQuestions: screening.questions }),
+      status: "draft",
     });
 
+    // a scheduled job has to be publishable already, plain drafts skip the checks until publish
+    if (status === "open" || scheduledAt) {
+      job.set(getPublishFields());
+      await job.validate();
+    }
+
+    if (scheduledAt) {
+      job.set({ status: "draft", publishAt: scheduledAt });
+      job.set("publishedAt", undefined);
+      job.set("expiresAt", undefined);
+    }
+
+    await job.save();
+
     // Invalidate client's job list cache
     await invalidateClientJobsCache(userId);
     // Note: Matched jobs cache will refresh via TTL when freelancers query
 
-    return res.status(201).json({ message: "New job created" });
+    return res.status(201).json({
+      message: scheduledAt
+        ? "Job scheduled"
+        : status === "draft"
+          ? "Draft saved"
+          : "New job created",
+      job,
+    });
   } catch (err) {
     console.error("Error creating job:", err);
     return res.status(500).json({
@@ -120,6 +190,20 @@ export const getJob = async (
       return res.status(404).json({ error: "Job not found" });
     }
 
+    const userId = req.user?.userId;
+    if (userId && job.clientId.toString() === userId.toString()) {
+      return res.status(200).json({ job });
+    }
+
+    // drafts are only shown to their owner, and non-public jobs to their
+    // invitees, who need the full description to write a proposal
+    if (
+      job.status === "draft" ||
+      (!isPublicJob(job) && !(userId && (await isInvitedToJob(userId, jobId))))
+    ) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
     return res.status(200).json({ job });
   } catch (err) {
     console.error("Error fetching job:", err);
@@ -150,12 +234,22 @@ export const updateJob = async (
       budget,
       experienceLevel,
       duration,
+      visibility,
+      screeningQuestions,
     } = req.body;
 
     if (!jobId) {
       return res.status(400).json({ error: "Invalid request" });
     }
 
+    const screening =
+      screeningQuestions !== undefined
+        ? parseScreeningQuestions(screeningQuestions)
+        : null;
+    if (screening && "error" in screening) {
+      return res.status(400).json({ error: screening.error });
+    }
+
     const job = await Job.findById(jobId);
     if (!job) {
       return res.status(404).json({ error: "Job not found" });
@@ -165,15 +259,24 @@ export const updateJob = async (
       return res.status(403).json({ error: "Unauthorized" });
     }
 
+    // answers are stored against question ids, so the questions are frozen once anyone has answered
+    if (screening && job.proposals.length > 0) {
+      return res.status(409).json({
+        error: "Screening questions cannot change after proposals have arrived",
+      });
+    }
+
     const updates = Object.fromEntries(
       Object.entries({
         title,
         description,
         category,
-        skills,
+        skills: Array.isArray(skills) ? await normalizeSkills(skills) : skills,
         budget,
         experienceLevel,
         duration,
+        visibility,
+        screeningQuestions: screening?.questions,
       }).filter(([_, value]) => value !== undefined) //using array distructuring extracting just the value ignoring key with "_"
     );
 
@@ -182,15 +285,15 @@ export const updateJob = async (
       return res.status(400).json({ error: "No fields to update" });
     }
 
-    const updatedJob = await Job.findByIdAndUpdate(jobId, updates, {
-      new: true,
-      runValidators: true,
-    });
+    // saved through the document so draft-aware validators know the job's status
+    job.set(updates);
+    const updatedJob = await job.save();
 
     // Invalidate both caches
     await invalidateJobCache(jobId);
     await invalidateClientJobsCache(userId);
-    // Note: Matched jobs cache will refresh via TTL when freelancers query
+    // Visibility decides who gets the job in their matches, other edits refresh via TTL
+    if (visibility !== undefined) await invalidateAllMatchedJobsCaches();
 
     return res
       .status(200)
@@ -204,6 +307,180 @@ export const updateJob = async (
   }
 };
 
+export const publishJob = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+    const { publishAt } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const scheduledAt = publishAt ? new Date(publishAt) : null;
+    if (scheduledAt && (isNaN(scheduledAt.getTime()) || scheduledAt <= new Date())) {
+      return res
+        .status(400)
+        .json({ error: "publishAt must be a date in the future" });
+    }
+
+    const job = await Job.findById(jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (job.clientId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (job.status !== "draft") {
+      return res.status(400).json({ error: `Job is already ${job.status}` });
+    }
+
+    job.set(getPublishFields());
+    job.set("publishAt", undefined);
+    await job.validate();
+
+    if (scheduledAt) {
+      job.set({ status: "draft", publishAt: scheduledAt });
+      job.set("publishedAt", undefined);
+      job.set("expiresAt", undefined);
+    }
+
+    await job.save();
+
+    await invalidateJobCache(jobId);
+    await invalidateClientJobsCache(userId);
+    if (!scheduledAt) await invalidateAllMatchedJobsCaches();
+
+    return res.status(200).json({
+      message: scheduledAt ? "Job scheduled" : "Job published",
+      job,
+    });
+  } catch (err) {
+    if (err instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("Error publishing job:", err);
+    return res.status(500).json({
+      error: "Error publishing Job",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
+
+export const repostJob = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const job = await Job.findById(jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (job.clientId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (job.status !== "closed") {
+      return res
+        .status(400)
+        .json({ error: "Only closed jobs can be reposted" });
+    }
+
+    job.set(getPublishFields());
+    job.set("closedAt", undefined);
+    job.repostCount += 1;
+    await job.save();
+
+    await invalidateJobCache(jobId);
+    await invalidateClientJobsCache(userId);
+    await invalidateAllMatchedJobsCaches();
+
+    return res.status(200).json({ message: "Job reposted", job });
+  } catch (err) {
+    if (err instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("Error reposting job:", err);
+    return res.status(500).json({
+      error: "Error reposting Job",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
+
+export const getRecommendedFreelancers = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const limit = Math.min(
+      MAX_RECOMMENDED_FREELANCERS,
+      Math.max(1, parseInt(req.query.limit as string) || 20)
+    );
+
+    const job = await getCachedJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (job.clientId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (job.status !== "open" && job.status !== "draft") {
+      return res
+        .status(400)
+        .json({ error: "Recommendations are only available for open or draft jobs" });
+    }
+
+    let freelancers = await getCachedRecommendedFreelancers(jobId);
+    if (!freelancers) {
+      freelancers = await rankFreelancersForJob(job);
+      await setRecommendedFreelancersCache(jobId, freelancers);
+    }
+
+    return res.status(200).json({ freelancers: freelancers.slice(0, limit) });
+  } catch (err) {
+    console.error("Error recommending freelancers:", err);
+    return res.status(500).json({
+      error: "Error recommending freelancers",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
+
 export const deleteJob = async (
   req: Request,
   res: Response
@@ -375,96 +652,113 @@ export const searchJobs = async (
   res: Response
 ): Promise<Response> => {
   try {
-    const {
-      keyword,
-      category,
-      experienceLevel,
-      page = "1",
-      limit = "10",
-    } = req.query as Record<string, string>;
+    const { page = "1", limit = "10" } = req.query as Record<string, string>;
 
     const pageNum = Math.max(1, parseInt(page));
     const limitNum = Math.min(50, Math.max(1, parseInt(limit)));
     const skip = (pageNum - 1) * limitNum;
-    const trimmedKeyword = keyword?.trim();
-
-    const filter: Record<string, unknown> = { status: "open" };
-    if (category) filter.category = category;
-    if (experienceLevel) filter.experienceLevel = experienceLevel;
-
-    const searchCondition = trimmedKeyword
-      ? {
-          $or: [
-            { title: { $regex: trimmedKeyword, $options: "i" } },
-            { description: { $regex: trimmedKeyword, $options: "i" } },
-            { skills: { $elemMatch: { $regex: trimmedKeyword, $options: "i" } } },
-          ],
-        }
-      : {};
 
-    const jobs = await Job.aggregate([
-      { $match: { ...filter, ...searchCondition } },
+    const parsed = parseJobSearchQuery(req.query as Record<string, string>);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { filters } = parsed;
+    // search by the same spelling jobs and profiles are saved with
+    if (filters.skills) filters.skills = await normalizeSkills(filters.skills);
+
+    const conditions = await buildJobSearchConditions(filters);
+
+    // invite-only jobs are listed to their invitees only
+    const userId = req.user?.userId;
+    const visibilityFilter = await buildJobVisibilityFilter(userId);
+    // jobs a signed-in freelancer marked "not interested" stay out of search too
+    const hiddenJobIds = userId ? await getHiddenJobIds(userId) : [];
+
+    const keywordPattern = filters.keyword ? escapeRegex(filters.keyword) : null;
+
+    const [result] = await Job.aggregate([
       {
-        $addFields: {
-          score: trimmedKeyword
-            ? {
-                $add: [
-                  {
-                    $cond: [
-                      { $regexMatch: { input: "$title", regex: trimmedKeyword, options: "i" } },
-                      2,
-                      0,
-                    ],
-                  },
-                  {
-                    $cond: [
-                      {
-                        $gt: [
-                          {
-                            $size: {
-                              $filter: {
-                                input: "$skills",
-                                as: "s",
-                                cond: { $regexMatch: { input: "$$s", regex: trimmedKeyword, options: "i" } },
-                              },
-                            },
-                          },
-                          0,
-                        ],
-                      },
-                      1,
-                      0,
-                    ],
-                  },
-                ],
-              }
-            : 0,
+        $match: {
+          status: "open",
+          ...(hiddenJobIds.length > 0 && { _id: { $nin: hiddenJobIds } }),
+          $and: [visibilityFilter, ...conditions.base],
         },
       },
-      { $sort: { score: -1, createdAt: -1 } },
-      { $skip: skip },
-      { $limit: limitNum },
       {
-        $project: {
-          title: 1,
-          description: 1,
-          category: 1,
-          skills: 1,
-          budget: 1,
-          experienceLevel: 1,
-          duration: 1,
-          status: 1,
-          clientId: 1,
-          createdAt: 1,
-          score: 1,
+        $facet: {
+          jobs: [
+            matchAll([conditions.category, conditions.experienceLevel, conditions.budget]),
+            {
+              $addFields: {
+                score: keywordPattern
+                  ? {
+                      $add: [
+                        {
+                          $cond: [
+                            { $regexMatch: { input: "$title", regex: keywordPattern, options: "i" } },
+                            2,
+                            0,
+                          ],
+                        },
+                        {
+                          $cond: [
+                            {
+                              $gt: [
+                                {
+                                  $size: {
+                                    $filter: {
+                                      input: "$skills",
+                                      as: "s",
+                                      cond: { $regexMatch: { input: "$$s", regex: keywordPattern, options: "i" } },
+                                    },
+                                  },
+                                },
+                                0,
+                              ],
+                            },
+                            1,
+                            0,
+                          ],
+                        },
+                      ],
+                    }
+                  : 0,
+              },
+            },
+            { $sort: { score: -1, createdAt: -1 } },
+            { $skip: skip },
+            { $limit: limitNum },
+            {
+              $project: {
+                title: 1,
+                description: 1,
+                category: 1,
+                skills: 1,
+                budget: 1,
+                experienceLevel: 1,
+                duration: 1,
+                status: 1,
+                clientId: 1,
+                createdAt: 1,
+                publishedAt: 1,
+                score: 1,
+              },
+            },
+          ],
+          total: [
+            matchAll([conditions.category, conditions.experienceLevel, conditions.budget]),
+            { $count: "count" },
+          ],
+          ...buildJobSearchFacets(conditions),
         },
       },
     ]);
 
-    const total = await Job.countDocuments({ ...filter, ...searchCondition });
+    const total = result.total[0]?.count || 0;
 
     return res.status(200).json({
-      jobs,
+      jobs: result.jobs,
+      facets: formatJobSearchFacets(result),
       pagination: {
         total,
         page: pageNum,
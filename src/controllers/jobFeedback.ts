@@ -0,0 +1,274 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Job } from "../models/job.js";
+import { Bookmark } from "../models/bookmark.js";
+import { HiddenJob, NOT_INTERESTED_REASONS, type IHiddenJob } from "../models/hiddenJob.js";
+import { buildJobVisibilityFilter } from "../utils/jobVisibility.js";
+import { getBudgetValue } from "../utils/jobFeedback.js";
+import { invalidateMatchedJobsCache } from "../utils/jobCache.js";
+import { isMongoError } from "../utils/errorHandler.js";
+
+const JOB_SUMMARY_FIELDS = "title category skills budget experienceLevel duration status visibility";
+
+const isNote = (note: unknown): boolean =>
+  note === undefined || typeof note === "string";
+
+export const getBookmarks = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const bookmarks = await Bookmark.find({ freelancerId: userId })
+      .populate("jobId", JOB_SUMMARY_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean();
+
+    // deleted jobs drop out of the list
+    return res
+      .status(200)
+      .json({ bookmarks: bookmarks.filter((bookmark) => bookmark.jobId) });
+  } catch (error) {
+    console.error("Error fetching bookmarks:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const bookmarkJob = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+    const { note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    if (!isNote(note)) {
+      return res.status(400).json({ error: "Note must be text" });
+    }
+
+    const visibilityFilter = await buildJobVisibilityFilter(userId);
+    const job = await Job.exists({
+      _id: jobId,
+      status: "open",
+      $and: [visibilityFilter],
+    });
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    if (await HiddenJob.exists({ freelancerId: userId, jobId })) {
+      return res
+        .status(409)
+        .json({ error: "You marked this job as not interested" });
+    }
+
+    const bookmark = new Bookmark({
+      freelancerId: userId,
+      jobId,
+      ...(note?.trim() && { note: note.trim() }),
+    });
+    await bookmark.save();
+
+    return res.status(201).json({ bookmark });
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      return res.status(409).json({ error: "Job is already bookmarked" });
+    }
+    console.error("Error bookmarking job:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateBookmark = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+    const { note } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    if (typeof note !== "string") {
+      return res.status(400).json({ error: "Note must be text" });
+    }
+
+    // an empty note clears it
+    const bookmark = await Bookmark.findOneAndUpdate(
+      { freelancerId: userId, jobId },
+      note.trim() ? { $set: { note: note.trim() } } : { $unset: { note: 1 } },
+      { new: true, runValidators: true }
+    );
+
+    if (!bookmark) {
+      return res.status(404).json({ error: "Bookmark not found" });
+    }
+
+    return res.status(200).json({ bookmark });
+  } catch (error) {
+    console.error("Error updating bookmark:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const removeBookmark = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const result = await Bookmark.deleteOne({ freelancerId: userId, jobId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Bookmark not found" });
+    }
+
+    return res.status(200).json({ message: "Bookmark removed" });
+  } catch (error) {
+    console.error("Error removing bookmark:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getHiddenJobs = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const hiddenJobs = await HiddenJob.find({ freelancerId: userId })
+      .populate("jobId", JOB_SUMMARY_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.status(200).json({ hiddenJobs });
+  } catch (error) {
+    console.error("Error fetching hidden jobs:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const markNotInterested = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+    const { reason, comment } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    if (!NOT_INTERESTED_REASONS.includes(reason)) {
+      return res.status(400).json({
+        error: `Reason must be one of ${NOT_INTERESTED_REASONS.join(", ")}`,
+      });
+    }
+
+    if (!isNote(comment)) {
+      return res.status(400).json({ error: "Comment must be text" });
+    }
+
+    const job = await Job.findById(jobId).select("budget skills").lean();
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    const budgetValue = getBudgetValue(job.budget);
+
+    // marking it again just updates the reason
+    const hiddenJob = await HiddenJob.findOneAndUpdate(
+      { freelancerId: userId, jobId },
+      {
+        $set: {
+          reason: reason as IHiddenJob["reason"],
+          budgetType: job.budget.type,
+          skills: job.skills,
+          ...(budgetValue !== undefined && { budgetValue }),
+          ...(comment?.trim() && { comment: comment.trim() }),
+        },
+        ...(!comment?.trim() && { $unset: { comment: 1 } }),
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    await Bookmark.deleteOne({ freelancerId: userId, jobId });
+    await invalidateMatchedJobsCache(userId);
+
+    return res.status(200).json({ message: "Job hidden", hiddenJob });
+  } catch (error) {
+    console.error("Error hiding job:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const unhideJob = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const jobId = req.params.jobId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    const result = await HiddenJob.deleteOne({ freelancerId: userId, jobId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Job is not hidden" });
+    }
+
+    await invalidateMatchedJobsCache(userId);
+
+    return res.status(200).json({ message: "Job unhidden" });
+  } catch (error) {
+    console.error("Error unhiding job:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,453 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { randomUUID } from "crypto";
+import { Contract } from "../models/contract.js";
+import { ClientProfile } from "../models/client.js";
+import { LedgerAccount, LedgerTransaction } from "../models/ledger.js";
+import { getCachedUser } from "../utils/userCache.js";
+import { invalidateClientCache } from "../utils/clientCache.js";
+import {
+  getContractParty,
+  OPEN_CONTRACT_STATUSES,
+} from "../utils/contractAccess.js";
+import { getPaymentProvider } from "../utils/payments/provider.js";
+import {
+  PaymentError,
+  getAccountBalance,
+  toMinorUnits,
+  fromMinorUnits,
+  type Currency,
+} from "../utils/payments/ledger.js";
+import {
+  fundEscrow,
+  releaseEscrow,
+  refundEscrow,
+  withdrawFromWallet,
+  getEscrowSummary,
+  getCompletionSettlement,
+  PLATFORM_FEE_PERCENT,
+} from "../utils/payments/escrow.js";
+import { emitToConversation } from "../utils/socket/emitters.js";
+
+const CURRENCIES: Currency[] = ["USD", "NGN", "EUR", "GBP"];
+
+// a client's Idempotency-Key is scoped to them and the contract, so it can
+// never replay another user's transaction or one the server keys itself
+const getClientIdempotencyKey = (
+  req: Request,
+  contractId: string,
+  userId: string
+): string => {
+  const key = req.get("Idempotency-Key");
+  return key ? `client:${contractId}:${userId}:${key}` : randomUUID();
+};
+
+// parse a major-unit amount from the body into minor units, null if invalid
+const parseAmount = (value: unknown): number | null => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  const minor = toMinorUnits(amount);
+  return minor > 0 ? minor : null;
+};
+
+const formatSummary = (summary: Awaited<ReturnType<typeof getEscrowSummary>>) => ({
+  balance: fromMinorUnits(summary.balance),
+  funded: fromMinorUnits(summary.funded),
+  released: fromMinorUnits(summary.released),
+  refunded: fromMinorUnits(summary.refunded),
+});
+
+export const verifyPaymentMethod = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { paymentMethodToken } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (typeof paymentMethodToken !== "string" || !paymentMethodToken) {
+      return res.status(400).json({ error: "paymentMethodToken is required" });
+    }
+
+    const user = await getCachedUser(userId);
+    if (user?.role !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only clients can add a payment method" });
+    }
+
+    const result = await getPaymentProvider().verifyPaymentMethod(
+      userId,
+      paymentMethodToken
+    );
+
+    if (result.status !== "succeeded") {
+      return res
+        .status(402)
+        .json({ error: result.failureReason || "Payment method was declined" });
+    }
+
+    await ClientProfile.updateOne(
+      { clientId: userId },
+      { $set: { paymentVerified: true } }
+    );
+    await invalidateClientCache(userId);
+
+    return res.status(200).json({
+      message: "Payment method verified",
+      paymentVerified: true,
+    });
+  } catch (error) {
+    console.error("Error verifying payment method:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getWallet = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const accounts = await LedgerAccount.find({ type: "wallet", ownerId: userId })
+      .select("_id currency")
+      .lean();
+
+    const balances = [];
+    for (const account of accounts) {
+      balances.push({
+        currency: account.currency,
+        balance: fromMinorUnits(await getAccountBalance(account._id)),
+      });
+    }
+
+    const transactions = await LedgerTransaction.find({
+      $or: [{ freelancerId: userId }, { clientId: userId }],
+    })
+      .select("-entries")
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .lean();
+
+    return res.status(200).json({ balances, transactions });
+  } catch (error) {
+    console.error("Error fetching wallet:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const withdraw = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { currency } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const amount = parseAmount(req.body.amount);
+    if (!amount) {
+      return res.status(400).json({ error: "Amount must be greater than 0" });
+    }
+
+    if (!CURRENCIES.includes(currency)) {
+      return res.status(400).json({ error: "Invalid currency" });
+    }
+
+    const transaction = await withdrawFromWallet(userId, amount, currency);
+
+    return res.status(200).json({
+      message: "Withdrawal sent",
+      amount: fromMinorUnits(amount),
+      currency,
+      providerReference: transaction.providerReference,
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error withdrawing from wallet:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getContractEscrow = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId budget")
+      .lean();
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const summary = await getEscrowSummary(contract);
+    const transactions = await LedgerTransaction.find({ contractId })
+      .select("-entries")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.status(200).json({
+      currency: contract.budget.currency,
+      platformFeePercent: PLATFORM_FEE_PERCENT,
+      escrow: formatSummary(summary),
+      transactions,
+    });
+  } catch (error) {
+    console.error("Error fetching contract escrow:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const fundContractEscrow = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const amount = parseAmount(req.body.amount);
+    if (!amount) {
+      return res.status(400).json({ error: "Amount must be greater than 0" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res.status(403).json({ error: "Only the client can fund escrow" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot fund a ${contract.status} contract` });
+    }
+
+    // fixed-price escrow never holds more than is left of the budget
+    if (contract.budget.type === "fixed") {
+      const summary = await getEscrowSummary(contract);
+      const remaining =
+        toMinorUnits(contract.budget.amount) - summary.balance - summary.released;
+
+      if (amount > remaining) {
+        return res.status(400).json({
+          error: `Escrow can be funded with at most ${fromMinorUnits(Math.max(remaining, 0))} ${contract.budget.currency} more`,
+        });
+      }
+    }
+
+    const transaction = await fundEscrow(
+      contract,
+      amount,
+      getClientIdempotencyKey(req, contractId, userId),
+      { description: "Escrow funded by client" }
+    );
+
+    const summary = await getEscrowSummary(contract);
+
+    emitToConversation(contract.conversationId.toString(), "escrow_funded", {
+      contractId,
+      amount: fromMinorUnits(amount),
+      escrow: formatSummary(summary),
+    });
+
+    return res.status(200).json({
+      message: "Escrow funded",
+      transaction,
+      escrow: formatSummary(summary),
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error funding escrow:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const releaseContractEscrow = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const amount = parseAmount(req.body.amount);
+    if (!amount) {
+      return res.status(400).json({ error: "Amount must be greater than 0" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res.status(403).json({ error: "Only the client can release escrow" });
+    }
+
+    if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: `Cannot release escrow on a ${contract.status} contract` });
+    }
+
+    // milestones and timesheets release their own amounts
+    if (contract.budget.type !== "fixed" || contract.milestones.length > 0) {
+      return res.status(400).json({
+        error: "Escrow on this contract is released through its milestones or timesheets",
+      });
+    }
+
+    const transaction = await releaseEscrow(
+      contract,
+      amount,
+      getClientIdempotencyKey(req, contractId, userId),
+      { description: "Partial payment released by client" }
+    );
+
+    const summary = await getEscrowSummary(contract);
+
+    emitToConversation(contract.conversationId.toString(), "escrow_released", {
+      contractId,
+      amount: fromMinorUnits(amount),
+      escrow: formatSummary(summary),
+    });
+
+    return res.status(200).json({
+      message: "Payment released",
+      transaction,
+      escrow: formatSummary(summary),
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error releasing escrow:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const refundContractEscrow = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (getContractParty(contract, userId) !== "client") {
+      return res.status(403).json({ error: "Only the client can request a refund" });
+    }
+
+    // while work is open the escrow still backs it
+    if (contract.status !== "cancelled" && contract.status !== "completed") {
+      return res.status(400).json({
+        error: "Escrow can only be refunded once the contract is closed",
+      });
+    }
+
+    const summary = await getEscrowSummary(contract);
+    if (summary.balance <= 0) {
+      return res.status(400).json({ error: "There is nothing left in escrow" });
+    }
+
+    // what is left on a completed fixed-price contract is owed to the
+    // freelancer, so retry the release that failed on completion instead
+    if (
+      contract.status === "completed" &&
+      getCompletionSettlement(contract) === "release"
+    ) {
+      const transaction = await releaseEscrow(
+        contract,
+        summary.balance,
+        `settle-release:${contractId}`,
+        { description: "Remaining escrow released on completion" }
+      );
+
+      return res.status(200).json({
+        message: "Remaining escrow released to the freelancer",
+        amount: fromMinorUnits(summary.balance),
+        transaction,
+        escrow: formatSummary(await getEscrowSummary(contract)),
+      });
+    }
+
+    await refundEscrow(contract, summary.balance);
+
+    return res.status(200).json({
+      message: "Escrow refunded",
+      amount: fromMinorUnits(summary.balance),
+      escrow: formatSummary(await getEscrowSummary(contract)),
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error refunding escrow:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
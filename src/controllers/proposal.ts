@@ -4,8 +4,29 @@ import { Job } from "../models/job.js";
 import { Proposal } from "../models/proposal.js";
 import User from "../models/users.js";
 import { sendProposalNotificationEmail } from "../utils/emailServices.js";
-import { invalidateMatchedJobsCache } from "../utils/jobCache.js";
+import {
+  invalidateMatchedJobsCache,
+  invalidateRecommendedFreelancersCache,
+} from "../utils/jobCache.js";
 import { isMongoError } from "../utils/errorHandler.js";
+import { Invitation } from "../models/invitation.js";
+import { isPublicJob } from "../utils/jobVisibility.js";
+import {
+  parseScreeningAnswers,
+  alignScreeningAnswers,
+} from "../utils/screeningQuestions.js";
+import {
+  snapshotProposal,
+  buildProposalVersions,
+  markProposalsViewed,
+} from "../utils/proposalRevisions.js";
+import { Conversation } from "../models/chat.js";
+import { Contract } from "../models/contract.js";
+import {
+  invalidateConversationCache,
+  invalidateUserConversationsCache,
+} from "../utils/conversationCache.js";
+import { emitToConversation, emitToUser } from "../utils/socket/emitters.js";
 
 export const postProposal = async (
   req: Request,
@@ -22,6 +43,7 @@ export const postProposal = async (
       availability,
       portfolioLinks,
       questions,
+      answers,
     } = req.body;
 
     if (!jobId || !freelancerId) {
@@ -41,6 +63,16 @@ export const postProposal = async (
         .json({ error: "This job is no longer accepting proposals" });
     }
 
+    // invite-only and private jobs take proposals from accepted invitations only
+    const invitation = await Invitation.findOne({ jobId, freelancerId });
+    if (!isPublicJob(job) && invitation?.status !== "accepted") {
+      return res.status(403).json({
+        error: invitation?.status === "pending"
+          ? "Accept your invitation before sending a proposal"
+          : "This job is only open to invited freelancers",
+      });
+    }
+
     const existingProposal = await Proposal.findOne({ jobId, freelancerId });
     if (existingProposal) {
       return res
@@ -48,6 +80,11 @@ export const postProposal = async (
         .json({ error: "You already submitted a proposal for this job" });
     }
 
+    const screening = parseScreeningAnswers(answers, job.screeningQuestions);
+    if ("error" in screening) {
+      return res.status(400).json({ error: screening.error });
+    }
+
     const attachments = req.files
       ? (req.files as Express.Multer.File[]).map(
           (file) => `/uploads/proposal-attachments/${file.filename}`
@@ -63,6 +100,7 @@ export const postProposal = async (
       availability,
       portfolioLinks,
       questions,
+      answers: screening.answers,
       attachments,
       status: "pending",
     });
@@ -73,8 +111,15 @@ export const postProposal = async (
       { new: true }
     );
 
+    if (invitation) {
+      invitation.proposalId = proposal._id as mongoose.Types.ObjectId;
+      await invitation.save();
+    }
+
     // Invalidate matched jobs cache for this freelancer
     await invalidateMatchedJobsCache(freelancerId);
+    // applicants drop out of the job's recommended freelancers
+    await invalidateRecommendedFreelancersCache(jobId);
 
     const client = await User.findOne({ _id: job.clientId });
     const freelancer = await User.findOne({ _id: freelancerId });
@@ -158,7 +203,21 @@ export const getProposal = async (
       return res.status(404).json({ error: "Proposal could not be found" });
     }
 
-    return res.status(200).json({ proposal });
+    const job = await Job.findById(proposal.jobId).select("clientId screeningQuestions");
+
+    // the client opening it closes the freelancer's editing window
+    if (job && req.user?.userId === job.clientId.toString()) {
+      await markProposalsViewed([proposal]);
+    }
+
+    const questions = job?.screeningQuestions || [];
+    const values = alignScreeningAnswers(questions, proposal.answers);
+    const screening = questions.map((question, i) => ({
+      question,
+      answer: values[i],
+    }));
+
+    return res.status(200).json({ proposal, screening });
   } catch (err) {
     console.log(err);
     return res.status(500).json({ error: "Request failed" });
@@ -179,10 +238,27 @@ export const updateProposal = async (
 
     const proposal = await Proposal.findById(proposalId);
 
-    if (freelancerId.toString() !== proposal?.freelancerId.toString()) {
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal could not be found" });
+    }
+
+    if (freelancerId.toString() !== proposal.freelancerId.toString()) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
+    if (proposal.status !== "pending") {
+      return res
+        .status(409)
+        .json({ error: "Only pending proposals can be edited" });
+    }
+
+    // what the client has read is what they get, so a seen bid can't change under them
+    if (proposal.viewedByClientAt) {
+      return res.status(409).json({
+        error: "The client has already seen this proposal, withdraw it instead",
+      });
+    }
+
     const {
       coverLetter,
       proposedBudget,
@@ -190,8 +266,19 @@ export const updateProposal = async (
       availability,
       portfolioLinks,
       questions,
+      answers,
     } = req.body;
 
+    let screeningAnswers;
+    if (answers !== undefined) {
+      const job = await Job.findById(proposal.jobId).select("screeningQuestions");
+      const screening = parseScreeningAnswers(answers, job?.screeningQuestions || []);
+      if ("error" in screening) {
+        return res.status(400).json({ error: screening.error });
+      }
+      screeningAnswers = screening.answers;
+    }
+
     // Handle new file uploads
     const newAttachments = req.files
       ? (req.files as Express.Multer.File[]).map(
@@ -207,6 +294,7 @@ export const updateProposal = async (
         availability,
         portfolioLinks,
         questions,
+        answers: screeningAnswers,
         ...(newAttachments && { attachments: newAttachments }),
       }).filter(([_, value]) => value !== undefined)
     );
@@ -215,14 +303,31 @@ export const updateProposal = async (
       return res.status(400).json({ error: "No fields to update" });
     }
 
+    // the filter fails if the client opened it or another edit landed since it was read
     const updatedProposal = await Proposal.findOneAndUpdate(
-      { _id: proposalId },
-      updates,
+      {
+        _id: proposalId,
+        status: "pending",
+        revision: proposal.revision,
+        viewedByClientAt: { $exists: false },
+      },
+      {
+        $set: updates,
+        $push: { revisions: snapshotProposal(proposal, new Date()) },
+        $inc: { revision: 1 },
+      },
       {
         new: true,
         runValidators: true,
       }
     );
+
+    if (!updatedProposal) {
+      return res.status(409).json({
+        error: "The proposal changed or was seen by the client while you were editing it",
+      });
+    }
+
     return res.status(200).json({
       message: "Poposal updated successfully",
       proposal: updatedProposal,
@@ -232,3 +337,147 @@ export const updateProposal = async (
     return res.status(500).json({ error: "Error updating proposal" });
   }
 };
+
+export const getProposalRevisions = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const proposalId = req.params.proposalId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!proposalId || !mongoose.Types.ObjectId.isValid(proposalId)) {
+      return res.status(400).json({ error: "Invalid proposal ID" });
+    }
+
+    const proposal = await Proposal.findById(proposalId).select("+revisions");
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal could not be found" });
+    }
+
+    const job = await Job.findById(proposal.jobId).select("clientId");
+    const isFreelancer = proposal.freelancerId.toString() === userId.toString();
+    const isClient = job?.clientId.toString() === userId.toString();
+
+    if (!isFreelancer && !isClient) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    return res.status(200).json({
+      proposalId,
+      revision: proposal.revision,
+      viewedByClientAt: proposal.viewedByClientAt || null,
+      versions: buildProposalVersions(proposal),
+    });
+  } catch (error) {
+    console.error("Error fetching proposal revisions:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// close the chat an accepted proposal opened, so neither side keeps messaging about a dead bid
+const closeProposalConversation = async (proposalId: string): Promise<void> => {
+  const conversation = await Conversation.findOneAndUpdate(
+    { proposalId, closedAt: { $exists: false } },
+    { $set: { closedAt: new Date(), unreadCount: {} } },
+    { new: true }
+  );
+  if (!conversation) return;
+
+  const conversationId = conversation._id.toString();
+  await invalidateConversationCache(conversationId);
+  for (const participant of conversation.participants) {
+    await invalidateUserConversationsCache(participant.toString());
+  }
+
+  emitToConversation(conversationId, "conversation_closed", {
+    conversationId,
+    reason: "proposal_withdrawn",
+  });
+};
+
+export const withdrawProposal = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const proposalId = req.params.proposalId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!proposalId || !mongoose.Types.ObjectId.isValid(proposalId)) {
+      return res.status(400).json({ error: "Invalid proposal ID" });
+    }
+
+    if (reason !== undefined && typeof reason !== "string") {
+      return res.status(400).json({ error: "Reason must be text" });
+    }
+
+    const proposal = await Proposal.findById(proposalId);
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal could not be found" });
+    }
+
+    if (proposal.freelancerId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (proposal.status !== "pending" && proposal.status !== "accepted") {
+      return res
+        .status(409)
+        .json({ error: `Proposal is already ${proposal.status}` });
+    }
+
+    // once a contract exists the way out is through the contract
+    if (proposal.status === "accepted" && (await Contract.exists({ proposalId }))) {
+      return res
+        .status(409)
+        .json({ error: "This proposal already has a contract" });
+    }
+
+    const withdrawn = await Proposal.findOneAndUpdate(
+      { _id: proposalId, status: proposal.status },
+      {
+        $set: {
+          status: "withdrawn",
+          withdrawnAt: new Date(),
+          ...(reason?.trim() && { withdrawalReason: reason.trim() }),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!withdrawn) {
+      return res
+        .status(409)
+        .json({ error: "The proposal changed while you were withdrawing it" });
+    }
+
+    await closeProposalConversation(proposalId);
+
+    const job = await Job.findById(proposal.jobId).select("clientId title");
+    if (job) {
+      emitToUser(job.clientId.toString(), "proposal_withdrawn", {
+        proposalId,
+        jobId: job._id,
+        jobTitle: job.title,
+        reason: withdrawn.withdrawalReason || null,
+      });
+    }
+
+    return res
+      .status(200)
+      .json({ message: "Proposal withdrawn", proposal: withdrawn });
+  } catch (error) {
+    console.error("Error withdrawing proposal:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,252 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Job, type IJob } from "../models/job.js";
+import { Proposal } from "../models/proposal.js";
+import { ProposalTriage } from "../models/proposalTriage.js";
+import { alignScreeningAnswers } from "../utils/screeningQuestions.js";
+import { markProposalsViewed } from "../utils/proposalRevisions.js";
+import {
+  parseProposalInboxQuery,
+  parseComparedProposalIds,
+  parseProposalTriage,
+  proposalInboxStages,
+  buildInboxViewMatch,
+  getInboxSort,
+} from "../utils/proposalInbox.js";
+
+/**
+ * Load the job when the signed-in user owns it
+ * @returns The job, or the status and error to respond with
+ */
+const findOwnedJob = async (
+  jobId: string | undefined,
+  userId: string
+): Promise<{ job: IJob } | { status: number; error: string }> => {
+  if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+    return { status: 400, error: "Invalid job ID" };
+  }
+
+  const job = await Job.findById(jobId).select("clientId title screeningQuestions");
+  if (!job) {
+    return { status: 404, error: "Job not found" };
+  }
+
+  if (job.clientId.toString() !== userId.toString()) {
+    return { status: 403, error: "Unauthorized" };
+  }
+
+  return { job };
+};
+
+export const getProposalInbox = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const owned = await findOwnedJob(req.params.jobId, userId);
+    if ("error" in owned) {
+      return res.status(owned.status).json({ error: owned.error });
+    }
+    const { job } = owned;
+
+    const parsed = parseProposalInboxQuery(req.query as Record<string, string>);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { filters } = parsed;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    const [result] = await Proposal.aggregate([
+      {
+        $match: {
+          jobId: job._id,
+          ...(filters.status && { status: filters.status }),
+        },
+      },
+      ...proposalInboxStages(),
+      {
+        $facet: {
+          proposals: [
+            buildInboxViewMatch(filters),
+            { $sort: getInboxSort(filters) },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          total: [buildInboxViewMatch(filters), { $count: "count" }],
+          // counts for every view, so the tabs can show them
+          counts: [
+            {
+              $group: {
+                _id: null,
+                all: { $sum: 1 },
+                inbox: { $sum: { $cond: ["$triage.archived", 0, 1] } },
+                shortlisted: { $sum: { $cond: ["$triage.shortlisted", 1, 0] } },
+                archived: { $sum: { $cond: ["$triage.archived", 1, 0] } },
+              },
+            },
+            { $project: { _id: 0 } },
+          ],
+        },
+      },
+    ]);
+
+    const proposals = result.proposals;
+    await markProposalsViewed(proposals);
+
+    const total = result.total[0]?.count || 0;
+    const counts = result.counts[0] || {
+      all: 0,
+      inbox: 0,
+      shortlisted: 0,
+      archived: 0,
+    };
+
+    return res.status(200).json({
+      jobId: job._id,
+      title: job.title,
+      questions: job.screeningQuestions,
+      proposals: proposals.map((proposal: (typeof proposals)[number]) => ({
+        ...proposal,
+        screeningAnswers: alignScreeningAnswers(job.screeningQuestions, proposal.answers),
+      })),
+      counts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching proposal inbox:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const compareProposals = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const parsed = parseComparedProposalIds(req.query.ids as string | undefined);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const owned = await findOwnedJob(req.params.jobId, userId);
+    if ("error" in owned) {
+      return res.status(owned.status).json({ error: owned.error });
+    }
+    const { job } = owned;
+
+    const proposals = await Proposal.aggregate([
+      {
+        $match: {
+          _id: { $in: parsed.ids.map((id) => new mongoose.Types.ObjectId(id)) },
+          jobId: job._id,
+        },
+      },
+      ...proposalInboxStages(),
+    ]);
+
+    if (proposals.length !== parsed.ids.length) {
+      return res
+        .status(404)
+        .json({ error: "Some of these proposals were not found for this job" });
+    }
+
+    await markProposalsViewed(proposals);
+
+    // columns in the order the client picked them
+    const byId = new Map(proposals.map((proposal) => [proposal._id.toString(), proposal]));
+
+    return res.status(200).json({
+      jobId: job._id,
+      title: job.title,
+      questions: job.screeningQuestions,
+      proposals: parsed.ids.map((id) => {
+        const proposal = byId.get(id);
+        return {
+          _id: proposal._id,
+          status: proposal.status,
+          freelancer: proposal.freelancer,
+          proposedBudget: proposal.proposedBudget,
+          estimatedTime: proposal.estimatedTime,
+          availability: proposal.availability,
+          screeningAnswers: alignScreeningAnswers(job.screeningQuestions, proposal.answers),
+          triage: proposal.triage,
+          createdAt: proposal.createdAt,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error comparing proposals:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateProposalTriage = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const proposalId = req.params.proposalId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!proposalId || !mongoose.Types.ObjectId.isValid(proposalId)) {
+      return res.status(400).json({ error: "Invalid proposal ID" });
+    }
+
+    const parsed = parseProposalTriage(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { note, ...fields } = parsed.triage;
+
+    const owned = await findOwnedJob(req.params.jobId, userId);
+    if ("error" in owned) {
+      return res.status(owned.status).json({ error: owned.error });
+    }
+
+    if (!(await Proposal.exists({ _id: proposalId, jobId: owned.job._id }))) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    // an empty note clears it
+    const triage = await ProposalTriage.findOneAndUpdate(
+      { proposalId },
+      {
+        $set: {
+          ...fields,
+          ...(note && { note }),
+        },
+        ...(note === "" && { $unset: { note: 1 } }),
+        $setOnInsert: { jobId: owned.job._id, clientId: userId },
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    return res.status(200).json({ triage });
+  } catch (error) {
+    console.error("Error updating proposal triage:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
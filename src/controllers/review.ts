@@ -0,0 +1,264 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Contract } from "../models/contract.js";
+import { invalidateContractCaches } from "../utils/contractCache.js";
+import { getCachedUser } from "../utils/userCache.js";
+import { getCachedFreelancerProfile } from "../utils/freelancerCache.js";
+import { getCachedClientProfile } from "../utils/clientCache.js";
+import { getContractParty } from "../utils/contractAccess.js";
+import { emitToConversation } from "../utils/socket/emitters.js";
+import {
+  REVIEW_FIELD,
+  getReviewWindowClosesAt,
+  publishContractReviews,
+  redactHiddenReviews,
+} from "../utils/reviews.js";
+
+interface ReviewParticipant {
+  _id: mongoose.Types.ObjectId;
+  firstName: string;
+  lastName: string;
+}
+
+export const submitReview = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { rating, comment } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const ratingValue = Number(rating);
+    if (!Number.isInteger(ratingValue) || ratingValue < 1 || ratingValue > 5) {
+      return res
+        .status(400)
+        .json({ error: "Rating must be a whole number between 1 and 5" });
+    }
+
+    if (typeof comment !== "string" || !comment.trim()) {
+      return res.status(400).json({ error: "A review comment is required" });
+    }
+
+    if (comment.length > 1000) {
+      return res
+        .status(400)
+        .json({ error: "Comment cannot exceed 1000 characters" });
+    }
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (contract.status !== "completed" || !contract.completedAt) {
+      return res
+        .status(400)
+        .json({ error: "Reviews can only be left on completed contracts" });
+    }
+
+    if (
+      contract.reviews?.publishedAt ||
+      getReviewWindowClosesAt(contract.completedAt) < new Date()
+    ) {
+      return res.status(400).json({ error: "The review window has closed" });
+    }
+
+    const field = REVIEW_FIELD[party];
+
+    // conditional write so a double submit cannot overwrite the first review
+    const updated = await Contract.findOneAndUpdate(
+      {
+        _id: contractId,
+        status: "completed",
+        "reviews.publishedAt": { $exists: false },
+        [`reviews.${field}.rating`]: { $exists: false },
+      },
+      {
+        $set: {
+          [`reviews.${field}`]: {
+            rating: ratingValue,
+            comment: comment.trim(),
+            reviewedAt: new Date(),
+          },
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!updated) {
+      return res
+        .status(409)
+        .json({ error: "You have already reviewed this contract" });
+    }
+
+    await invalidateContractCaches(updated);
+
+    const bothSubmitted =
+      !!updated.reviews.clientReview?.rating &&
+      !!updated.reviews.freelancerReview?.rating;
+
+    if (bothSubmitted) {
+      await publishContractReviews(contractId);
+    } else {
+      // let the other side know without revealing the review itself
+      emitToConversation(updated.conversationId.toString(), "review_submitted", {
+        contractId,
+        reviewedBy: party,
+      });
+    }
+
+    return res.status(201).json({
+      message: bothSubmitted
+        ? "Review submitted and published"
+        : "Review submitted. It will be visible once both sides review or the review window closes",
+      review: updated.reviews[field],
+      published: bothSubmitted,
+    });
+  } catch (error) {
+    console.error("Error submitting review:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getContractReviews = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId status completedAt reviews")
+      .lean();
+
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    const party = getContractParty(contract, userId);
+    if (!party) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const { reviews } = redactHiddenReviews(contract, party);
+
+    return res.status(200).json({
+      reviews,
+      published: !!contract.reviews?.publishedAt,
+      canReview:
+        contract.status === "completed" &&
+        !contract.reviews?.publishedAt &&
+        !contract.reviews?.[REVIEW_FIELD[party]]?.rating &&
+        !!contract.completedAt &&
+        getReviewWindowClosesAt(contract.completedAt) > new Date(),
+      windowClosesAt: contract.completedAt
+        ? getReviewWindowClosesAt(contract.completedAt)
+        : null,
+    });
+  } catch (error) {
+    console.error("Error fetching contract reviews:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getUserReviews = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.params.userId;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+    if (!userId || !mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    const user = await getCachedUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // freelancers receive the client's review and vice versa
+    const isFreelancer = user.role === "freelancer";
+    const receivedField = isFreelancer ? "clientReview" : "freelancerReview";
+    const reviewerPath = isFreelancer ? "clientId" : "freelancerId";
+
+    const filter = {
+      [isFreelancer ? "freelancerId" : "clientId"]: userId,
+      "reviews.publishedAt": { $exists: true },
+      [`reviews.${receivedField}.rating`]: { $exists: true },
+    };
+
+    const contracts = await Contract.find(filter)
+      .select(`projectDetails.title reviews.${receivedField} ${reviewerPath}`)
+      .sort({ [`reviews.${receivedField}.reviewedAt`]: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate(reviewerPath, "firstName lastName")
+      .lean();
+
+    const total = await Contract.countDocuments(filter);
+
+    const reviews = contracts.map((contract) => {
+      const review = contract.reviews[receivedField];
+      const reviewer = contract[reviewerPath] as unknown as ReviewParticipant | null;
+      return {
+        contractId: contract._id,
+        jobTitle: contract.projectDetails.title,
+        rating: review?.rating,
+        comment: review?.comment,
+        reviewedAt: review?.reviewedAt,
+        reviewer: reviewer
+          ? {
+              _id: reviewer._id,
+              firstName: reviewer.firstName,
+              lastName: reviewer.lastName,
+            }
+          : null,
+      };
+    });
+
+    const profile = isFreelancer
+      ? await getCachedFreelancerProfile(userId)
+      : await getCachedClientProfile(userId);
+
+    return res.status(200).json({
+      rating: profile?.rating || null,
+      reviews,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching user reviews:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,234 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { SavedSearch } from "../models/savedSearch.js";
+import {
+  MAX_SAVED_SEARCHES,
+  parseSavedSearchQuery,
+  normalizeSavedSearchSkills,
+  isAlertFrequency,
+} from "../utils/savedSearches.js";
+import { getCachedSkillCatalog } from "../utils/skillCache.js";
+import { isMongoError } from "../utils/errorHandler.js";
+
+const DUPLICATE_NAME_ERROR = "You already have a saved search with this name";
+
+export const createSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const { name, query, alertFrequency = "daily" } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({ error: "Name is required" });
+    }
+
+    if (!isAlertFrequency(alertFrequency)) {
+      return res
+        .status(400)
+        .json({ error: "Alert frequency must be instant, daily or weekly" });
+    }
+
+    const parsed = parseSavedSearchQuery(query);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const count = await SavedSearch.countDocuments({ freelancerId: userId });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        error: `You can keep up to ${MAX_SAVED_SEARCHES} saved searches`,
+      });
+    }
+
+    // alerts start from jobs published after the search is saved
+    const savedSearch = await SavedSearch.create({
+      freelancerId: userId,
+      name: name.trim(),
+      query: normalizeSavedSearchSkills(parsed.query, await getCachedSkillCatalog()),
+      alertFrequency,
+      lastCheckedAt: new Date(),
+    });
+
+    return res.status(201).json({ savedSearch });
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      return res.status(409).json({ error: DUPLICATE_NAME_ERROR });
+    }
+    console.error("Error saving search:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getSavedSearches = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const savedSearches = await SavedSearch.find({ freelancerId: userId })
+      .select("-alertedJobIds")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.status(200).json({ savedSearches });
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const savedSearchId = req.params.savedSearchId;
+    const { name, query, alertFrequency } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!savedSearchId || !mongoose.Types.ObjectId.isValid(savedSearchId)) {
+      return res.status(400).json({ error: "Invalid saved search ID" });
+    }
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return res.status(400).json({ error: "Name cannot be empty" });
+    }
+
+    if (alertFrequency !== undefined && !isAlertFrequency(alertFrequency)) {
+      return res
+        .status(400)
+        .json({ error: "Alert frequency must be instant, daily or weekly" });
+    }
+
+    const parsed = query !== undefined ? parseSavedSearchQuery(query) : null;
+    if (parsed && "error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (name === undefined && alertFrequency === undefined && !parsed) {
+      return res.status(400).json({ error: "No fields to update" });
+    }
+
+    const savedSearch = await SavedSearch.findOneAndUpdate(
+      { _id: savedSearchId, freelancerId: userId },
+      {
+        $set: {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(alertFrequency !== undefined && { alertFrequency }),
+          ...(parsed && {
+            query: normalizeSavedSearchSkills(parsed.query, await getCachedSkillCatalog()),
+          }),
+        },
+      },
+      { new: true, runValidators: true }
+    ).select("-alertedJobIds");
+
+    if (!savedSearch) {
+      return res.status(404).json({ error: "Saved search not found" });
+    }
+
+    return res.status(200).json({ savedSearch });
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      return res.status(409).json({ error: DUPLICATE_NAME_ERROR });
+    }
+    console.error("Error updating saved search:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const setSavedSearchPaused = async (
+  req: Request,
+  res: Response,
+  paused: boolean
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const savedSearchId = req.params.savedSearchId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!savedSearchId || !mongoose.Types.ObjectId.isValid(savedSearchId)) {
+      return res.status(400).json({ error: "Invalid saved search ID" });
+    }
+
+    // resuming skips whatever was published while paused instead of sending it in one burst
+    const savedSearch = await SavedSearch.findOneAndUpdate(
+      { _id: savedSearchId, freelancerId: userId, paused: !paused },
+      { $set: { paused, ...(!paused && { lastCheckedAt: new Date() }) } },
+      { new: true }
+    ).select("-alertedJobIds");
+
+    if (!savedSearch) {
+      const exists = await SavedSearch.exists({ _id: savedSearchId, freelancerId: userId });
+      return exists
+        ? res
+            .status(400)
+            .json({ error: `Saved search is already ${paused ? "paused" : "active"}` })
+        : res.status(404).json({ error: "Saved search not found" });
+    }
+
+    return res.status(200).json({
+      message: `Alerts ${paused ? "paused" : "resumed"}`,
+      savedSearch,
+    });
+  } catch (error) {
+    console.error(`Error trying to ${paused ? "pause" : "resume"} saved search:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const pauseSavedSearch = (req: Request, res: Response) =>
+  setSavedSearchPaused(req, res, true);
+
+export const resumeSavedSearch = (req: Request, res: Response) =>
+  setSavedSearchPaused(req, res, false);
+
+export const deleteSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const savedSearchId = req.params.savedSearchId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!savedSearchId || !mongoose.Types.ObjectId.isValid(savedSearchId)) {
+      return res.status(400).json({ error: "Invalid saved search ID" });
+    }
+
+    const result = await SavedSearch.deleteOne({
+      _id: savedSearchId,
+      freelancerId: userId,
+    });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: "Saved search not found" });
+    }
+
+    return res.status(200).json({ message: "Saved search deleted" });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,214 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Skill } from "../models/skill.js";
+import { JOB_CATEGORIES } from "../models/job.js";
+import { getCachedSkillCatalog, invalidateSkillCatalogCache } from "../utils/skillCache.js";
+import { autocompleteSkills, MAX_AUTOCOMPLETE_RESULTS } from "../utils/skillTaxonomy.js";
+import { isMongoError } from "../utils/errorHandler.js";
+
+const DUPLICATE_SKILL_ERROR = "That slug or spelling already belongs to another skill";
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+// parent and related skills have to be catalogued already
+const findUnknownSlug = async (slugs: string[]): Promise<string | undefined> => {
+  const known = await Skill.find({ slug: { $in: slugs } }).distinct("slug");
+  return slugs.find((slug) => !known.includes(slug));
+};
+
+export const getSkillSuggestions = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { q, category } = req.query as Record<string, string | undefined>;
+    const limit = Math.min(
+      MAX_AUTOCOMPLETE_RESULTS,
+      Math.max(1, parseInt(req.query.limit as string) || 10)
+    );
+
+    if (!q?.trim()) {
+      return res.status(400).json({ error: "Query is required" });
+    }
+
+    if (category && !(JOB_CATEGORIES as readonly string[]).includes(category)) {
+      return res.status(400).json({ error: `${category} is not a valid category` });
+    }
+
+    const catalog = await getCachedSkillCatalog();
+    const skills = autocompleteSkills(catalog, q, {
+      limit,
+      ...(category && { category }),
+    }).map(({ slug, name, category }) => ({ slug, name, category }));
+
+    return res.status(200).json({ skills });
+  } catch (error) {
+    console.error("Error fetching skill suggestions:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getSkill = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const slug = req.params.slug;
+
+    if (!slug) {
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    const skill = await Skill.findOne({ slug }).select("-keys").lean();
+    if (!skill) {
+      return res.status(404).json({ error: "Skill not found" });
+    }
+
+    const linked = await Skill.find({
+      slug: { $in: [...skill.related, ...(skill.parent ? [skill.parent] : [])] },
+    })
+      .select("-_id slug name category")
+      .lean();
+
+    return res.status(200).json({
+      skill: {
+        ...skill,
+        parent: linked.find((s) => s.slug === skill.parent) || null,
+        related: linked.filter((s) => skill.related.includes(s.slug)),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching skill:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createSkill = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { slug, name, aliases = [], category, parent, related = [] } = req.body;
+
+    if (typeof slug !== "string" || typeof name !== "string") {
+      return res.status(400).json({ error: "Slug and name are required" });
+    }
+
+    if (!isStringList(aliases) || !isStringList(related)) {
+      return res.status(400).json({ error: "Aliases and related must be lists of text" });
+    }
+
+    if (parent !== undefined && typeof parent !== "string") {
+      return res.status(400).json({ error: "Parent must be a skill slug" });
+    }
+
+    if (parent === slug) {
+      return res.status(400).json({ error: "A skill cannot be its own parent" });
+    }
+
+    const unknownSlug = await findUnknownSlug([...related, ...(parent ? [parent] : [])]);
+    if (unknownSlug) {
+      return res.status(400).json({ error: `Skill ${unknownSlug} does not exist` });
+    }
+
+    const skill = new Skill({
+      slug,
+      name,
+      aliases,
+      category,
+      related,
+      ...(parent && { parent }),
+    });
+    await skill.save();
+
+    await invalidateSkillCatalogCache();
+
+    return res.status(201).json({ skill });
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      return res.status(409).json({ error: DUPLICATE_SKILL_ERROR });
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error creating skill:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateSkill = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const slug = req.params.slug;
+    const { name, aliases, category, parent, related } = req.body;
+
+    if (!slug) {
+      return res.status(400).json({ error: "Invalid request" });
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      return res.status(400).json({ error: "Name must be text" });
+    }
+
+    if (
+      (aliases !== undefined && !isStringList(aliases)) ||
+      (related !== undefined && !isStringList(related))
+    ) {
+      return res.status(400).json({ error: "Aliases and related must be lists of text" });
+    }
+
+    // null clears the parent
+    if (parent !== undefined && parent !== null && typeof parent !== "string") {
+      return res.status(400).json({ error: "Parent must be a skill slug or null" });
+    }
+
+    const skill = await Skill.findOne({ slug });
+    if (!skill) {
+      return res.status(404).json({ error: "Skill not found" });
+    }
+
+    if (parent === skill.slug) {
+      return res.status(400).json({ error: "A skill cannot be its own parent" });
+    }
+
+    const unknownSlug = await findUnknownSlug([...(related || []), ...(parent ? [parent] : [])]);
+    if (unknownSlug) {
+      return res.status(400).json({ error: `Skill ${unknownSlug} does not exist` });
+    }
+
+    const updates = Object.fromEntries(
+      Object.entries({ name, aliases, category, related }).filter(
+        ([_, value]) => value !== undefined
+      )
+    );
+
+    if (Object.keys(updates).length === 0 && parent === undefined) {
+      return res.status(400).json({ error: "No fields to update" });
+    }
+
+    // the old name stays an alias so skills already saved under it still normalize
+    if (name !== undefined && name.trim() !== skill.name) {
+      updates.aliases = [...((aliases as string[] | undefined) ?? skill.aliases), skill.name];
+    }
+
+    skill.set(updates);
+    if (parent !== undefined) skill.set("parent", parent ?? undefined);
+    await skill.save();
+
+    await invalidateSkillCatalogCache();
+
+    return res.status(200).json({ skill });
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      return res.status(409).json({ error: DUPLICATE_SKILL_ERROR });
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error updating skill:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
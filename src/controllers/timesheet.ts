@@ -0,0 +1,617 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Contract, type IContract } from "../models/contract.js";
+import { TimeEntry, Timesheet } from "../models/timesheet.js";
+import {
+  getContractParty,
+  OPEN_CONTRACT_STATUSES,
+} from "../utils/contractAccess.js";
+import {
+  getWeekStart,
+  getWeekEnd,
+  getBillableAmount,
+  getLoggedMinutes,
+  isWeekLocked,
+} from "../utils/timesheets.js";
+import {
+  isFullySigned,
+  UNSIGNED_CONTRACT_ERROR,
+} from "../utils/contractSignatures.js";
+import { emitToConversation } from "../utils/socket/emitters.js";
+import {
+  fundEscrowShortfall,
+  releaseEscrow,
+} from "../utils/payments/escrow.js";
+import { PaymentError, toMinorUnits } from "../utils/payments/ledger.js";
+
+interface TimeEntryInput {
+  date: Date;
+  durationMinutes: number;
+  memo: string;
+  deliverableId?: string;
+}
+
+// validate an entry body against the contract, returns an error message when invalid
+const parseTimeEntry = (
+  body: Record<string, unknown>,
+  contract: IContract
+): { entry: TimeEntryInput } | { error: string } => {
+  const { date, durationMinutes, memo, deliverableId } = body;
+
+  const entryDate = new Date(date as string);
+  if (!date || isNaN(entryDate.getTime())) {
+    return { error: "A valid date is required" };
+  }
+
+  if (entryDate > new Date()) {
+    return { error: "Cannot log time for a future date" };
+  }
+
+  if (entryDate < getWeekStart(contract.duration.startDate)) {
+    return { error: "Cannot log time before the contract started" };
+  }
+
+  const minutes = Number(durationMinutes);
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 1440) {
+    return { error: "Duration must be between 1 and 1440 minutes" };
+  }
+
+  if (typeof memo !== "string" || !memo.trim()) {
+    return { error: "A memo describing the work is required" };
+  }
+
+  if (memo.length > 500) {
+    return { error: "Memo cannot exceed 500 characters" };
+  }
+
+  if (deliverableId !== undefined && deliverableId !== null) {
+    if (
+      typeof deliverableId !== "string" ||
+      !mongoose.Types.ObjectId.isValid(deliverableId) ||
+      !contract.deliverables.id(deliverableId)
+    ) {
+      return { error: "Deliverable not found on this contract" };
+    }
+  }
+
+  return {
+    entry: {
+      date: entryDate,
+      durationMinutes: minutes,
+      memo: memo.trim(),
+      ...(typeof deliverableId === "string" && { deliverableId }),
+    },
+  };
+};
+
+// checks shared by every write to a contract's time entries
+const getLoggableContract = async (
+  contractId: string,
+  userId: string
+): Promise<{ contract: IContract } | { status: number; error: string }> => {
+  const contract = await Contract.findById(contractId);
+  if (!contract) {
+    return { status: 404, error: "Contract not found" };
+  }
+
+  if (getContractParty(contract, userId) !== "freelancer") {
+    return { status: 403, error: "Only the freelancer can log time" };
+  }
+
+  if (contract.budget.type !== "hourly") {
+    return { status: 400, error: "Time tracking is only available on hourly contracts" };
+  }
+
+  if (!OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+    return { status: 400, error: `Cannot log time on a ${contract.status} contract` };
+  }
+
+  if (contract.status === "active" && !isFullySigned(contract)) {
+    return { status: 400, error: UNSIGNED_CONTRACT_ERROR };
+  }
+
+  return { contract };
+};
+
+const exceedsWeeklyCap = async (
+  contract: IContract,
+  weekStart: Date,
+  minutes: number,
+  excludeEntryId?: string
+): Promise<boolean> => {
+  const cap = contract.budget.weeklyHourCap;
+  if (!cap) return false;
+
+  const logged = await getLoggedMinutes(
+    contract._id.toString(),
+    weekStart,
+    excludeEntryId
+  );
+  return logged + minutes > cap * 60;
+};
+
+export const logTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const result = await getLoggableContract(contractId, userId);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    const { contract } = result;
+
+    const parsed = parseTimeEntry(req.body, contract);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const weekStart = getWeekStart(parsed.entry.date);
+
+    if (await isWeekLocked(contractId, weekStart)) {
+      return res
+        .status(409)
+        .json({ error: "The timesheet for this week has already been submitted" });
+    }
+
+    if (await exceedsWeeklyCap(contract, weekStart, parsed.entry.durationMinutes)) {
+      return res.status(400).json({
+        error: `This entry would exceed the weekly cap of ${contract.budget.weeklyHourCap} hours`,
+      });
+    }
+
+    const entry = await TimeEntry.create({
+      ...parsed.entry,
+      contractId,
+      freelancerId: userId,
+      weekStart,
+    });
+
+    return res.status(201).json({
+      message: "Time logged successfully",
+      entry,
+    });
+  } catch (error) {
+    console.error("Error logging time entry:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const entryId = req.params.entryId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!entryId || !mongoose.Types.ObjectId.isValid(entryId)) {
+      return res.status(400).json({ error: "Invalid time entry ID" });
+    }
+
+    const entry = await TimeEntry.findById(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: "Time entry not found" });
+    }
+
+    const contractId = entry.contractId.toString();
+    const result = await getLoggableContract(contractId, userId);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    const { contract } = result;
+
+    // unchanged fields fall back to the stored entry
+    const parsed = parseTimeEntry(
+      {
+        date: entry.date,
+        durationMinutes: entry.durationMinutes,
+        memo: entry.memo,
+        deliverableId: entry.deliverableId?.toString(),
+        ...req.body,
+      },
+      contract
+    );
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const weekStart = getWeekStart(parsed.entry.date);
+
+    if (
+      (await isWeekLocked(contractId, entry.weekStart)) ||
+      (await isWeekLocked(contractId, weekStart))
+    ) {
+      return res
+        .status(409)
+        .json({ error: "The timesheet for this week has already been submitted" });
+    }
+
+    if (
+      await exceedsWeeklyCap(contract, weekStart, parsed.entry.durationMinutes, entryId)
+    ) {
+      return res.status(400).json({
+        error: `This entry would exceed the weekly cap of ${contract.budget.weeklyHourCap} hours`,
+      });
+    }
+
+    entry.date = parsed.entry.date;
+    entry.weekStart = weekStart;
+    entry.durationMinutes = parsed.entry.durationMinutes;
+    entry.memo = parsed.entry.memo;
+    entry.set(
+      "deliverableId",
+      parsed.entry.deliverableId
+        ? new mongoose.Types.ObjectId(parsed.entry.deliverableId)
+        : undefined
+    );
+
+    await entry.save();
+
+    return res.status(200).json({
+      message: "Time entry updated successfully",
+      entry,
+    });
+  } catch (error) {
+    console.error("Error updating time entry:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const entryId = req.params.entryId;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!entryId || !mongoose.Types.ObjectId.isValid(entryId)) {
+      return res.status(400).json({ error: "Invalid time entry ID" });
+    }
+
+    const entry = await TimeEntry.findById(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: "Time entry not found" });
+    }
+
+    if (entry.freelancerId.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    if (await isWeekLocked(entry.contractId.toString(), entry.weekStart)) {
+      return res
+        .status(409)
+        .json({ error: "The timesheet for this week has already been submitted" });
+    }
+
+    await entry.deleteOne();
+
+    return res.status(200).json({ message: "Time entry deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting time entry:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getTimeEntries = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { week } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId budget")
+      .lean();
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    let weekStart: Date | undefined;
+    if (week) {
+      const weekDate = new Date(week as string);
+      if (isNaN(weekDate.getTime())) {
+        return res.status(400).json({ error: "Invalid week" });
+      }
+      weekStart = getWeekStart(weekDate);
+    }
+
+    const entries = await TimeEntry.find({
+      contractId,
+      ...(weekStart && { weekStart }),
+    })
+      .sort({ date: -1 })
+      .lean();
+
+    const totalMinutes = entries.reduce((sum, e) => sum + e.durationMinutes, 0);
+
+    return res.status(200).json({
+      entries,
+      totalMinutes,
+      ...(weekStart && {
+        weekStart,
+        weeklyHourCap: contract.budget.weeklyHourCap || null,
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching time entries:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const submitTimesheet = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { weekStart: week } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const weekDate = new Date(week);
+    if (!week || isNaN(weekDate.getTime())) {
+      return res.status(400).json({ error: "A valid weekStart is required" });
+    }
+
+    const weekStart = getWeekStart(weekDate);
+    if (weekStart > new Date()) {
+      return res
+        .status(400)
+        .json({ error: "Cannot submit a timesheet for a future week" });
+    }
+
+    const result = await getLoggableContract(contractId, userId);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    const { contract } = result;
+
+    const existing = await Timesheet.findOne({ contractId, weekStart });
+    if (existing && existing.status !== "disputed") {
+      return res
+        .status(409)
+        .json({ error: `The timesheet for this week is already ${existing.status}` });
+    }
+
+    const totalMinutes = await getLoggedMinutes(contractId, weekStart);
+    if (totalMinutes === 0) {
+      return res
+        .status(400)
+        .json({ error: "No time has been logged for this week" });
+    }
+
+    const hourlyRate = contract.budget.amount;
+    const fields = {
+      totalMinutes,
+      hourlyRate,
+      amount: getBillableAmount(totalMinutes, hourlyRate),
+      currency: contract.budget.currency,
+      status: "submitted" as const,
+      submittedAt: new Date(),
+    };
+
+    let timesheet;
+    if (existing) {
+      // resubmitting after a dispute
+      existing.set(fields);
+      existing.set("disputeReason", undefined);
+      existing.set("reviewedAt", undefined);
+      timesheet = await existing.save();
+    } else {
+      timesheet = await Timesheet.create({
+        ...fields,
+        contractId,
+        freelancerId: contract.freelancerId,
+        clientId: contract.clientId,
+        weekStart,
+      });
+    }
+
+    emitToConversation(contract.conversationId.toString(), "timesheet_submitted", {
+      contractId,
+      timesheet,
+    });
+
+    return res.status(200).json({
+      message: "Timesheet submitted for approval",
+      timesheet,
+      weekEnd: getWeekEnd(weekStart),
+    });
+  } catch (error) {
+    console.error("Error submitting timesheet:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getTimesheets = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const contractId = req.params.contractId;
+    const { status } = req.query;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!contractId || !mongoose.Types.ObjectId.isValid(contractId)) {
+      return res.status(400).json({ error: "Invalid contract ID" });
+    }
+
+    const contract = await Contract.findById(contractId)
+      .select("clientId freelancerId")
+      .lean();
+    if (!contract) {
+      return res.status(404).json({ error: "Contract not found" });
+    }
+
+    if (!getContractParty(contract, userId)) {
+      return res.status(403).json({ error: "Unauthorized" });
+    }
+
+    const timesheets = await Timesheet.find({
+      contractId,
+      ...(status && { status }),
+    })
+      .sort({ weekStart: -1 })
+      .lean();
+
+    return res.status(200).json({ timesheets });
+  } catch (error) {
+    console.error("Error fetching timesheets:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const reviewTimesheet = async (
+  req: Request,
+  res: Response,
+  action: "approve" | "dispute"
+): Promise<Response> => {
+  try {
+    const userId = req.user?.userId;
+    const timesheetId = req.params.timesheetId;
+    const { reason } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (!timesheetId || !mongoose.Types.ObjectId.isValid(timesheetId)) {
+      return res.status(400).json({ error: "Invalid timesheet ID" });
+    }
+
+    if (action === "dispute" && (typeof reason !== "string" || !reason.trim())) {
+      return res
+        .status(400)
+        .json({ error: "A reason is required when disputing a timesheet" });
+    }
+
+    const existing = await Timesheet.findById(timesheetId);
+    if (!existing) {
+      return res.status(404).json({ error: "Timesheet not found" });
+    }
+
+    if (getContractParty(existing, userId) !== "client") {
+      return res
+        .status(403)
+        .json({ error: "Only the client can review timesheets" });
+    }
+
+    const contract = await Contract.findById(existing.contractId)
+      .select("clientId freelancerId conversationId status budget signatures")
+      .lean();
+    if (!contract || !OPEN_CONTRACT_STATUSES.includes(contract.status)) {
+      return res
+        .status(400)
+        .json({ error: "Contract is no longer open for timesheet review" });
+    }
+
+    if (contract.status === "active" && !isFullySigned(contract)) {
+      return res.status(400).json({ error: UNSIGNED_CONTRACT_ERROR });
+    }
+
+    if (existing.status !== "submitted") {
+      return res
+        .status(400)
+        .json({ error: "Only submitted timesheets can be reviewed" });
+    }
+
+    // approved hours are paid straight away, topping escrow up if it is short
+    if (action === "approve") {
+      const amount = toMinorUnits(existing.amount);
+      const link = {
+        timesheetId: timesheetId,
+        description: `Timesheet for week of ${existing.weekStart.toISOString().slice(0, 10)}`,
+      };
+
+      await fundEscrowShortfall(contract, amount, `timesheet-fund:${timesheetId}`, link);
+      await releaseEscrow(contract, amount, `timesheet-release:${timesheetId}`, link);
+    }
+
+    const timesheet = await Timesheet.findOneAndUpdate(
+      { _id: timesheetId, status: "submitted" },
+      {
+        $set: {
+          status: action === "approve" ? "approved" : "disputed",
+          reviewedAt: new Date(),
+          ...(action === "dispute" && { disputeReason: reason.trim() }),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!timesheet) {
+      return res
+        .status(400)
+        .json({ error: "Only submitted timesheets can be reviewed" });
+    }
+
+    emitToConversation(
+      contract.conversationId.toString(),
+      action === "approve" ? "timesheet_approved" : "timesheet_disputed",
+      { contractId: timesheet.contractId, timesheet }
+    );
+
+    return res.status(200).json({
+      message: action === "approve" ? "Timesheet approved" : "Timesheet disputed",
+      timesheet,
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error reviewing timesheet:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const approveTimesheet = (req: Request, res: Response) =>
+  reviewTimesheet(req, res, "approve");
+
+export const disputeTimesheet = (req: Request, res: Response) =>
+  reviewTimesheet(req, res, "dispute");
@@ -12,17 +12,34 @@ import proposalRoutes from "./routes/proposal.js";
 import chatRoutes from "./routes/chat.js";
 import contractRoutes from "./routes/contract.js";
 import clientRoutes from "./routes/client.js";
+import disputeRoutes from "./routes/dispute.js";
+import reviewRoutes from "./routes/review.js";
+import timesheetRoutes from "./routes/timesheet.js";
+import paymentRoutes from "./routes/payment.js";
+import invoiceRoutes from "./routes/invoice.js";
+import invitationRoutes from "./routes/invitation.js";
+import savedSearchRoutes from "./routes/savedSearch.js";
+import skillRoutes from "./routes/skill.js";
 import passport from "passport";
 import cors from "cors";
 import "./config/passport.js";
 import { initializeSocket } from "./utils/socket.js";
 import { redisClient } from "./config/redis.js";
+import { scheduleTask } from "./utils/scheduler.js";
+import { autoCompleteExpiredRequests } from "./utils/contractCompletion.js";
+import { publishExpiredReviews } from "./utils/reviews.js";
+import { processContractDeadlines } from "./utils/contractDeadlines.js";
+import { processJobLifecycle } from "./utils/jobLifecycle.js";
+import { processSavedSearchAlerts } from "./utils/savedSearches.js";
 
 dotenv.config();
 
 const app = express();
 const server = createServer(app);
 
+// number of proxy hops in front of the app, so req.ip is the real client address
+app.set("trust proxy", parseInt(process.env.TRUST_PROXY || "0") || 0);
+
 //redis store initialized
 const redisStore = new RedisStore({
   client: redisClient as any,
@@ -75,6 +92,14 @@ app.use("/api/proposal", proposalRoutes);
 app.use("/api/chat", chatRoutes);
 app.use("/api/contract", contractRoutes);
 app.use("/api/client", clientRoutes);
+app.use("/api/dispute", disputeRoutes);
+app.use("/api/review", reviewRoutes);
+app.use("/api/timesheet", timesheetRoutes);
+app.use("/api/payment", paymentRoutes);
+app.use("/api/invoice", invoiceRoutes);
+app.use("/api/invitation", invitationRoutes);
+app.use("/api/saved-search", savedSearchRoutes);
+app.use("/api/skill", skillRoutes);
 
 const PORT = process.env.PORT || 3001;
 
@@ -85,4 +110,19 @@ connectDb().then(() => {
   server.listen(PORT, () => {
     console.log(`server running ${PORT}`);
   });
+
+  //background jobs
+  scheduleTask(
+    "contract-auto-complete",
+    60 * 60 * 1000,
+    autoCompleteExpiredRequests
+  );
+  scheduleTask("review-publish", 60 * 60 * 1000, publishExpiredReviews);
+  scheduleTask(
+    "contract-deadlines",
+    15 * 60 * 1000,
+    processContractDeadlines
+  );
+  scheduleTask("job-lifecycle", 5 * 60 * 1000, processJobLifecycle);
+  scheduleTask("saved-search-alerts", 5 * 60 * 1000, processSavedSearchAlerts);
 });
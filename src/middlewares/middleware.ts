@@ -1,8 +1,9 @@
 import type { Request, Response, NextFunction } from "express";
 import jwt, { type JwtPayload } from "jsonwebtoken";
 import dotenv from "dotenv";
-import User from "../models/users.js";
+import User, { type UserRole } from "../models/users.js";
 import { generateAccessToken } from "../utils/generateToken.js";
+import { getCachedUser } from "../utils/userCache.js";
 
 dotenv.config();
 
@@ -17,6 +18,17 @@ const getAccessToken = (req: Request): string | null => {
   return req.cookies.accessToken;
 };
 
+const decodeAccessToken = (token: string, secret: string): NonNullable<Request["user"]> => {
+  const decoded = jwt.verify(token, secret) as JwtPayload;
+  return {
+    userId: decoded.userId || decoded.sub || decoded.id,
+    email: decoded.email,
+    role: decoded.role,
+    ...(decoded.iat !== undefined && { iat: decoded.iat }),
+    ...(decoded.exp !== undefined && { exp: decoded.exp }),
+  };
+};
+
 const verifyToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const token = getAccessToken(req);
 
@@ -28,14 +40,7 @@ const verifyToken = async (req: Request, res: Response, next: NextFunction): Pro
   // Try access token first
   if (token) {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-      req.user = {
-        userId: decoded.userId || decoded.sub || decoded.id,
-        email: decoded.email,
-        role: decoded.role,
-        ...(decoded.iat !== undefined && { iat: decoded.iat }),
-        ...(decoded.exp !== undefined && { exp: decoded.exp }),
-      };
+      req.user = decodeAccessToken(token, JWT_SECRET);
       next();
       return;
     } catch (_err) {
@@ -79,4 +84,45 @@ const verifyToken = async (req: Request, res: Response, next: NextFunction): Pro
   }
 };
 
-export { verifyToken };
+// public routes that personalise for signed-in users; a missing or expired
+// access token just leaves the request anonymous, no refresh is attempted
+const optionalToken = (req: Request, _res: Response, next: NextFunction): void => {
+  const token = getAccessToken(req);
+
+  if (token && JWT_SECRET) {
+    try {
+      req.user = decodeAccessToken(token, JWT_SECRET);
+    } catch (_err) {
+      // treated as anonymous
+    }
+  }
+
+  next();
+};
+
+// must run after verifyToken; checks the stored role rather than the token claim
+const requireRole = (...roles: UserRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    try {
+      const user = await getCachedUser(userId);
+
+      if (!user || !roles.includes(user.role as UserRole)) {
+        res.status(403).json({ message: "Forbidden" });
+        return;
+      }
+
+      next();
+    } catch (_err) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+};
+
+export { verifyToken, optionalToken, requireRole };
@@ -129,6 +129,22 @@ const matchedJobsLimiter = new RateLimiterRedis({
   duration: 60,
 });
 
+// client rate limiters
+const searchFreelancersLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: "rl:search-freelancers",
+  points: 30,
+  duration: 60,
+});
+
+// fires on every keystroke, so it gets more room
+const skillAutocompleteLimiter = new RateLimiterRedis({
+  storeClient: redisClient,
+  keyPrefix: "rl:skill-autocomplete",
+  points: 120,
+  duration: 60,
+});
+
 // ==================== MIDDLEWARE FACTORY ====================
 
 type RateLimiterType =
@@ -142,7 +158,9 @@ type RateLimiterType =
   | "submitProposal"
   | "sendMessageHttp"
   | "uploadPicture"
-  | "matchedJobs";
+  | "matchedJobs"
+  | "searchFreelancers"
+  | "skillAutocomplete";
 
 const limiters: Record<RateLimiterType, RateLimiterRedis> = {
   login: loginLimiter,
@@ -156,6 +174,8 @@ const limiters: Record<RateLimiterType, RateLimiterRedis> = {
   sendMessageHttp: sendMessageHttpLimiter,
   uploadPicture: uploadPictureLimiter,
   matchedJobs: matchedJobsLimiter,
+  searchFreelancers: searchFreelancersLimiter,
+  skillAutocomplete: skillAutocompleteLimiter,
 };
 
 /**
@@ -196,6 +216,8 @@ export {
   sendMessageHttpLimiter,
   uploadPictureLimiter,
   matchedJobsLimiter,
+  searchFreelancersLimiter,
+  skillAutocompleteLimiter,
   // Socket limiters
   socketSendMessageLimiter,
   socketTypingLimiter,
@@ -0,0 +1,38 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A job a freelancer saved to apply to later
+export interface IBookmark extends Document {
+  freelancerId: Types.ObjectId;
+  jobId: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bookmarkSchema = new Schema<IBookmark>(
+  {
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: "Job",
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+bookmarkSchema.index({ freelancerId: 1, jobId: 1 }, { unique: true });
+bookmarkSchema.index({ freelancerId: 1, createdAt: -1 });
+
+export const Bookmark = model<IBookmark>("Bookmark", bookmarkSchema);
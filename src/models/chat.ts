@@ -25,6 +25,7 @@ export interface IConversation extends Document {
     timestamp: Date;
   };
   unreadCount: Map<string, number>;
+  closedAt?: Date; // Set when the proposal behind it is withdrawn, no new messages after
   createdAt: Date;
   updatedAt: Date;
 }
@@ -114,6 +115,7 @@ const conversationSchema = new Schema<IConversation>(
       of: Number,
       default: {},
     },
+    closedAt: Date,
   },
   {
     timestamps: true,
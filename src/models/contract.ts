@@ -1,5 +1,95 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+// final contract status a resolved dispute leads to
+export type DisputeOutcome = "completed" | "cancelled" | "resumed";
+
+export interface IDeliverable {
+  _id: Types.ObjectId;
+  description: string;
+  dueDate?: Date;
+  submittedAt?: Date;
+  fileUrl?: string;
+  attachments: string[];
+  submissionNote?: string;
+  status: "pending" | "submitted" | "approved" | "revision_requested";
+  feedback?: string;
+  reviewedAt?: Date;
+  revisionCount: number;
+}
+
+export interface IMilestone {
+  _id: Types.ObjectId;
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate?: Date;
+  status: "funded" | "in_progress" | "submitted" | "released";
+  deliverableId: Types.ObjectId; // Work for the milestone is submitted through this deliverable
+  fundedAt: Date;
+  releasedAt?: Date;
+}
+
+export interface IMilestoneDraft {
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate?: Date;
+}
+
+// Terms an amendment can change, unset fields are left as they are
+export interface IContractTermsChange {
+  title?: string;
+  description?: string;
+  skills?: string[];
+  budgetAmount?: number; // Hourly rate on hourly contracts
+  deadline?: Date | null; // null removes the deadline
+  estimatedDuration?: number;
+}
+
+export interface IAmendment {
+  _id: Types.ObjectId;
+  proposedBy: "client" | "freelancer";
+  proposedAt: Date;
+  message?: string;
+  changes: IContractTermsChange;
+  status: "pending" | "accepted" | "rejected" | "withdrawn";
+  respondedAt?: Date;
+  responseNote?: string;
+  // Set on acceptance, the terms before the change and the version it produced
+  previous?: IContractTermsChange;
+  version?: number;
+}
+
+// Click-to-accept signature, both are required before work starts
+export interface ISignature {
+  name: string;
+  signedAt: Date;
+  ip: string;
+  userAgent: string;
+  termsVersion: number; // Version of the terms that was signed
+}
+
+export interface IDispute {
+  disputeId?: Types.ObjectId; // Keys the dispute's thread, missing on disputes filed before it existed
+  isDisputed: boolean;
+  filedBy: "client" | "freelancer";
+  filedAt: Date;
+  reason: string;
+  status: "open" | "under_review" | "resolved";
+  evidence: string[];
+  assignedAdmin?: Types.ObjectId;
+  agreementProposal?: {
+    proposedBy: "client" | "freelancer";
+    proposedAt: Date;
+    outcome: DisputeOutcome;
+    resolution: string;
+  };
+  outcome?: DisputeOutcome;
+  resolution?: string;
+  resolvedAt?: Date;
+  resolvedBy?: "admin" | "mutual_agreement";
+}
+
 export interface IContract extends Document {
   // References
   jobId: Types.ObjectId;
@@ -20,6 +110,7 @@ export interface IContract extends Document {
     type: "fixed" | "hourly";
     amount: number; // From proposal's proposedAmount
     currency: string;
+    weeklyHourCap?: number; // Hourly only, set by the client
   };
 
   duration: {
@@ -28,6 +119,25 @@ export interface IContract extends Document {
     estimatedDuration: number; // From proposal (in hours/days)
   };
 
+  // E-signatures
+  signatures: {
+    client?: ISignature;
+    freelancer?: ISignature;
+  };
+
+  // Deadline tracking, both reset whenever the deadline changes
+  deadlineReminderDays?: number; // Smallest reminder threshold already sent
+  overdueAt?: Date;
+  extensionRequest?: {
+    requestedAt: Date;
+    deadline: Date;
+    reason: string;
+  };
+
+  // Change orders, terms above are always the latest accepted version
+  termsVersion: number;
+  amendments: Types.DocumentArray<IAmendment>;
+
   // Work tracking
   status:
     | "active"
@@ -38,13 +148,14 @@ export interface IContract extends Document {
     | "disputed";
 
   // Deliverables & submissions
-  deliverables: Array<{
-    description: string;
-    submittedAt?: Date;
-    fileUrl?: string;
-    status: "pending" | "submitted" | "approved" | "revision_requested";
-    feedback?: string;
-  }>;
+  deliverables: Types.DocumentArray<IDeliverable>;
+
+  // Milestones (fixed-price only), amounts always sum to budget.amount
+  milestones: Types.DocumentArray<IMilestone>;
+  milestoneProposal?: {
+    proposedAt: Date;
+    milestones: IMilestoneDraft[]; // Replaces the milestones that have not been started
+  };
 
   // Completion details
   completionRequest?: {
@@ -54,13 +165,14 @@ export interface IContract extends Document {
   };
 
   completedAt?: Date;
-  completedBy?: "client" | "freelancer" | "mutual";
+  completedBy?: "client" | "freelancer" | "mutual" | "admin";
 
   // Cancellation
   cancellationRequest?: {
     requestedBy: "client" | "freelancer";
     requestedAt: Date;
     reason: string;
+    jobAction?: "reopen" | "close"; // What happens to the job once approved (client's choice)
     approvedBy?: "client" | "freelancer";
     approvedAt?: Date;
   };
@@ -68,19 +180,12 @@ export interface IContract extends Document {
   cancelledAt?: Date;
   cancellationReason?: string;
 
-  // Dispute handling
-  dispute?: {
-    isDisputed: boolean;
-    filedBy: "client" | "freelancer";
-    filedAt: Date;
-    reason: string;
-    status: "open" | "under_review" | "resolved";
-    resolution?: string;
-    resolvedAt?: Date;
-    resolvedBy?: "admin" | "mutual_agreement";
-  };
+  // Dispute handling, earlier resolved disputes move to pastDisputes when a new one is filed
+  dispute?: IDispute;
+  pastDisputes: IDispute[];
 
   // Reviews (after completion)
+  // clientReview is written by the client about the freelancer, freelancerReview the reverse
   reviews: {
     clientReview?: {
       rating: number; // 1-5
@@ -93,6 +198,9 @@ export interface IContract extends Document {
       comment: string;
       reviewedAt: Date;
     };
+
+    // Set once both reviews are in or the review window closes
+    publishedAt?: Date;
   };
 
   // Metadata
@@ -100,6 +208,122 @@ export interface IContract extends Document {
   updatedAt: Date;
 }
 
+const termsChangeSchema = new Schema<IContractTermsChange>(
+  {
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Title cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [5000, "Description cannot exceed 5000 characters"],
+    },
+    skills: {
+      type: [String],
+      default: undefined,
+    },
+    budgetAmount: {
+      type: Number,
+      min: 0,
+    },
+    deadline: Date,
+    estimatedDuration: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const signatureSchema = new Schema<ISignature>(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    signedAt: {
+      type: Date,
+      required: true,
+    },
+    ip: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    termsVersion: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+// shared by the current dispute and the resolved ones kept in pastDisputes
+const disputeFields = {
+  disputeId: {
+    type: Schema.Types.ObjectId,
+  },
+  isDisputed: {
+    type: Boolean,
+    default: false,
+  },
+  filedBy: {
+    type: String,
+    enum: ["client", "freelancer"],
+  },
+  filedAt: Date,
+  reason: {
+    type: String,
+    maxlength: 1000,
+  },
+  status: {
+    type: String,
+    enum: ["open", "under_review", "resolved"],
+  },
+  evidence: {
+    type: [String],
+    default: undefined,
+  },
+  assignedAdmin: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  agreementProposal: {
+    proposedBy: {
+      type: String,
+      enum: ["client", "freelancer"],
+    },
+    proposedAt: Date,
+    outcome: {
+      type: String,
+      enum: ["completed", "cancelled", "resumed"],
+    },
+    resolution: {
+      type: String,
+      maxlength: 2000,
+    },
+  },
+  outcome: {
+    type: String,
+    enum: ["completed", "cancelled", "resumed"],
+  },
+  resolution: {
+    type: String,
+    maxlength: 2000,
+  },
+  resolvedAt: Date,
+  resolvedBy: {
+    type: String,
+    enum: ["admin", "mutual_agreement"],
+  },
+};
+
 const contractSchema = new Schema<IContract>(
   {
     // References
@@ -173,6 +397,11 @@ const contractSchema = new Schema<IContract>(
         required: true,
         enum: ["USD", "NGN", "EUR", "GBP"],
       },
+      weeklyHourCap: {
+        type: Number,
+        min: [1, "Weekly hour cap must be at least 1 hour"],
+        max: [168, "Weekly hour cap cannot exceed 168 hours"],
+      },
     },
 
     // Timeline
@@ -189,6 +418,68 @@ const contractSchema = new Schema<IContract>(
       },
     },
 
+    // E-signatures
+    signatures: {
+      client: signatureSchema,
+      freelancer: signatureSchema,
+    },
+
+    // Deadline tracking
+    deadlineReminderDays: Number,
+    overdueAt: Date,
+
+    extensionRequest: {
+      requestedAt: Date,
+      deadline: Date,
+      reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, "Reason cannot exceed 500 characters"],
+      },
+    },
+
+    // Amendments
+    termsVersion: {
+      type: Number,
+      default: 1,
+    },
+
+    amendments: [
+      {
+        proposedBy: {
+          type: String,
+          enum: ["client", "freelancer"],
+          required: true,
+        },
+        proposedAt: {
+          type: Date,
+          required: true,
+        },
+        message: {
+          type: String,
+          trim: true,
+          maxlength: [1000, "Message cannot exceed 1000 characters"],
+        },
+        changes: {
+          type: termsChangeSchema,
+          required: true,
+        },
+        status: {
+          type: String,
+          enum: ["pending", "accepted", "rejected", "withdrawn"],
+          default: "pending",
+        },
+        respondedAt: Date,
+        responseNote: {
+          type: String,
+          trim: true,
+          maxlength: [1000, "Response note cannot exceed 1000 characters"],
+        },
+        previous: termsChangeSchema,
+        version: Number,
+      },
+    ],
+
     // Status
     status: {
       type: String,
@@ -210,18 +501,105 @@ const contractSchema = new Schema<IContract>(
         description: {
           type: String,
           required: true,
+          trim: true,
+          maxlength: [1000, "Deliverable description cannot exceed 1000 characters"],
         },
+        dueDate: Date,
         submittedAt: Date,
         fileUrl: String,
+        attachments: {
+          type: [String],
+          default: [],
+        },
+        submissionNote: {
+          type: String,
+          trim: true,
+          maxlength: [1000, "Submission note cannot exceed 1000 characters"],
+        },
         status: {
           type: String,
           enum: ["pending", "submitted", "approved", "revision_requested"],
           default: "pending",
         },
-        feedback: String,
+        feedback: {
+          type: String,
+          trim: true,
+          maxlength: [1000, "Feedback cannot exceed 1000 characters"],
+        },
+        reviewedAt: Date,
+        revisionCount: {
+          type: Number,
+          default: 0,
+        },
       },
     ],
 
+    // Milestones
+    milestones: [
+      {
+        title: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: [200, "Milestone title cannot exceed 200 characters"],
+        },
+        description: {
+          type: String,
+          trim: true,
+          maxlength: [1000, "Milestone description cannot exceed 1000 characters"],
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        dueDate: Date,
+        status: {
+          type: String,
+          enum: ["funded", "in_progress", "submitted", "released"],
+          default: "funded",
+        },
+        deliverableId: {
+          type: Schema.Types.ObjectId,
+          required: true,
+        },
+        fundedAt: {
+          type: Date,
+          required: true,
+        },
+        releasedAt: Date,
+      },
+    ],
+
+    milestoneProposal: {
+      proposedAt: Date,
+      milestones: {
+        type: [
+          {
+            _id: false,
+            title: {
+              type: String,
+              required: true,
+              trim: true,
+              maxlength: [200, "Milestone title cannot exceed 200 characters"],
+            },
+            description: {
+              type: String,
+              trim: true,
+              maxlength: [1000, "Milestone description cannot exceed 1000 characters"],
+            },
+            amount: {
+              type: Number,
+              required: true,
+              min: 0,
+            },
+            dueDate: Date,
+          },
+        ],
+        default: undefined,
+      },
+    },
+
     // Completion
     completionRequest: {
       requestedBy: {
@@ -236,7 +614,7 @@ const contractSchema = new Schema<IContract>(
 
     completedBy: {
       type: String,
-      enum: ["client", "freelancer", "mutual"],
+      enum: ["client", "freelancer", "mutual", "admin"],
     },
 
     // Cancellation
@@ -250,6 +628,10 @@ const contractSchema = new Schema<IContract>(
         type: String,
         maxlength: 500,
       },
+      jobAction: {
+        type: String,
+        enum: ["reopen", "close"],
+      },
       approvedBy: {
         type: String,
         enum: ["client", "freelancer"],
@@ -265,30 +647,11 @@ const contractSchema = new Schema<IContract>(
     },
 
     // Dispute
-    dispute: {
-      isDisputed: {
-        type: Boolean,
-        default: false,
-      },
-      filedBy: {
-        type: String,
-        enum: ["client", "freelancer"],
-      },
-      filedAt: Date,
-      reason: {
-        type: String,
-        maxlength: 1000,
-      },
-      status: {
-        type: String,
-        enum: ["open", "under_review", "resolved"],
-      },
-      resolution: String,
-      resolvedAt: Date,
-      resolvedBy: {
-        type: String,
-        enum: ["admin", "mutual_agreement"],
-      },
+    dispute: disputeFields,
+
+    pastDisputes: {
+      type: [new Schema(disputeFields, { _id: false })],
+      default: [],
     },
 
     // Reviews
@@ -320,6 +683,8 @@ const contractSchema = new Schema<IContract>(
 
         reviewedAt: Date,
       },
+
+      publishedAt: Date,
     },
   },
   {
@@ -331,6 +696,7 @@ const contractSchema = new Schema<IContract>(
 contractSchema.index({ clientId: 1, status: 1, createdAt: -1 });
 contractSchema.index({ freelancerId: 1, status: 1, createdAt: -1 });
 contractSchema.index({ status: 1, createdAt: -1 });
+contractSchema.index({ "dispute.status": 1, "dispute.filedAt": 1 });
 
 // Prevent duplicate active contracts for same job
 contractSchema.index(
@@ -0,0 +1,63 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// Dispute discussion is kept apart from the contract's chat conversation so
+// an admin can read and join it without access to the regular messages
+export interface IDisputeMessage extends Document {
+  contractId: Types.ObjectId;
+  disputeId?: Types.ObjectId; // The contract's dispute the message belongs to, missing on older threads
+  senderId: Types.ObjectId;
+  senderRole: "client" | "freelancer" | "admin";
+  content: string;
+  attachments: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const disputeMessageSchema = new Schema<IDisputeMessage>(
+  {
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+      required: true,
+    },
+    disputeId: {
+      type: Schema.Types.ObjectId,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    senderRole: {
+      type: String,
+      enum: ["client", "freelancer", "admin"],
+      required: true,
+    },
+    content: {
+      type: String,
+      required: [true, "Message content is required"],
+      trim: true,
+      maxlength: [5000, "Message cannot exceed 5000 characters"],
+    },
+    attachments: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: function (attachments: string[]) {
+          return attachments.length <= 5;
+        },
+        message: "Cannot exceed 5 attachments",
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+disputeMessageSchema.index({ contractId: 1, disputeId: 1, createdAt: 1 });
+
+export const DisputeMessage = model<IDisputeMessage>(
+  "DisputeMessage",
+  disputeMessageSchema
+);
@@ -1,5 +1,15 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+export const AVAILABILITY_STATUSES = ["available", "busy", "not-available"] as const;
+
+// ordered from weakest to strongest
+export const LANGUAGE_PROFICIENCIES = [
+  "basic",
+  "conversational",
+  "fluent",
+  "native",
+] as const;
+
 export interface IFreelancerProfile extends Document {
   freelancerId: Types.ObjectId;
   bio: string;
@@ -152,7 +162,7 @@ const freelancerProfileSchema = new Schema<IFreelancerProfile>(
       status: {
         type: String,
         required: true,
-        enum: ["available", "busy", "not-available"],
+        enum: AVAILABILITY_STATUSES,
         default: "available",
       },
       hoursPerWeek: {
@@ -240,7 +250,7 @@ const freelancerProfileSchema = new Schema<IFreelancerProfile>(
           proficiency: {
             type: String,
             required: true,
-            enum: ["basic", "conversational", "fluent", "native"],
+            enum: LANGUAGE_PROFICIENCIES,
           },
         },
       ],
@@ -0,0 +1,68 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const NOT_INTERESTED_REASONS = [
+  "budget_too_low",
+  "wrong_skills",
+  "unclear_scope",
+  "other",
+] as const;
+
+// A job a freelancer marked "not interested". The budget and skills are kept
+// so the reasons can steer matching after the job itself is gone.
+export interface IHiddenJob extends Document {
+  freelancerId: Types.ObjectId;
+  jobId: Types.ObjectId;
+  reason: (typeof NOT_INTERESTED_REASONS)[number];
+  comment?: string;
+  budgetType: "fixed" | "hourly";
+  budgetValue?: number; // Fixed amount, or the top hourly rate
+  skills: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const hiddenJobSchema = new Schema<IHiddenJob>(
+  {
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: "Job",
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: [true, "A reason is required"],
+      enum: {
+        values: NOT_INTERESTED_REASONS,
+        message: "{VALUE} is not a valid reason",
+      },
+    },
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Comment cannot exceed 500 characters"],
+    },
+    budgetType: {
+      type: String,
+      enum: ["fixed", "hourly"],
+      required: true,
+    },
+    budgetValue: Number,
+    skills: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+hiddenJobSchema.index({ freelancerId: 1, jobId: 1 }, { unique: true });
+hiddenJobSchema.index({ freelancerId: 1, reason: 1 });
+
+export const HiddenJob = model<IHiddenJob>("HiddenJob", hiddenJobSchema);
@@ -0,0 +1,65 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A client asking a specific freelancer to send a proposal. Invite-only and
+// private jobs only accept proposals from freelancers who accepted one.
+export interface IInvitation extends Document {
+  jobId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  freelancerId: Types.ObjectId;
+  note?: string;
+  status: "pending" | "accepted" | "declined";
+  respondedAt?: Date;
+  declineReason?: string;
+  proposalId?: Types.ObjectId; // Set once the freelancer sends a proposal
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: "Job",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Note cannot exceed 1000 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "declined"],
+      default: "pending",
+    },
+    respondedAt: Date,
+    declineReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    proposalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Proposal",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One invitation per freelancer per job
+invitationSchema.index({ jobId: 1, freelancerId: 1 }, { unique: true });
+invitationSchema.index({ freelancerId: 1, status: 1, createdAt: -1 });
+
+export const Invitation = model<IInvitation>("Invitation", invitationSchema);
@@ -0,0 +1,196 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IBillingParty {
+  userId: Types.ObjectId;
+  name: string;
+  email?: string; // Missing when the user account no longer exists
+  companyName?: string;
+  website?: string;
+  title?: string; // Freelancer's profile title
+  country?: string;
+  city?: string;
+}
+
+export interface IInvoiceLineItem {
+  description: string;
+  quantity: number; // Hours for timesheets, 1 otherwise
+  unitPrice: number;
+  amount: number;
+}
+
+export interface IInvoice extends Document {
+  invoiceNumber: string; // e.g. INV-000042, sequential per client
+  sequence: number;
+  contractId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  freelancerId: Types.ObjectId;
+  ledgerTransactionId: Types.ObjectId; // The escrow release this bills
+  milestoneId?: Types.ObjectId;
+  timesheetId?: Types.ObjectId;
+
+  // Billing details snapshot at issue time
+  client: IBillingParty;
+  freelancer: IBillingParty;
+
+  projectTitle: string;
+  lineItems: IInvoiceLineItem[];
+  currency: string;
+  subtotal: number; // Charged to the client
+  platformFee: number;
+  platformFeePercent: number;
+  freelancerNet: number; // Subtotal minus platform fee
+
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Per-client counter behind invoiceNumber
+export interface IInvoiceCounter extends Document {
+  clientId: Types.ObjectId;
+  sequence: number;
+}
+
+const billingPartySchema = new Schema<IBillingParty>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    email: String,
+    companyName: String,
+    website: String,
+    title: String,
+    country: String,
+    city: String,
+  },
+  { _id: false }
+);
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    invoiceNumber: {
+      type: String,
+      required: true,
+    },
+    sequence: {
+      type: Number,
+      required: true,
+    },
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    ledgerTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "LedgerTransaction",
+      required: true,
+      unique: true,
+    },
+    milestoneId: Schema.Types.ObjectId,
+    timesheetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Timesheet",
+    },
+    client: {
+      type: billingPartySchema,
+      required: true,
+    },
+    freelancer: {
+      type: billingPartySchema,
+      required: true,
+    },
+    projectTitle: {
+      type: String,
+      required: true,
+    },
+    lineItems: [
+      {
+        _id: false,
+        description: {
+          type: String,
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+        },
+        unitPrice: {
+          type: Number,
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+        },
+      },
+    ],
+    currency: {
+      type: String,
+      required: true,
+      enum: ["USD", "NGN", "EUR", "GBP"],
+    },
+    subtotal: {
+      type: Number,
+      required: true,
+    },
+    platformFee: {
+      type: Number,
+      required: true,
+    },
+    platformFeePercent: {
+      type: Number,
+      required: true,
+    },
+    freelancerNet: {
+      type: Number,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+invoiceSchema.index({ clientId: 1, sequence: 1 }, { unique: true });
+invoiceSchema.index({ freelancerId: 1, issuedAt: -1 });
+invoiceSchema.index({ contractId: 1, issuedAt: -1 });
+
+const invoiceCounterSchema = new Schema<IInvoiceCounter>({
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    unique: true,
+  },
+  sequence: {
+    type: Number,
+    default: 0,
+  },
+});
+
+export const Invoice = model<IInvoice>("Invoice", invoiceSchema);
+export const InvoiceCounter = model<IInvoiceCounter>(
+  "InvoiceCounter",
+  invoiceCounterSchema
+);
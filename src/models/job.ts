@@ -1,5 +1,37 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+export const JOB_CATEGORIES = [
+  "web-development",
+  "mobile-development",
+  "design",
+  "writing",
+  "marketing",
+  "data-science",
+  "other",
+] as const;
+
+export const EXPERIENCE_LEVELS = ["entry", "intermediate", "expert"] as const;
+
+export const DURATION_TYPES = ["short", "medium", "long"] as const;
+
+export const SCREENING_QUESTION_TYPES = [
+  "short_text",
+  "long_text",
+  "yes_no",
+  "multiple_choice",
+  "url",
+] as const;
+
+export const MAX_SCREENING_QUESTIONS = 10;
+
+export interface IScreeningQuestion {
+  _id: Types.ObjectId;
+  prompt: string;
+  type: (typeof SCREENING_QUESTION_TYPES)[number];
+  required: boolean;
+  options?: string[]; // Choices for multiple_choice
+}
+
 export interface IJob extends Document {
   title: string;
   description: string;
@@ -33,41 +65,85 @@ export interface IJob extends Document {
     | "cancelled"
     | "closed";
   proposals: string[];
+  screeningQuestions: IScreeningQuestion[];
+
+  // Who can find the job: invite_only is listed to invitees, private to no one
+  visibility: "public" | "invite_only" | "private";
+
+  // Lifecycle
+  publishAt?: Date; // Scheduled go-live time for a draft
+  publishedAt?: Date;
+  expiresAt?: Date; // Open jobs close automatically after this
+  closedAt?: Date;
+  repostCount: number;
+
   createdAt: Date;
   updatedAt: Date;
 }
 
+// update validators run with the query as `this`, only a document knows its status
+const isDraft = (context: unknown): boolean =>
+  context instanceof Document && (context as IJob).status === "draft";
+
+const screeningQuestionSchema = new Schema<IScreeningQuestion>({
+  prompt: {
+    type: String,
+    required: [true, "Question text is required"],
+    trim: true,
+    maxlength: [300, "Question cannot exceed 300 characters"],
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: {
+      values: SCREENING_QUESTION_TYPES,
+      message: "{VALUE} is not a valid question type",
+    },
+  },
+  required: {
+    type: Boolean,
+    default: false,
+  },
+  options: {
+    type: [String],
+    default: undefined,
+  },
+});
+
 const jobSchema = new Schema<IJob>(
   {
     title: {
       type: String,
       required: [true, "Job title is required"],
       trim: true,
-      minlength: [10, "Title must be at least 10 characters"],
       maxlength: [100, "Title cannot exceed 100 characters"],
+      // drafts can be saved half-written, the length is checked on publish
+      validate: {
+        validator: function (title: string) {
+          return isDraft(this) || title.length >= 10;
+        },
+        message: "Title must be at least 10 characters",
+      },
     },
 
     description: {
       type: String,
       required: [true, "Job description is required"],
       trim: true,
-      minlength: [100, "Description must be at least 100 characters"],
       maxlength: [5000, "Description cannot exceed 5000 characters"],
+      validate: {
+        validator: function (description: string) {
+          return isDraft(this) || description.length >= 100;
+        },
+        message: "Description must be at least 100 characters",
+      },
     },
 
     category: {
       type: String,
       required: [true, "Category is required"],
       enum: {
-        values: [
-          "web-development",
-          "mobile-development",
-          "design",
-          "writing",
-          "marketing",
-          "data-science",
-          "other",
-        ],
+        values: JOB_CATEGORIES,
         message: "{VALUE} is not a valid category",
       },
     },
@@ -112,7 +188,7 @@ const jobSchema = new Schema<IJob>(
       type: String,
       required: [true, "Experience level is required"],
       enum: {
-        values: ["entry", "intermediate", "expert"],
+        values: EXPERIENCE_LEVELS,
         message: "{VALUE} is not a valid experience level",
       },
     },
@@ -121,7 +197,7 @@ const jobSchema = new Schema<IJob>(
       type: {
         type: String,
         required: true,
-        enum: ["short", "medium", "long"],
+        enum: DURATION_TYPES,
       },
       estimatedHours: {
         type: Number,
@@ -153,6 +229,36 @@ const jobSchema = new Schema<IJob>(
         ref: "Proposal",
       },
     ],
+
+    screeningQuestions: {
+      type: [screeningQuestionSchema],
+      default: [],
+      validate: {
+        validator: function (questions: IScreeningQuestion[]) {
+          return questions.length <= MAX_SCREENING_QUESTIONS;
+        },
+        message: `Cannot exceed ${MAX_SCREENING_QUESTIONS} screening questions`,
+      },
+    },
+
+    visibility: {
+      type: String,
+      enum: {
+        values: ["public", "invite_only", "private"],
+        message: "{VALUE} is not a valid visibility",
+      },
+      default: "public",
+    },
+
+    // Lifecycle
+    publishAt: Date,
+    publishedAt: Date,
+    expiresAt: Date,
+    closedAt: Date,
+    repostCount: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -164,6 +270,8 @@ jobSchema.index({ category: 1, status: 1 });
 jobSchema.index({ skills: 1 });
 jobSchema.index({ clientId: 1 });
 jobSchema.index({ createdAt: -1 });
+jobSchema.index({ status: 1, publishAt: 1 });
+jobSchema.index({ status: 1, expiresAt: 1 });
 
 // Custom validation for budget
 jobSchema.pre("validate", function () {
@@ -0,0 +1,163 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// client_funding and payout stand for money outside the platform (card charges,
+// bank payouts) so every movement in or out still has two sides
+export type LedgerAccountType =
+  | "client_funding"
+  | "escrow"
+  | "wallet"
+  | "payout"
+  | "platform_revenue";
+
+export type LedgerTransactionType =
+  | "escrow_fund"
+  | "escrow_release"
+  | "escrow_refund"
+  | "withdrawal"
+  | "reversal"; // Undoes a refund or withdrawal the provider failed to send
+
+export interface ILedgerAccount extends Document {
+  type: LedgerAccountType;
+  ownerId?: Types.ObjectId; // User for client_funding/wallet/payout, Contract for escrow
+  currency: "USD" | "NGN" | "EUR" | "GBP";
+  version: number; // Bumped on every debit so concurrent debits conflict
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ILedgerEntry {
+  accountId: Types.ObjectId;
+  direction: "debit" | "credit";
+  amount: number; // Minor units (cents/kobo)
+}
+
+export interface ILedgerTransaction extends Document {
+  type: LedgerTransactionType;
+  idempotencyKey: string;
+  currency: "USD" | "NGN" | "EUR" | "GBP";
+  entries: ILedgerEntry[];
+
+  // What the money moved for
+  contractId?: Types.ObjectId;
+  milestoneId?: Types.ObjectId;
+  timesheetId?: Types.ObjectId;
+  clientId?: Types.ObjectId;
+  freelancerId?: Types.ObjectId;
+
+  providerReference?: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ledgerAccountSchema = new Schema<ILedgerAccount>(
+  {
+    type: {
+      type: String,
+      enum: ["client_funding", "escrow", "wallet", "payout", "platform_revenue"],
+      required: true,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+    },
+    currency: {
+      type: String,
+      enum: ["USD", "NGN", "EUR", "GBP"],
+      required: true,
+    },
+    version: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ledgerAccountSchema.index({ type: 1, ownerId: 1, currency: 1 }, { unique: true });
+
+const ledgerTransactionSchema = new Schema<ILedgerTransaction>(
+  {
+    type: {
+      type: String,
+      enum: [
+        "escrow_fund",
+        "escrow_release",
+        "escrow_refund",
+        "withdrawal",
+        "reversal",
+      ],
+      required: true,
+    },
+    idempotencyKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    currency: {
+      type: String,
+      enum: ["USD", "NGN", "EUR", "GBP"],
+      required: true,
+    },
+    entries: [
+      {
+        _id: false,
+        accountId: {
+          type: Schema.Types.ObjectId,
+          ref: "LedgerAccount",
+          required: true,
+        },
+        direction: {
+          type: String,
+          enum: ["debit", "credit"],
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: 1,
+        },
+      },
+    ],
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+    },
+    milestoneId: Schema.Types.ObjectId,
+    timesheetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Timesheet",
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    providerReference: String,
+    description: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ledgerTransactionSchema.index({ "entries.accountId": 1 });
+ledgerTransactionSchema.index({ contractId: 1, createdAt: -1 });
+ledgerTransactionSchema.index({ freelancerId: 1, type: 1 });
+ledgerTransactionSchema.index({ clientId: 1, type: 1 });
+
+export const LedgerAccount = model<ILedgerAccount>(
+  "LedgerAccount",
+  ledgerAccountSchema
+);
+export const LedgerTransaction = model<ILedgerTransaction>(
+  "LedgerTransaction",
+  ledgerTransactionSchema
+);
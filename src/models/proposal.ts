@@ -1,5 +1,28 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+// Answer to one of the job's screening questions, yes/no answers are booleans
+export interface IScreeningAnswer {
+  questionId: Types.ObjectId;
+  value: string | boolean;
+}
+
+// The proposal as it stood before an edit, kept so the client can see what changed
+export interface IProposalRevision {
+  revision: number;
+  coverLetter: string;
+  proposedBudget: {
+    min: number;
+    max: number;
+  };
+  estimatedTime: string;
+  availability: string;
+  portfolioLinks?: string[];
+  questions?: string;
+  answers: IScreeningAnswer[];
+  attachments?: string[];
+  replacedAt: Date; // When the edit that superseded it was made
+}
+
 export interface IProposal extends Document {
   jobId: Types.ObjectId;
   freelancerId: Types.ObjectId;
@@ -17,8 +40,14 @@ export interface IProposal extends Document {
   availability: "immediately" | "few-days" | "1-week" | "2-weeks";
   portfolioLinks?: string[];
   questions?: string;
+  answers: IScreeningAnswer[];
   attachments?: string[];
   status: "pending" | "accepted" | "rejected" | "withdrawn";
+  revision: number; // Starts at 1, goes up with every edit
+  revisions: IProposalRevision[]; // Earlier versions, oldest first
+  viewedByClientAt?: Date; // Edits stop once the client has opened it
+  withdrawnAt?: Date;
+  withdrawalReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -107,6 +136,17 @@ const proposalSchema = new Schema<IProposal>(
       maxlength: [1000, "Questions cannot exceed 1000 characters"],
     },
 
+    answers: {
+      type: [
+        {
+          _id: false,
+          questionId: { type: Schema.Types.ObjectId, required: true },
+          value: { type: Schema.Types.Mixed, required: true },
+        },
+      ],
+      default: [],
+    },
+
     attachments: {
       type: [String],
       validate: {
@@ -122,6 +162,50 @@ const proposalSchema = new Schema<IProposal>(
       enum: ["pending", "accepted", "rejected", "withdrawn"],
       default: "pending",
     },
+
+    revision: {
+      type: Number,
+      default: 1,
+    },
+
+    revisions: {
+      type: [
+        {
+          _id: false,
+          revision: { type: Number, required: true },
+          coverLetter: String,
+          proposedBudget: { min: Number, max: Number },
+          estimatedTime: String,
+          availability: String,
+          portfolioLinks: { type: [String], default: undefined },
+          questions: String,
+          answers: {
+            type: [
+              {
+                _id: false,
+                questionId: { type: Schema.Types.ObjectId, required: true },
+                value: { type: Schema.Types.Mixed, required: true },
+              },
+            ],
+            default: [],
+          },
+          attachments: { type: [String], default: undefined },
+          replacedAt: { type: Date, required: true },
+        },
+      ],
+      default: [],
+      select: false,
+    },
+
+    viewedByClientAt: Date,
+
+    withdrawnAt: Date,
+
+    withdrawalReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Withdrawal reason cannot exceed 500 characters"],
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,71 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const MAX_PROPOSAL_LABELS = 10;
+
+// A client's private sorting of a proposal, kept apart so freelancers never see it
+export interface IProposalTriage extends Document {
+  proposalId: Types.ObjectId;
+  jobId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  shortlisted: boolean;
+  archived: boolean;
+  note?: string;
+  labels: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const proposalTriageSchema = new Schema<IProposalTriage>(
+  {
+    proposalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Proposal",
+      required: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: "Job",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    shortlisted: {
+      type: Boolean,
+      default: false,
+    },
+    archived: {
+      type: Boolean,
+      default: false,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [2000, "Note cannot exceed 2000 characters"],
+    },
+    labels: {
+      type: [
+        {
+          type: String,
+          trim: true,
+          maxlength: [30, "Labels cannot exceed 30 characters"],
+        },
+      ],
+      default: [],
+      validate: {
+        validator: (labels: string[]) => labels.length <= MAX_PROPOSAL_LABELS,
+        message: `Cannot exceed ${MAX_PROPOSAL_LABELS} labels`,
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+proposalTriageSchema.index({ proposalId: 1 }, { unique: true });
+proposalTriageSchema.index({ jobId: 1, shortlisted: 1, archived: 1 });
+
+export const ProposalTriage = model<IProposalTriage>("ProposalTriage", proposalTriageSchema);
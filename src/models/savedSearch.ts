@@ -0,0 +1,67 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const ALERT_FREQUENCIES = ["instant", "daily", "weekly"] as const;
+
+// A named search-jobs query a freelancer gets alerted about as new jobs match it
+export interface ISavedSearch extends Document {
+  freelancerId: Types.ObjectId;
+  name: string;
+  query: Record<string, string>; // search-jobs query parameters
+  alertFrequency: (typeof ALERT_FREQUENCIES)[number];
+  paused: boolean;
+  lastCheckedAt: Date; // Jobs published after this are new to the search
+  lastAlertedAt?: Date;
+  alertedJobIds: Types.ObjectId[]; // Never alerted twice, even if reposted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearch>(
+  {
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [100, "Name cannot exceed 100 characters"],
+    },
+    query: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    alertFrequency: {
+      type: String,
+      enum: {
+        values: ALERT_FREQUENCIES,
+        message: "{VALUE} is not a valid alert frequency",
+      },
+      default: "daily",
+    },
+    paused: {
+      type: Boolean,
+      default: false,
+    },
+    lastCheckedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastAlertedAt: Date,
+    alertedJobIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+savedSearchSchema.index({ freelancerId: 1, name: 1 }, { unique: true });
+savedSearchSchema.index({ paused: 1, alertFrequency: 1, lastCheckedAt: 1 });
+
+export const SavedSearch = model<ISavedSearch>("SavedSearch", savedSearchSchema);
@@ -0,0 +1,81 @@
+import { Schema, model, Document } from "mongoose";
+import { JOB_CATEGORIES } from "./job.js";
+
+/**
+ * The form spellings of a skill are compared in, so "ReactJS", "react.js"
+ * and "React JS" all come out as "reactjs"
+ */
+export const toSkillKey = (skill: string): string =>
+  skill.toLowerCase().replace(/[\s._-]+/g, "");
+
+// A catalogued skill that free-form skills on jobs and profiles are normalized to
+export interface ISkill extends Document {
+  slug: string; // Canonical id, e.g. "react"
+  name: string; // How the skill is written on jobs and profiles
+  aliases: string[]; // Other spellings people use
+  keys: string[]; // toSkillKey of the name and every alias
+  category: (typeof JOB_CATEGORIES)[number];
+  parent?: string; // Slug of the broader skill this one builds on
+  related: string[]; // Slugs of skills that transfer to this one
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const skillSchema = new Schema<ISkill>(
+  {
+    slug: {
+      type: String,
+      required: [true, "Slug is required"],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only use lowercase letters, digits and dashes"],
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [50, "Name cannot exceed 50 characters"],
+    },
+    aliases: {
+      type: [String],
+      default: [],
+    },
+    keys: {
+      type: [String],
+      default: [],
+    },
+    category: {
+      type: String,
+      required: [true, "Category is required"],
+      enum: {
+        values: JOB_CATEGORIES,
+        message: "{VALUE} is not a valid category",
+      },
+    },
+    parent: String,
+    related: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// one spelling can only ever point at one skill
+skillSchema.index({ keys: 1 }, { unique: true });
+skillSchema.index({ category: 1 });
+
+skillSchema.pre("validate", function () {
+  this.aliases = [...new Set(this.aliases.map((alias) => alias.trim()).filter(Boolean))];
+  this.keys = [...new Set([this.name, ...this.aliases].map(toSkillKey).filter(Boolean))];
+  this.related = [...new Set(this.related)].filter((slug) => slug !== this.slug);
+
+  if (this.parent === this.slug) {
+    throw new Error("A skill cannot be its own parent");
+  }
+});
+
+export const Skill = model<ISkill>("Skill", skillSchema);
@@ -0,0 +1,144 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A single block of logged work on an hourly contract
+export interface ITimeEntry extends Document {
+  contractId: Types.ObjectId;
+  freelancerId: Types.ObjectId;
+  date: Date;
+  weekStart: Date; // Monday 00:00 UTC of the entry's week
+  durationMinutes: number;
+  memo: string;
+  deliverableId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One week of entries submitted for the client's approval
+export interface ITimesheet extends Document {
+  contractId: Types.ObjectId;
+  freelancerId: Types.ObjectId;
+  clientId: Types.ObjectId;
+  weekStart: Date;
+  totalMinutes: number;
+  hourlyRate: number; // Contract rate at submission
+  amount: number; // Billable amount, totalMinutes / 60 * hourlyRate
+  currency: string;
+  status: "submitted" | "approved" | "disputed";
+  submittedAt: Date;
+  reviewedAt?: Date;
+  disputeReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timeEntrySchema = new Schema<ITimeEntry>(
+  {
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+      required: true,
+    },
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    date: {
+      type: Date,
+      required: [true, "Date is required"],
+    },
+    weekStart: {
+      type: Date,
+      required: true,
+    },
+    durationMinutes: {
+      type: Number,
+      required: [true, "Duration is required"],
+      min: [1, "Duration must be at least 1 minute"],
+      max: [1440, "Duration cannot exceed 24 hours"],
+    },
+    memo: {
+      type: String,
+      required: [true, "Memo is required"],
+      trim: true,
+      maxlength: [500, "Memo cannot exceed 500 characters"],
+    },
+    deliverableId: {
+      type: Schema.Types.ObjectId,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+timeEntrySchema.index({ contractId: 1, weekStart: 1, date: 1 });
+
+const timesheetSchema = new Schema<ITimesheet>(
+  {
+    contractId: {
+      type: Schema.Types.ObjectId,
+      ref: "Contract",
+      required: true,
+    },
+    freelancerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    clientId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    weekStart: {
+      type: Date,
+      required: true,
+    },
+    totalMinutes: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    hourlyRate: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      enum: ["USD", "NGN", "EUR", "GBP"],
+    },
+    status: {
+      type: String,
+      enum: ["submitted", "approved", "disputed"],
+      default: "submitted",
+    },
+    submittedAt: {
+      type: Date,
+      required: true,
+    },
+    reviewedAt: Date,
+    disputeReason: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Dispute reason cannot exceed 1000 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// one timesheet per contract week
+timesheetSchema.index({ contractId: 1, weekStart: 1 }, { unique: true });
+timesheetSchema.index({ contractId: 1, status: 1 });
+
+export const TimeEntry = model<ITimeEntry>("TimeEntry", timeEntrySchema);
+export const Timesheet = model<ITimesheet>("Timesheet", timesheetSchema);
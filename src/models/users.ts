@@ -2,6 +2,12 @@ import mongoose from "mongoose";
 
 const { Schema } = mongoose;
 
+export const USER_ROLES = ["freelancer", "client", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// roles a user may pick for themselves at signup; admins are promoted manually
+export const SELF_ASSIGNABLE_ROLES: readonly UserRole[] = ["freelancer", "client"];
+
 const userSchema = new Schema({
   firstName: {
     type: String,
@@ -25,6 +31,7 @@ const userSchema = new Schema({
   },
   role: {
     type: String,
+    enum: USER_ROLES,
     default: "freelancer",
   },
   refreshToken: String,
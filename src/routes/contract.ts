@@ -1,13 +1,180 @@
 import express from "express";
 import { verifyToken } from "../middlewares/middleware.js";
-import { createContract, getContractByConversation, getContract } from "../controllers/contract.js";
+import { deliverableUpload } from "../config/upload.js";
+import {
+  createContract,
+  getContractByConversation,
+  getContract,
+  getMyContracts,
+  getContractDashboard,
+  getContractDocument,
+  signContract,
+  addDeliverables,
+  submitDeliverable,
+  approveDeliverable,
+  requestDeliverableRevision,
+  proposeMilestones,
+  approveMilestones,
+  rejectMilestones,
+  startMilestone,
+  setWeeklyHourCap,
+  getContractSummary,
+  proposeAmendment,
+  acceptAmendment,
+  rejectAmendment,
+  withdrawAmendment,
+  requestDeadlineExtension,
+  approveDeadlineExtension,
+  rejectDeadlineExtension,
+  requestContractCompletion,
+  acceptContractCompletion,
+  declineContractCompletion,
+  requestContractCancellation,
+  approveContractCancellation,
+  rejectContractCancellation,
+  withdrawContractCancellation,
+} from "../controllers/contract.js";
 
 const router = express.Router();
 
 router.post("/proposal/:conversationId/hire", verifyToken, createContract);
 
+// registered before /:conversationId so the paths are not read as an ID
+router.get("/mine", verifyToken, getMyContracts);
+
+router.get("/dashboard", verifyToken, getContractDashboard);
+
 router.get("/:conversationId", verifyToken, getContractByConversation);
 
 router.get("/id/:contractId", verifyToken, getContract);
 
+router.get("/id/:contractId/summary", verifyToken, getContractSummary);
+
+router.get("/id/:contractId/document", verifyToken, getContractDocument);
+
+router.post("/id/:contractId/sign", verifyToken, signContract);
+
+router.patch("/id/:contractId/hour-cap", verifyToken, setWeeklyHourCap);
+
+router.post("/id/:contractId/deliverables", verifyToken, addDeliverables);
+
+router.patch(
+  "/id/:contractId/deliverables/:deliverableId/submit",
+  verifyToken,
+  deliverableUpload.array("files", 5),
+  submitDeliverable
+);
+
+router.patch(
+  "/id/:contractId/deliverables/:deliverableId/approve",
+  verifyToken,
+  approveDeliverable
+);
+
+router.patch(
+  "/id/:contractId/deliverables/:deliverableId/request-revision",
+  verifyToken,
+  requestDeliverableRevision
+);
+
+router.post("/id/:contractId/milestones", verifyToken, proposeMilestones);
+
+router.patch(
+  "/id/:contractId/milestones/approve",
+  verifyToken,
+  approveMilestones
+);
+
+router.patch(
+  "/id/:contractId/milestones/reject",
+  verifyToken,
+  rejectMilestones
+);
+
+router.patch(
+  "/id/:contractId/milestones/:milestoneId/start",
+  verifyToken,
+  startMilestone
+);
+
+router.post("/id/:contractId/amendments", verifyToken, proposeAmendment);
+
+router.patch(
+  "/id/:contractId/amendments/:amendmentId/accept",
+  verifyToken,
+  acceptAmendment
+);
+
+router.patch(
+  "/id/:contractId/amendments/:amendmentId/reject",
+  verifyToken,
+  rejectAmendment
+);
+
+router.patch(
+  "/id/:contractId/amendments/:amendmentId/withdraw",
+  verifyToken,
+  withdrawAmendment
+);
+
+router.post(
+  "/id/:contractId/extension",
+  verifyToken,
+  requestDeadlineExtension
+);
+
+router.patch(
+  "/id/:contractId/extension/approve",
+  verifyToken,
+  approveDeadlineExtension
+);
+
+router.patch(
+  "/id/:contractId/extension/reject",
+  verifyToken,
+  rejectDeadlineExtension
+);
+
+router.post(
+  "/id/:contractId/completion",
+  verifyToken,
+  requestContractCompletion
+);
+
+router.patch(
+  "/id/:contractId/completion/accept",
+  verifyToken,
+  acceptContractCompletion
+);
+
+router.patch(
+  "/id/:contractId/completion/decline",
+  verifyToken,
+  declineContractCompletion
+);
+
+router.post(
+  "/id/:contractId/cancellation",
+  verifyToken,
+  requestContractCancellation
+);
+
+router.patch(
+  "/id/:contractId/cancellation/approve",
+  verifyToken,
+  approveContractCancellation
+);
+
+router.patch(
+  "/id/:contractId/cancellation/reject",
+  verifyToken,
+  rejectContractCancellation
+);
+
+router.patch(
+  "/id/:contractId/cancellation/withdraw",
+  verifyToken,
+  withdrawContractCancellation
+);
+
 export default router;
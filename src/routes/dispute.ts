@@ -0,0 +1,62 @@
+import express from "express";
+import { verifyToken, requireRole } from "../middlewares/middleware.js";
+import { disputeEvidenceUpload } from "../config/upload.js";
+import {
+  fileDispute,
+  getDispute,
+  postDisputeMessage,
+  getDisputeMessages,
+  proposeDisputeAgreement,
+  acceptDisputeAgreement,
+  getDisputeQueue,
+  takeDisputeForReview,
+  resolveDispute,
+} from "../controllers/dispute.js";
+
+const router = express.Router();
+
+// admin queue
+router.get("/admin/queue", verifyToken, requireRole("admin"), getDisputeQueue);
+
+router.patch(
+  "/admin/:contractId/review",
+  verifyToken,
+  requireRole("admin"),
+  takeDisputeForReview
+);
+
+router.patch(
+  "/admin/:contractId/resolve",
+  verifyToken,
+  requireRole("admin"),
+  resolveDispute
+);
+
+// contract parties
+router.post(
+  "/:contractId",
+  verifyToken,
+  disputeEvidenceUpload.array("evidence", 5),
+  fileDispute
+);
+
+router.get("/:contractId", verifyToken, getDispute);
+
+router.post(
+  "/:contractId/messages",
+  verifyToken,
+  disputeEvidenceUpload.array("attachments", 5),
+  postDisputeMessage
+);
+
+router.get("/:contractId/messages", verifyToken, getDisputeMessages);
+
+router.post("/:contractId/agreement", verifyToken, proposeDisputeAgreement);
+
+router.patch(
+  "/:contractId/agreement/accept",
+  verifyToken,
+  acceptDisputeAgreement
+);
+
+export default router;
@@ -6,14 +6,32 @@ import {
   postFreelancerProfile,
   updateFreelancerProfile,
   uploadProfilePicture,
+  searchFreelancers,
 } from "../controllers/freelancer.js";
 import { searchJobs } from "../controllers/job.js";
-import { verifyToken } from "../middlewares/middleware.js";
+import {
+  getBookmarks,
+  bookmarkJob,
+  updateBookmark,
+  removeBookmark,
+  getHiddenJobs,
+  markNotInterested,
+  unhideJob,
+} from "../controllers/jobFeedback.js";
+import { verifyToken, optionalToken, requireRole } from "../middlewares/middleware.js";
 import { rateLimiter } from "../middlewares/rateLimiter.js";
 import { upload } from "../config/upload.js";
 
 const router = express.Router();
 
+router.get(
+  "/search",
+  verifyToken,
+  requireRole("client"),
+  rateLimiter("searchFreelancers"),
+  searchFreelancers,
+);
+
 router.post("/profile/:userId", postFreelancerProfile);
 
 router.get("/profile/:freelancerId", verifyToken, getFreelancerProfile);
@@ -37,6 +55,25 @@ router.get(
 
 router.get("/my-jobs", verifyToken, getFreelancerAcceptedJobs);
 
-router.get("/search-jobs", rateLimiter("matchedJobs"), searchJobs);
+router.get("/search-jobs", optionalToken, rateLimiter("matchedJobs"), searchJobs);
+
+router.get("/bookmarks", verifyToken, requireRole("freelancer"), getBookmarks);
+
+router.post("/bookmarks/:jobId", verifyToken, requireRole("freelancer"), bookmarkJob);
+
+router.patch("/bookmarks/:jobId", verifyToken, requireRole("freelancer"), updateBookmark);
+
+router.delete("/bookmarks/:jobId", verifyToken, requireRole("freelancer"), removeBookmark);
+
+router.get("/hidden-jobs", verifyToken, requireRole("freelancer"), getHiddenJobs);
+
+router.post(
+  "/hidden-jobs/:jobId",
+  verifyToken,
+  requireRole("freelancer"),
+  markNotInterested,
+);
+
+router.delete("/hidden-jobs/:jobId", verifyToken, requireRole("freelancer"), unhideJob);
 
 export default router;
@@ -0,0 +1,23 @@
+import express from "express";
+import { verifyToken, requireRole } from "../middlewares/middleware.js";
+import {
+  inviteFreelancers,
+  getJobInvitations,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+} from "../controllers/invitation.js";
+
+const router = express.Router();
+
+router.get("/mine", verifyToken, requireRole("freelancer"), getMyInvitations);
+
+router.post("/job/:jobId", verifyToken, requireRole("client"), inviteFreelancers);
+
+router.get("/job/:jobId", verifyToken, getJobInvitations);
+
+router.patch("/:invitationId/accept", verifyToken, acceptInvitation);
+
+router.patch("/:invitationId/decline", verifyToken, declineInvitation);
+
+export default router;
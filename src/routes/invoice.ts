@@ -0,0 +1,20 @@
+import express from "express";
+import { verifyToken } from "../middlewares/middleware.js";
+import {
+  getMyInvoices,
+  getContractInvoices,
+  getInvoice,
+  downloadInvoicePdf,
+} from "../controllers/invoice.js";
+
+const router = express.Router();
+
+router.get("/mine", verifyToken, getMyInvoices);
+
+router.get("/contract/:contractId", verifyToken, getContractInvoices);
+
+router.get("/:invoiceId", verifyToken, getInvoice);
+
+router.get("/:invoiceId/pdf", verifyToken, downloadInvoicePdf);
+
+export default router;
@@ -5,8 +5,16 @@ import {
   getJobs,
   postNewJob,
   updateJob,
+  publishJob,
+  repostJob,
+  getRecommendedFreelancers,
 } from "../controllers/job.js";
-import { verifyToken } from "../middlewares/middleware.js";
+import {
+  getProposalInbox,
+  compareProposals,
+  updateProposalTriage,
+} from "../controllers/proposalInbox.js";
+import { verifyToken, optionalToken } from "../middlewares/middleware.js";
 import { rateLimiter } from "../middlewares/rateLimiter.js";
 
 const router = express.Router();
@@ -15,10 +23,24 @@ router.post("/post-job", verifyToken, rateLimiter("postJob"), postNewJob);
 
 router.get("/jobs", verifyToken, rateLimiter("getJobs"), getJobs);
 
-router.get("/:jobId", getJob);
+// a token lets the owner and invitees see jobs that are not public
+router.get("/:jobId", optionalToken, getJob);
 
 router.patch("/:jobId", verifyToken, updateJob);
 
 router.delete("/:jobId", verifyToken, deleteJob);
 
+router.post("/:jobId/publish", verifyToken, publishJob);
+
+router.post("/:jobId/repost", verifyToken, repostJob);
+
+router.get("/:jobId/recommended-freelancers", verifyToken, getRecommendedFreelancers);
+
+// client proposal inbox, triage is private to the job owner
+router.get("/:jobId/proposals", verifyToken, getProposalInbox);
+
+router.get("/:jobId/proposals/compare", verifyToken, compareProposals);
+
+router.patch("/:jobId/proposals/:proposalId/triage", verifyToken, updateProposalTriage);
+
 export default router;
@@ -0,0 +1,31 @@
+import express from "express";
+import { verifyToken } from "../middlewares/middleware.js";
+import {
+  verifyPaymentMethod,
+  getWallet,
+  withdraw,
+  getContractEscrow,
+  fundContractEscrow,
+  releaseContractEscrow,
+  refundContractEscrow,
+} from "../controllers/payment.js";
+
+const router = express.Router();
+
+router.post("/payment-method/verify", verifyToken, verifyPaymentMethod);
+
+// wallet
+router.get("/wallet", verifyToken, getWallet);
+
+router.post("/wallet/withdraw", verifyToken, withdraw);
+
+// contract escrow
+router.get("/contract/:contractId/escrow", verifyToken, getContractEscrow);
+
+router.post("/contract/:contractId/fund", verifyToken, fundContractEscrow);
+
+router.post("/contract/:contractId/release", verifyToken, releaseContractEscrow);
+
+router.post("/contract/:contractId/refund", verifyToken, refundContractEscrow);
+
+export default router;
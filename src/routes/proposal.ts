@@ -1,11 +1,13 @@
 import express from "express";
-import { verifyToken } from "../middlewares/middleware.js";
+import { verifyToken, optionalToken } from "../middlewares/middleware.js";
 import { rateLimiter } from "../middlewares/rateLimiter.js";
 import {
   getProposal,
+  getProposalRevisions,
   getProposals,
   postProposal,
   updateProposal,
+  withdrawProposal,
 } from "../controllers/proposal.js";
 import { proposalAttachUpload } from "../config/upload.js";
 import { acceptJobProposal, rejectJobProposal } from "../controllers/job.js";
@@ -22,7 +24,10 @@ router.post(
 
 router.get("/my-proposals", verifyToken, getProposals);
 
-router.get("/:proposalId", getProposal);
+// a token lets the job owner's first look close the editing window
+router.get("/:proposalId", optionalToken, getProposal);
+
+router.get("/:proposalId/revisions", verifyToken, getProposalRevisions);
 
 router.patch(
   "/:proposalId",
@@ -31,6 +36,8 @@ router.patch(
   updateProposal
 );
 
+router.patch("/:proposalId/withdraw", verifyToken, withdrawProposal);
+
 router.patch("/:proposalId/accept", verifyToken, acceptJobProposal);
 
 router.patch("/:proposalId/reject", verifyToken, rejectJobProposal);
@@ -0,0 +1,18 @@
+import express from "express";
+import { verifyToken } from "../middlewares/middleware.js";
+import {
+  submitReview,
+  getContractReviews,
+  getUserReviews,
+} from "../controllers/review.js";
+
+const router = express.Router();
+
+router.post("/contract/:contractId", verifyToken, submitReview);
+
+router.get("/contract/:contractId", verifyToken, getContractReviews);
+
+// public profile reviews
+router.get("/user/:userId", getUserReviews);
+
+export default router;
@@ -0,0 +1,26 @@
+import express from "express";
+import { verifyToken, requireRole } from "../middlewares/middleware.js";
+import {
+  createSavedSearch,
+  getSavedSearches,
+  updateSavedSearch,
+  pauseSavedSearch,
+  resumeSavedSearch,
+  deleteSavedSearch,
+} from "../controllers/savedSearch.js";
+
+const router = express.Router();
+
+router.get("/", verifyToken, requireRole("freelancer"), getSavedSearches);
+
+router.post("/", verifyToken, requireRole("freelancer"), createSavedSearch);
+
+router.patch("/:savedSearchId", verifyToken, requireRole("freelancer"), updateSavedSearch);
+
+router.patch("/:savedSearchId/pause", verifyToken, requireRole("freelancer"), pauseSavedSearch);
+
+router.patch("/:savedSearchId/resume", verifyToken, requireRole("freelancer"), resumeSavedSearch);
+
+router.delete("/:savedSearchId", verifyToken, requireRole("freelancer"), deleteSavedSearch);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from "express";
+import { verifyToken, requireRole } from "../middlewares/middleware.js";
+import { rateLimiter } from "../middlewares/rateLimiter.js";
+import {
+  getSkillSuggestions,
+  getSkill,
+  createSkill,
+  updateSkill,
+} from "../controllers/skill.js";
+
+const router = express.Router();
+
+router.get("/autocomplete", rateLimiter("skillAutocomplete"), getSkillSuggestions);
+
+router.get("/:slug", getSkill);
+
+// catalogue management
+router.post("/", verifyToken, requireRole("admin"), createSkill);
+
+router.patch("/:slug", verifyToken, requireRole("admin"), updateSkill);
+
+export default router;
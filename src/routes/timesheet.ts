@@ -0,0 +1,34 @@
+import express from "express";
+import { verifyToken } from "../middlewares/middleware.js";
+import {
+  logTimeEntry,
+  getTimeEntries,
+  updateTimeEntry,
+  deleteTimeEntry,
+  submitTimesheet,
+  getTimesheets,
+  approveTimesheet,
+  disputeTimesheet,
+} from "../controllers/timesheet.js";
+
+const router = express.Router();
+
+// time entries
+router.post("/contract/:contractId/entries", verifyToken, logTimeEntry);
+
+router.get("/contract/:contractId/entries", verifyToken, getTimeEntries);
+
+router.patch("/entries/:entryId", verifyToken, updateTimeEntry);
+
+router.delete("/entries/:entryId", verifyToken, deleteTimeEntry);
+
+// weekly timesheets
+router.post("/contract/:contractId/submit", verifyToken, submitTimesheet);
+
+router.get("/contract/:contractId", verifyToken, getTimesheets);
+
+router.patch("/:timesheetId/approve", verifyToken, approveTimesheet);
+
+router.patch("/:timesheetId/dispute", verifyToken, disputeTimesheet);
+
+export default router;
@@ -0,0 +1,181 @@
+/**
+ * Seed the skill catalogue and rewrite the skills already saved on jobs,
+ * freelancer profiles, hidden jobs and saved searches to their catalogue names.
+ *
+ *   npm run migrate:skills              apply
+ *   npm run migrate:skills -- --dry-run report what would change
+ *
+ * Safe to run again: seeded skills that already exist are left alone, so
+ * admin edits survive, and documents already in canonical form are skipped.
+ */
+import mongoose from "mongoose";
+import connectDb from "../utils/db.js";
+import { redisClient, pubClient, subClient } from "../config/redis.js";
+import { Skill } from "../models/skill.js";
+import { Job } from "../models/job.js";
+import { FreelancerProfile } from "../models/freelancer.js";
+import { HiddenJob } from "../models/hiddenJob.js";
+import { SavedSearch } from "../models/savedSearch.js";
+import { SKILL_SEED } from "./skillSeed.js";
+import {
+  getCachedSkillCatalog,
+  invalidateSkillCatalogCache,
+  type CachedSkill,
+} from "../utils/skillCache.js";
+import { normalizeSkillList } from "../utils/skillTaxonomy.js";
+import { normalizeSavedSearchSkills } from "../utils/savedSearches.js";
+import { invalidateJobCache, invalidateAllMatchedJobsCaches } from "../utils/jobCache.js";
+import { invalidateFreelancerCache } from "../utils/freelancerCache.js";
+import { isMongoError } from "../utils/errorHandler.js";
+
+const BATCH_SIZE = 500;
+
+const dryRun = process.argv.includes("--dry-run");
+
+const seedCatalog = async (): Promise<number> => {
+  let created = 0;
+
+  for (const entry of SKILL_SEED) {
+    if (await Skill.exists({ slug: entry.slug })) continue;
+    if (dryRun) {
+      created++;
+      continue;
+    }
+
+    try {
+      await new Skill(entry).save();
+      created++;
+    } catch (error) {
+      // an admin already gave one of its spellings to another skill
+      if (isMongoError(error) && error.code === 11000) {
+        console.warn(`Skipped seeding ${entry.slug}, one of its spellings is taken`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return created;
+};
+
+/**
+ * Rewrite every document's skills in one collection, writing only the ones
+ * that change
+ * @returns The documents that changed, with the fields in projection
+ */
+const normalizeCollection = async (
+  collection: mongoose.mongo.Collection,
+  catalog: CachedSkill[],
+  projection: Record<string, 1> = {}
+): Promise<mongoose.mongo.Document[]> => {
+  const changed: mongoose.mongo.Document[] = [];
+  let batch: mongoose.mongo.AnyBulkWriteOperation[] = [];
+
+  const flush = async () => {
+    if (batch.length && !dryRun) await collection.bulkWrite(batch, { ordered: false });
+    batch = [];
+  };
+
+  const cursor = collection.find(
+    { "skills.0": { $exists: true } },
+    { projection: { skills: 1, ...projection } }
+  );
+
+  for await (const doc of cursor) {
+    const skills = normalizeSkillList(doc.skills as unknown[], catalog);
+    if (JSON.stringify(skills) === JSON.stringify(doc.skills)) continue;
+
+    changed.push(doc);
+    batch.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { skills } } } });
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return changed;
+};
+
+// saved searches keep their skills filter as comma-separated query text
+const normalizeSavedSearches = async (catalog: CachedSkill[]): Promise<number> => {
+  let changed = 0;
+  let batch: mongoose.mongo.AnyBulkWriteOperation[] = [];
+
+  const flush = async () => {
+    if (batch.length && !dryRun) {
+      await SavedSearch.collection.bulkWrite(batch, { ordered: false });
+    }
+    batch = [];
+  };
+
+  const cursor = SavedSearch.collection.find(
+    { "query.skills": { $exists: true } },
+    { projection: { query: 1 } }
+  );
+
+  for await (const doc of cursor) {
+    const query = normalizeSavedSearchSkills(doc.query as Record<string, string>, catalog);
+    if (query.skills === doc.query.skills) continue;
+
+    changed++;
+    batch.push({
+      updateOne: { filter: { _id: doc._id }, update: { $set: { "query.skills": query.skills } } },
+    });
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return changed;
+};
+
+const migrateSkills = async () => {
+  await connectDb();
+
+  const seeded = await seedCatalog();
+  if (!dryRun) await invalidateSkillCatalogCache();
+
+  // a dry run normalizes against the seed as if it had been saved
+  const catalog = dryRun
+    ? [
+        ...(await getCachedSkillCatalog()),
+        ...(await Promise.all(
+          SKILL_SEED.map(async (entry) => {
+            const skill = new Skill(entry);
+            await skill.validate();
+            return skill.toObject() as CachedSkill;
+          })
+        )),
+      ]
+    : await getCachedSkillCatalog();
+
+  const jobs = await normalizeCollection(Job.collection, catalog);
+  const profiles = await normalizeCollection(FreelancerProfile.collection, catalog, {
+    freelancerId: 1,
+  });
+  const hiddenJobs = await normalizeCollection(HiddenJob.collection, catalog);
+  const savedSearches = await normalizeSavedSearches(catalog);
+
+  if (!dryRun) {
+    for (const job of jobs) await invalidateJobCache(job._id.toString());
+    for (const profile of profiles) {
+      await invalidateFreelancerCache(profile.freelancerId.toString());
+    }
+    await invalidateAllMatchedJobsCaches();
+  }
+
+  console.log(
+    `${dryRun ? "Dry run: would seed" : "Seeded"} ${seeded} skills and ` +
+      `${dryRun ? "rewrite" : "rewrote"} ${jobs.length} jobs, ${profiles.length} profiles, ` +
+      `${hiddenJobs.length} hidden jobs and ${savedSearches} saved searches`
+  );
+};
+
+migrateSkills()
+  .catch((error) => {
+    console.error("Skill migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+    redisClient.disconnect();
+    pubClient.disconnect();
+    subClient.disconnect();
+  });
@@ -0,0 +1,57 @@
+import type { ISkill } from "../models/skill.js";
+
+type SeedSkill = Pick<ISkill, "slug" | "name" | "aliases" | "category" | "related"> & {
+  parent?: string;
+};
+
+// the starting catalogue, admins extend it through /api/skill
+export const SKILL_SEED: SeedSkill[] = [
+  { slug: "javascript", name: "JavaScript", aliases: ["JS", "ECMAScript", "ES6"], category: "web-development", related: ["typescript"] },
+  { slug: "typescript", name: "TypeScript", aliases: ["TS"], category: "web-development", related: ["javascript"] },
+  { slug: "react", name: "React", aliases: ["ReactJS", "React.js"], category: "web-development", parent: "javascript", related: ["nextjs", "react-native", "redux"] },
+  { slug: "redux", name: "Redux", aliases: ["Redux Toolkit", "RTK"], category: "web-development", parent: "react", related: [] },
+  { slug: "nextjs", name: "Next.js", aliases: ["NextJS"], category: "web-development", parent: "react", related: ["react"] },
+  { slug: "vue", name: "Vue", aliases: ["Vue.js", "VueJS", "Vue 3"], category: "web-development", parent: "javascript", related: ["nuxt"] },
+  { slug: "nuxt", name: "Nuxt", aliases: ["Nuxt.js", "NuxtJS"], category: "web-development", parent: "vue", related: ["vue"] },
+  { slug: "angular", name: "Angular", aliases: ["AngularJS", "Angular 2+"], category: "web-development", parent: "typescript", related: [] },
+  { slug: "nodejs", name: "Node.js", aliases: ["Node", "NodeJS"], category: "web-development", parent: "javascript", related: ["express"] },
+  { slug: "express", name: "Express", aliases: ["Express.js", "ExpressJS"], category: "web-development", parent: "nodejs", related: ["nodejs"] },
+  { slug: "html", name: "HTML", aliases: ["HTML5"], category: "web-development", related: ["css"] },
+  { slug: "css", name: "CSS", aliases: ["CSS3"], category: "web-development", related: ["html", "tailwind"] },
+  { slug: "tailwind", name: "Tailwind CSS", aliases: ["Tailwind", "TailwindCSS"], category: "web-development", parent: "css", related: [] },
+  { slug: "php", name: "PHP", aliases: [], category: "web-development", related: ["laravel", "wordpress"] },
+  { slug: "laravel", name: "Laravel", aliases: [], category: "web-development", parent: "php", related: [] },
+  { slug: "wordpress", name: "WordPress", aliases: ["WP"], category: "web-development", parent: "php", related: [] },
+  { slug: "python", name: "Python", aliases: ["Python 3", "Py"], category: "data-science", related: ["django", "pandas"] },
+  { slug: "django", name: "Django", aliases: [], category: "web-development", parent: "python", related: ["flask"] },
+  { slug: "flask", name: "Flask", aliases: [], category: "web-development", parent: "python", related: ["django"] },
+  { slug: "ruby-on-rails", name: "Ruby on Rails", aliases: ["Rails", "RoR"], category: "web-development", related: [] },
+  { slug: "java", name: "Java", aliases: [], category: "web-development", related: ["spring", "kotlin"] },
+  { slug: "spring", name: "Spring Boot", aliases: ["Spring", "SpringBoot"], category: "web-development", parent: "java", related: [] },
+  { slug: "csharp", name: "C#", aliases: ["CSharp", "C Sharp"], category: "web-development", related: ["dotnet"] },
+  { slug: "dotnet", name: ".NET", aliases: ["dotnet", "ASP.NET", ".NET Core"], category: "web-development", parent: "csharp", related: [] },
+  { slug: "go", name: "Go", aliases: ["Golang"], category: "web-development", related: [] },
+  { slug: "graphql", name: "GraphQL", aliases: ["GQL"], category: "web-development", related: [] },
+  { slug: "postgresql", name: "PostgreSQL", aliases: ["Postgres", "PSQL"], category: "web-development", related: ["mysql"] },
+  { slug: "mysql", name: "MySQL", aliases: [], category: "web-development", related: ["postgresql"] },
+  { slug: "mongodb", name: "MongoDB", aliases: ["Mongo"], category: "web-development", related: [] },
+  { slug: "aws", name: "AWS", aliases: ["Amazon Web Services"], category: "web-development", related: ["docker"] },
+  { slug: "docker", name: "Docker", aliases: [], category: "web-development", related: ["kubernetes"] },
+  { slug: "kubernetes", name: "Kubernetes", aliases: ["K8s"], category: "web-development", related: ["docker"] },
+  { slug: "react-native", name: "React Native", aliases: ["RN"], category: "mobile-development", parent: "react", related: ["react"] },
+  { slug: "flutter", name: "Flutter", aliases: [], category: "mobile-development", related: [] },
+  { slug: "swift", name: "Swift", aliases: ["SwiftUI"], category: "mobile-development", related: [] },
+  { slug: "kotlin", name: "Kotlin", aliases: [], category: "mobile-development", related: ["java"] },
+  { slug: "figma", name: "Figma", aliases: [], category: "design", related: ["ui-design"] },
+  { slug: "ui-design", name: "UI Design", aliases: ["User Interface Design"], category: "design", related: ["ux-design", "figma"] },
+  { slug: "ux-design", name: "UX Design", aliases: ["User Experience Design", "UX Research"], category: "design", related: ["ui-design"] },
+  { slug: "photoshop", name: "Adobe Photoshop", aliases: ["Photoshop"], category: "design", related: ["illustrator"] },
+  { slug: "illustrator", name: "Adobe Illustrator", aliases: ["Illustrator"], category: "design", related: ["photoshop"] },
+  { slug: "copywriting", name: "Copywriting", aliases: ["Copy Writing"], category: "writing", related: ["content-writing"] },
+  { slug: "content-writing", name: "Content Writing", aliases: ["Blog Writing", "Article Writing"], category: "writing", related: ["copywriting", "seo"] },
+  { slug: "seo", name: "SEO", aliases: ["Search Engine Optimization"], category: "marketing", related: ["content-writing"] },
+  { slug: "social-media-marketing", name: "Social Media Marketing", aliases: ["SMM"], category: "marketing", related: [] },
+  { slug: "pandas", name: "Pandas", aliases: [], category: "data-science", parent: "python", related: [] },
+  { slug: "machine-learning", name: "Machine Learning", aliases: ["ML"], category: "data-science", parent: "python", related: [] },
+  { slug: "sql", name: "SQL", aliases: [], category: "data-science", related: ["postgresql", "mysql"] },
+];
@@ -0,0 +1,188 @@
+import type { IContract, IContractTermsChange } from "../models/contract.js";
+import { getLockedMilestones } from "./milestones.js";
+import { getEscrowSummary } from "./payments/escrow.js";
+import { toMinorUnits, fromMinorUnits } from "./payments/ledger.js";
+
+const MAX_SKILLS = 10;
+
+interface TermsSource {
+  termsVersion?: number;
+  projectDetails: IContract["projectDetails"];
+  budget: IContract["budget"];
+  duration: IContract["duration"];
+}
+
+// the agreement as it stands after every accepted amendment
+export const getContractTerms = (contract: TermsSource) => ({
+  version: contract.termsVersion || 1,
+  projectDetails: contract.projectDetails,
+  budget: contract.budget,
+  duration: contract.duration,
+});
+
+/**
+ * Parse a change order from a request body, keeping only terms that differ
+ * from the contract's current ones
+ * @returns The changes, or an error message for the first invalid term
+ */
+export const parseTermsChange = (
+  input: unknown,
+  contract: IContract
+): { changes: IContractTermsChange } | { error: string } => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Changes must be an object" };
+  }
+
+  const body = input as Record<string, unknown>;
+  const changes: IContractTermsChange = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== "string" || !body.title.trim()) {
+      return { error: "Title must be non-empty text" };
+    }
+    if (body.title.trim() !== contract.projectDetails.title) {
+      changes.title = body.title.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== "string" || !body.description.trim()) {
+      return { error: "Description must be non-empty text" };
+    }
+    if (body.description.trim() !== contract.projectDetails.description) {
+      changes.description = body.description.trim();
+    }
+  }
+
+  if (body.skills !== undefined) {
+    if (
+      !Array.isArray(body.skills) ||
+      body.skills.some((s) => typeof s !== "string" || !s.trim())
+    ) {
+      return { error: "Skills must be a list of text" };
+    }
+    const skills = [...new Set(body.skills.map((s: string) => s.trim()))];
+    if (skills.length < 1 || skills.length > MAX_SKILLS) {
+      return { error: `Provide between 1 and ${MAX_SKILLS} skills` };
+    }
+    if (skills.join("\n") !== contract.projectDetails.skills.join("\n")) {
+      changes.skills = skills;
+    }
+  }
+
+  if (body.budgetAmount !== undefined) {
+    const amount = Number(body.budgetAmount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { error: "Budget amount must be greater than 0" };
+    }
+    if (toMinorUnits(amount) !== toMinorUnits(contract.budget.amount)) {
+      changes.budgetAmount = amount;
+    }
+  }
+
+  if (body.deadline !== undefined) {
+    if (body.deadline === null) {
+      if (contract.duration.deadline) changes.deadline = null;
+    } else {
+      const deadline = new Date(body.deadline as string);
+      if (isNaN(deadline.getTime())) {
+        return { error: "Invalid deadline" };
+      }
+      if (deadline <= new Date()) {
+        return { error: "Deadline must be in the future" };
+      }
+      if (deadline.getTime() !== contract.duration.deadline?.getTime()) {
+        changes.deadline = deadline;
+      }
+    }
+  }
+
+  if (body.estimatedDuration !== undefined) {
+    const duration = Number(body.estimatedDuration);
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return { error: "Estimated duration must be greater than 0" };
+    }
+    if (duration !== contract.duration.estimatedDuration) {
+      changes.estimatedDuration = duration;
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: "The amendment does not change any terms" };
+  }
+
+  return { changes };
+};
+
+/**
+ * Why a fixed-price budget cannot drop to the amount, null if it can.
+ * Money already in escrow or paid out, and milestones already started, are
+ * committed and stay covered by the budget.
+ */
+export const checkBudgetChange = async (
+  contract: IContract,
+  amount: number
+): Promise<string | null> => {
+  if (contract.budget.type !== "fixed") {
+    return null;
+  }
+
+  const minor = toMinorUnits(amount);
+  const currency = contract.budget.currency;
+
+  const escrow = await getEscrowSummary(contract);
+  const funded = escrow.balance + escrow.released;
+  if (minor < funded) {
+    return `Budget cannot be lower than the ${fromMinorUnits(funded)} ${currency} already funded`;
+  }
+
+  const lockedTotal = getLockedMilestones(contract).reduce(
+    (sum, m) => sum + toMinorUnits(m.amount),
+    0
+  );
+  if (minor < lockedTotal) {
+    return `Budget cannot be lower than the ${fromMinorUnits(lockedTotal)} ${currency} of milestones already started`;
+  }
+
+  return null;
+};
+
+// current values of the terms the changes touch, recorded as the amendment's history
+export const snapshotTerms = (
+  contract: IContract,
+  changes: IContractTermsChange
+): IContractTermsChange => ({
+  ...(changes.title !== undefined && { title: contract.projectDetails.title }),
+  ...(changes.description !== undefined && {
+    description: contract.projectDetails.description,
+  }),
+  ...(changes.skills !== undefined && { skills: [...contract.projectDetails.skills] }),
+  ...(changes.budgetAmount !== undefined && { budgetAmount: contract.budget.amount }),
+  ...(changes.deadline !== undefined && {
+    deadline: contract.duration.deadline || null,
+  }),
+  ...(changes.estimatedDuration !== undefined && {
+    estimatedDuration: contract.duration.estimatedDuration,
+  }),
+});
+
+export const applyTermsChange = (
+  contract: IContract,
+  changes: IContractTermsChange
+): void => {
+  if (changes.title !== undefined) contract.projectDetails.title = changes.title;
+  if (changes.description !== undefined) {
+    contract.projectDetails.description = changes.description;
+  }
+  if (changes.skills !== undefined) contract.projectDetails.skills = changes.skills;
+  if (changes.budgetAmount !== undefined) contract.budget.amount = changes.budgetAmount;
+  if (changes.deadline !== undefined) {
+    contract.set("duration.deadline", changes.deadline ?? undefined);
+    // reminders and the overdue flag start over for the new deadline
+    contract.set("deadlineReminderDays", undefined);
+    contract.set("overdueAt", undefined);
+  }
+  if (changes.estimatedDuration !== undefined) {
+    contract.duration.estimatedDuration = changes.estimatedDuration;
+  }
+};
@@ -0,0 +1,30 @@
+import type { Types } from "mongoose";
+
+export type ContractParty = "client" | "freelancer";
+
+interface ContractParticipants {
+  clientId: Types.ObjectId | string;
+  freelancerId: Types.ObjectId | string;
+}
+
+// which side of the contract the user is on, null if they are not part of it
+export const getContractParty = (
+  contract: ContractParticipants,
+  userId: string
+): ContractParty | null => {
+  if (contract.clientId.toString() === userId.toString()) return "client";
+  if (contract.freelancerId.toString() === userId.toString()) return "freelancer";
+  return null;
+};
+
+export const getCounterpartyId = (
+  contract: ContractParticipants,
+  party: ContractParty
+): string => {
+  return party === "client"
+    ? contract.freelancerId.toString()
+    : contract.clientId.toString();
+};
+
+// statuses in which work on the contract can still move forward
+export const OPEN_CONTRACT_STATUSES = ["active", "in_progress", "under_review"];
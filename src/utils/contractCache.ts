@@ -8,7 +8,45 @@ const FREELANCER_CONTRACTS_CACHE_PREFIX = "contracts:freelancer:";
 const JOB_CONTRACT_CACHE_PREFIX = "contract:job:";
 const CONTRACT_CACHE_TTL = 3600;
 
-interface CachedContract {
+interface ContractTermsChange {
+  title?: string;
+  description?: string;
+  skills?: string[];
+  budgetAmount?: number;
+  deadline?: Date | null;
+  estimatedDuration?: number;
+}
+
+interface ContractSignature {
+  name: string;
+  signedAt: Date;
+  ip: string;
+  userAgent: string;
+  termsVersion: number;
+}
+
+interface CachedDispute {
+  disputeId?: Types.ObjectId;
+  isDisputed: boolean;
+  filedBy: "client" | "freelancer";
+  filedAt: Date;
+  reason: string;
+  status: "open" | "under_review" | "resolved";
+  evidence: string[];
+  assignedAdmin?: Types.ObjectId;
+  agreementProposal?: {
+    proposedBy: "client" | "freelancer";
+    proposedAt: Date;
+    outcome: "completed" | "cancelled" | "resumed";
+    resolution: string;
+  };
+  outcome?: "completed" | "cancelled" | "resumed";
+  resolution?: string;
+  resolvedAt?: Date;
+  resolvedBy?: "admin" | "mutual_agreement";
+}
+
+export interface CachedContract {
   _id: Types.ObjectId;
   jobId: Types.ObjectId;
   clientId: Types.ObjectId;
@@ -25,12 +63,37 @@ interface CachedContract {
     type: "fixed" | "hourly";
     amount: number;
     currency: string;
+    weeklyHourCap?: number;
   };
   duration: {
     startDate: Date;
     deadline?: Date;
     estimatedDuration: number;
   };
+  signatures?: {
+    client?: ContractSignature;
+    freelancer?: ContractSignature;
+  };
+  deadlineReminderDays?: number;
+  overdueAt?: Date;
+  extensionRequest?: {
+    requestedAt: Date;
+    deadline: Date;
+    reason: string;
+  };
+  termsVersion: number;
+  amendments: Array<{
+    _id: Types.ObjectId;
+    proposedBy: "client" | "freelancer";
+    proposedAt: Date;
+    message?: string;
+    changes: ContractTermsChange;
+    status: "pending" | "accepted" | "rejected" | "withdrawn";
+    respondedAt?: Date;
+    responseNote?: string;
+    previous?: ContractTermsChange;
+    version?: number;
+  }>;
   status:
     | "active"
     | "in_progress"
@@ -39,38 +102,57 @@ interface CachedContract {
     | "cancelled"
     | "disputed";
   deliverables: Array<{
+    _id: Types.ObjectId;
     description: string;
+    dueDate?: Date;
     submittedAt?: Date;
     fileUrl?: string;
+    attachments: string[];
+    submissionNote?: string;
     status: "pending" | "submitted" | "approved" | "revision_requested";
     feedback?: string;
+    reviewedAt?: Date;
+    revisionCount: number;
+  }>;
+  milestones: Array<{
+    _id: Types.ObjectId;
+    title: string;
+    description?: string;
+    amount: number;
+    dueDate?: Date;
+    status: "funded" | "in_progress" | "submitted" | "released";
+    deliverableId: Types.ObjectId;
+    fundedAt: Date;
+    releasedAt?: Date;
   }>;
+  milestoneProposal?: {
+    proposedAt: Date;
+    milestones: Array<{
+      title: string;
+      description?: string;
+      amount: number;
+      dueDate?: Date;
+    }>;
+  };
   completionRequest?: {
     requestedBy: "client" | "freelancer";
     requestedAt: Date;
     message?: string;
   };
   completedAt?: Date;
-  completedBy?: "client" | "freelancer" | "mutual";
+  completedBy?: "client" | "freelancer" | "mutual" | "admin";
   cancellationRequest?: {
     requestedBy: "client" | "freelancer";
     requestedAt: Date;
     reason: string;
+    jobAction?: "reopen" | "close";
     approvedBy?: "client" | "freelancer";
     approvedAt?: Date;
   };
   cancelledAt?: Date;
   cancellationReason?: string;
-  dispute?: {
-    isDisputed: boolean;
-    filedBy: "client" | "freelancer";
-    filedAt: Date;
-    reason: string;
-    status: "open" | "under_review" | "resolved";
-    resolution?: string;
-    resolvedAt?: Date;
-    resolvedBy?: "admin" | "mutual_agreement";
-  };
+  dispute?: CachedDispute;
+  pastDisputes: CachedDispute[];
   reviews: {
     clientReview?: {
       rating: number;
@@ -82,6 +164,7 @@ interface CachedContract {
       comment: string;
       reviewedAt: Date;
     };
+    publishedAt?: Date;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -284,3 +367,17 @@ export const updateContractCache = async (
     console.error("Contract cache update error:", error);
   }
 };
+
+export const invalidateContractCaches = async (contract: {
+  _id: Types.ObjectId | string;
+  jobId: Types.ObjectId | string;
+  clientId: Types.ObjectId | string;
+  freelancerId: Types.ObjectId | string;
+}): Promise<void> => {
+  await Promise.all([
+    invalidateContractCache(contract._id.toString()),
+    invalidateClientContractsCache(contract.clientId.toString()),
+    invalidateFreelancerContractsCache(contract.freelancerId.toString()),
+    invalidateJobContractCache(contract.jobId.toString()),
+  ]);
+};
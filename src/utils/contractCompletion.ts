@@ -0,0 +1,163 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { Contract, type IContract } from "../models/contract.js";
+import { Job } from "../models/job.js";
+import { FreelancerProfile } from "../models/freelancer.js";
+import { invalidateContractCaches } from "./contractCache.js";
+import { invalidateJobCache, invalidateClientJobsCache } from "./jobCache.js";
+import { invalidateFreelancerCache } from "./freelancerCache.js";
+import { invalidateClientCache } from "./clientCache.js";
+import { getCachedUser } from "./userCache.js";
+import { sendContractCompletedEmail } from "./emailServices.js";
+import { emitToConversation } from "./socket/emitters.js";
+import { OPEN_CONTRACT_STATUSES } from "./contractAccess.js";
+import { settleEscrow, getCompletionSettlement } from "./payments/escrow.js";
+
+dotenv.config();
+
+// days the counterparty has to answer a completion request before it auto-completes
+const graceDays = parseInt(process.env.CONTRACT_COMPLETION_GRACE_DAYS || "7");
+export const COMPLETION_GRACE_DAYS =
+  Number.isInteger(graceDays) && graceDays > 0 ? graceDays : 7;
+
+export const getAutoCompleteAt = (requestedAt: Date): Date =>
+  new Date(
+    new Date(requestedAt).getTime() + COMPLETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  );
+
+interface CompleteContractOptions {
+  // statuses the contract may be completed from
+  fromStatuses?: string[];
+  // extra fields written in the same update, e.g. dispute resolution
+  set?: Record<string, unknown>;
+}
+
+/**
+ * Move a contract to completed, update the job and freelancer profile in one
+ * transaction, then settle whatever is left in escrow
+ * @param contractId - The contract ID
+ * @param completedBy - "mutual" when accepted, "admin" from a dispute ruling, otherwise the party whose request auto-completed
+ * @param options - Allowed source statuses and extra fields to set
+ * @returns The completed contract, or null if it was no longer open
+ */
+export const completeContract = async (
+  contractId: string,
+  completedBy: "client" | "freelancer" | "mutual" | "admin",
+  options: CompleteContractOptions = {}
+): Promise<IContract | null> => {
+  const fromStatuses = options.fromStatuses || OPEN_CONTRACT_STATUSES;
+  const session = await mongoose.startSession();
+  let contract: IContract | null = null;
+
+  try {
+    await session.withTransaction(async () => {
+      contract = await Contract.findOneAndUpdate(
+        { _id: contractId, status: { $in: fromStatuses } },
+        {
+          $set: {
+            ...options.set,
+            status: "completed",
+            completedAt: new Date(),
+            completedBy,
+          },
+        },
+        { new: true, session }
+      );
+
+      if (!contract) return;
+
+      await Job.findByIdAndUpdate(
+        contract.jobId,
+        { status: "completed" },
+        { session }
+      );
+
+      await FreelancerProfile.updateOne(
+        { freelancerId: contract.freelancerId },
+        { $inc: { completedJobs: 1 } },
+        { session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const completed = contract as IContract | null;
+  if (!completed) {
+    return null;
+  }
+
+  const jobId = completed.jobId.toString();
+  const clientId = completed.clientId.toString();
+  const freelancerId = completed.freelancerId.toString();
+
+  await settleEscrow(completed, getCompletionSettlement(completed));
+
+  await invalidateContractCaches(completed);
+  await invalidateJobCache(jobId);
+  await invalidateClientJobsCache(clientId);
+  await invalidateFreelancerCache(freelancerId);
+  await invalidateClientCache(clientId);
+
+  emitToConversation(completed.conversationId.toString(), "contract_completed", {
+    contractId,
+    completedBy,
+    completedAt: completed.completedAt,
+  });
+
+  try {
+    const client = await getCachedUser(clientId);
+    const freelancer = await getCachedUser(freelancerId);
+
+    if (client && freelancer) {
+      const details = completed.toObject();
+      await sendContractCompletedEmail(
+        client.email,
+        client.firstName,
+        freelancer.firstName,
+        completed.projectDetails.title,
+        details,
+        completedBy
+      );
+      await sendContractCompletedEmail(
+        freelancer.email,
+        freelancer.firstName,
+        client.firstName,
+        completed.projectDetails.title,
+        details,
+        completedBy
+      );
+    }
+  } catch (emailError) {
+    console.error("Failed to send contract completed email:", emailError);
+  }
+
+  return completed;
+};
+
+/**
+ * Complete contracts whose completion request went unanswered past the grace period
+ */
+export const autoCompleteExpiredRequests = async (): Promise<void> => {
+  const cutoff = new Date(
+    Date.now() - COMPLETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const expired = await Contract.find({
+    status: { $in: OPEN_CONTRACT_STATUSES },
+    "completionRequest.requestedAt": { $lte: cutoff },
+  })
+    .select("_id completionRequest")
+    .lean();
+
+  for (const contract of expired) {
+    const requestedBy = contract.completionRequest?.requestedBy;
+    if (!requestedBy) continue;
+
+    try {
+      await completeContract(contract._id.toString(), requestedBy);
+    } catch (err) {
+      console.error(`Failed to auto-complete contract ${contract._id}:`, err);
+    }
+  }
+};
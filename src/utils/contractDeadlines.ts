@@ -0,0 +1,132 @@
+import dotenv from "dotenv";
+import { Contract, type IContract } from "../models/contract.js";
+import { invalidateContractCaches } from "./contractCache.js";
+import { getCachedUser } from "./userCache.js";
+import { sendContractDeadlineEmail } from "./emailServices.js";
+import { emitToUser } from "./socket/emitters.js";
+import { OPEN_CONTRACT_STATUSES } from "./contractAccess.js";
+
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// days before the deadline that both parties are reminded, smallest first
+export const DEADLINE_REMINDER_DAYS = (
+  process.env.CONTRACT_DEADLINE_REMINDER_DAYS || "7,2,1"
+)
+  .split(",")
+  .map((d) => parseInt(d.trim()))
+  .filter((d) => Number.isInteger(d) && d > 0)
+  .sort((a, b) => a - b);
+
+type DeadlineContract = Pick<
+  IContract,
+  "_id" | "jobId" | "clientId" | "freelancerId" | "projectDetails" | "duration"
+>;
+
+// socket and email both parties, email failures never stop the run
+const notifyParties = async (
+  contract: DeadlineContract,
+  stage: "reminder" | "overdue",
+  daysLeft?: number
+): Promise<void> => {
+  const deadline = new Date(contract.duration.deadline!);
+  const contractId = contract._id.toString();
+
+  for (const userId of [contract.clientId.toString(), contract.freelancerId.toString()]) {
+    emitToUser(userId, stage === "reminder" ? "deadline_reminder" : "contract_overdue", {
+      contractId,
+      title: contract.projectDetails.title,
+      deadline,
+      ...(daysLeft !== undefined && { daysLeft }),
+    });
+
+    try {
+      const user = await getCachedUser(userId);
+      if (user) {
+        await sendContractDeadlineEmail(
+          user.email,
+          user.firstName,
+          contract.projectDetails.title,
+          contractId,
+          deadline,
+          stage,
+          daysLeft
+        );
+      }
+    } catch (emailError) {
+      console.error("Failed to send contract deadline email:", emailError);
+    }
+  }
+};
+
+/**
+ * Remind both parties as each configured threshold before the deadline is
+ * reached. A contract first seen inside several thresholds only gets the
+ * closest one, and claiming the threshold in the update keeps a reminder from
+ * going out twice.
+ */
+export const sendDeadlineReminders = async (): Promise<void> => {
+  const now = Date.now();
+
+  for (const days of DEADLINE_REMINDER_DAYS) {
+    const reminderFilter = {
+      status: { $in: OPEN_CONTRACT_STATUSES },
+      "duration.deadline": { $gt: new Date(now), $lte: new Date(now + days * DAY_MS) },
+      $or: [
+        { deadlineReminderDays: { $exists: false } },
+        { deadlineReminderDays: { $gt: days } },
+      ],
+    };
+
+    const due = await Contract.find(reminderFilter)
+      .select("_id jobId clientId freelancerId projectDetails duration")
+      .lean();
+
+    for (const contract of due) {
+      const claimed = await Contract.updateOne(
+        { ...reminderFilter, _id: contract._id },
+        { $set: { deadlineReminderDays: days } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      await invalidateContractCaches(contract);
+
+      const daysLeft = Math.ceil(
+        (new Date(contract.duration.deadline!).getTime() - now) / DAY_MS
+      );
+      await notifyParties(contract, "reminder", daysLeft);
+    }
+  }
+};
+
+/**
+ * Flag open contracts whose deadline has passed and tell both parties
+ */
+export const flagOverdueContracts = async (): Promise<void> => {
+  const overdueFilter = {
+    status: { $in: OPEN_CONTRACT_STATUSES },
+    "duration.deadline": { $lte: new Date() },
+    overdueAt: { $exists: false },
+  };
+
+  const overdue = await Contract.find(overdueFilter)
+    .select("_id jobId clientId freelancerId projectDetails duration")
+    .lean();
+
+  for (const contract of overdue) {
+    const claimed = await Contract.updateOne(
+      { ...overdueFilter, _id: contract._id },
+      { $set: { overdueAt: new Date() } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    await invalidateContractCaches(contract);
+    await notifyParties(contract, "overdue");
+  }
+};
+
+export const processContractDeadlines = async (): Promise<void> => {
+  await sendDeadlineReminders();
+  await flagOverdueContracts();
+};
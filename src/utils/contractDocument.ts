@@ -0,0 +1,157 @@
+import type { IContract, ISignature } from "../models/contract.js";
+import { getCachedUser } from "./userCache.js";
+import { renderPdf, type PdfLine } from "./pdf.js";
+
+interface DocumentSection {
+  heading: string;
+  fields?: Array<[string, string]>;
+  items?: string[];
+  text?: string;
+}
+
+export interface ContractDocument {
+  title: string;
+  sections: DocumentSection[];
+}
+
+const formatDate = (date?: Date | null): string =>
+  date ? new Date(date).toISOString().slice(0, 10) : "Not set";
+
+const formatTimestamp = (date: Date): string =>
+  new Date(date).toISOString().replace("T", " ").slice(0, 19) + " UTC";
+
+const getPartyName = async (userId: string): Promise<string> => {
+  const user = await getCachedUser(userId);
+  return user ? `${user.firstName} ${user.lastName}` : "Unknown user";
+};
+
+const describeSignature = (label: string, signature?: ISignature): string =>
+  signature?.signedAt
+    ? `${label}: ${signature.name}, accepted ${formatTimestamp(signature.signedAt)} ` +
+      `(terms version ${signature.termsVersion}, IP ${signature.ip}, ${signature.userAgent})`
+    : `${label}: not signed yet`;
+
+/**
+ * Collect everything the agreement shows, shared by the PDF and Markdown output
+ */
+export const buildContractDocument = async (
+  contract: IContract
+): Promise<ContractDocument> => {
+  const clientName = await getPartyName(contract.clientId.toString());
+  const freelancerName = await getPartyName(contract.freelancerId.toString());
+  const { projectDetails, budget, duration } = contract;
+
+  const sections: DocumentSection[] = [
+    {
+      heading: "Agreement",
+      fields: [
+        ["Contract ID", contract._id.toString()],
+        ["Created", formatTimestamp(contract.createdAt)],
+        ["Terms version", String(contract.termsVersion || 1)],
+        ["Status", contract.status],
+      ],
+    },
+    {
+      heading: "Parties",
+      fields: [
+        ["Client", clientName],
+        ["Freelancer", freelancerName],
+      ],
+    },
+    {
+      heading: "Project",
+      fields: [
+        ["Title", projectDetails.title],
+        ["Category", projectDetails.category],
+        ["Skills", projectDetails.skills.join(", ")],
+      ],
+      text: projectDetails.description,
+    },
+    {
+      heading: "Budget",
+      fields: [
+        [
+          budget.type === "fixed" ? "Fixed price" : "Hourly rate",
+          `${budget.amount.toFixed(2)} ${budget.currency}${budget.type === "hourly" ? " per hour" : ""}`,
+        ],
+        ...(budget.weeklyHourCap
+          ? [["Weekly hour cap", `${budget.weeklyHourCap} hours`] as [string, string]]
+          : []),
+      ],
+    },
+    {
+      heading: "Timeline",
+      fields: [
+        ["Start date", formatDate(duration.startDate)],
+        ["Deadline", formatDate(duration.deadline)],
+        ["Estimated duration", `${duration.estimatedDuration} hours`],
+      ],
+    },
+    {
+      heading: "Deliverables",
+      items: contract.deliverables.length
+        ? contract.deliverables.map(
+            (d) => `${d.description} (due ${formatDate(d.dueDate)}, ${d.status.replace("_", " ")})`
+          )
+        : ["No deliverables defined yet"],
+    },
+  ];
+
+  if (contract.milestones.length) {
+    sections.push({
+      heading: "Milestones",
+      items: contract.milestones.map(
+        (m) => `${m.title}: ${m.amount.toFixed(2)} ${budget.currency} (due ${formatDate(m.dueDate)}, ${m.status.replace("_", " ")})`
+      ),
+    });
+  }
+
+  sections.push({
+    heading: "Acceptance",
+    items: [
+      describeSignature("Client", contract.signatures?.client),
+      describeSignature("Freelancer", contract.signatures?.freelancer),
+    ],
+  });
+
+  return { title: projectDetails.title, sections };
+};
+
+export const renderContractMarkdown = (document: ContractDocument): string => {
+  const lines = [`# Contract Agreement: ${document.title}`, ""];
+
+  for (const section of document.sections) {
+    lines.push(`## ${section.heading}`, "");
+    for (const [label, value] of section.fields || []) {
+      lines.push(`- **${label}:** ${value}`);
+    }
+    if (section.fields?.length) lines.push("");
+    if (section.text) lines.push(section.text, "");
+    for (const item of section.items || []) {
+      lines.push(`- ${item}`);
+    }
+    if (section.items?.length) lines.push("");
+  }
+
+  return lines.join("\n");
+};
+
+export const renderContractPdf = (document: ContractDocument): Buffer => {
+  const lines: PdfLine[] = [
+    { text: "Contract Agreement", size: 20, bold: true },
+    { text: document.title, size: 13, bold: true },
+  ];
+
+  for (const section of document.sections) {
+    lines.push({ text: section.heading, size: 12, bold: true, gap: 14 });
+    for (const [label, value] of section.fields || []) {
+      lines.push({ text: `${label}: ${value}`, size: 10 });
+    }
+    if (section.text) lines.push({ text: section.text, size: 10, gap: 4 });
+    for (const item of section.items || []) {
+      lines.push({ text: `- ${item}`, size: 10 });
+    }
+  }
+
+  return renderPdf(lines, `Contract Agreement: ${document.title}`);
+};
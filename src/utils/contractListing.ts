@@ -0,0 +1,108 @@
+import {
+  getCachedContractsByClient,
+  getCachedContractsByFreelancer,
+  getCachedContractByJob,
+  type CachedContract,
+} from "./contractCache.js";
+import { getContractParty, type ContractParty } from "./contractAccess.js";
+
+export const CONTRACT_STATUSES: CachedContract["status"][] = [
+  "active",
+  "in_progress",
+  "under_review",
+  "completed",
+  "cancelled",
+  "disputed",
+];
+
+export const CONTRACT_SORT_FIELDS = ["createdAt", "updatedAt", "deadline", "amount"] as const;
+
+export type ContractSortField = (typeof CONTRACT_SORT_FIELDS)[number];
+
+export interface ContractFilters {
+  role?: ContractParty;
+  statuses?: CachedContract["status"][];
+  from?: Date;
+  to?: Date;
+  counterpartyId?: string;
+  jobId?: string;
+}
+
+export interface UserContract {
+  contract: CachedContract;
+  role: ContractParty;
+}
+
+/**
+ * Every contract the user is on, from the per-client and per-freelancer caches
+ */
+export const getUserContracts = async (
+  userId: string,
+  filters: ContractFilters = {}
+): Promise<UserContract[]> => {
+  let contracts: CachedContract[];
+
+  if (filters.jobId) {
+    const contract = await getCachedContractByJob(filters.jobId);
+    contracts = contract ? [contract] : [];
+  } else {
+    contracts = [
+      ...(filters.role !== "freelancer" ? await getCachedContractsByClient(userId) : []),
+      ...(filters.role !== "client" ? await getCachedContractsByFreelancer(userId) : []),
+    ];
+  }
+
+  const result: UserContract[] = [];
+
+  for (const contract of contracts) {
+    const role = getContractParty(contract, userId);
+    if (!role || (filters.role && filters.role !== role)) continue;
+
+    if (filters.statuses && !filters.statuses.includes(contract.status)) continue;
+
+    // cached contracts come back from JSON with dates as strings
+    const createdAt = new Date(contract.createdAt);
+    if (filters.from && createdAt < filters.from) continue;
+    if (filters.to && createdAt > filters.to) continue;
+
+    if (filters.counterpartyId) {
+      const counterpartyId =
+        role === "client" ? contract.freelancerId : contract.clientId;
+      if (counterpartyId.toString() !== filters.counterpartyId) continue;
+    }
+
+    result.push({ contract, role });
+  }
+
+  return result;
+};
+
+const sortValue = (contract: CachedContract, field: ContractSortField): number | null => {
+  switch (field) {
+    case "createdAt":
+      return new Date(contract.createdAt).getTime();
+    case "updatedAt":
+      return new Date(contract.updatedAt).getTime();
+    case "deadline":
+      return contract.duration.deadline
+        ? new Date(contract.duration.deadline).getTime()
+        : null;
+    case "amount":
+      return contract.budget.amount;
+  }
+};
+
+// contracts without a value for the field (no deadline) always sort last
+export const sortUserContracts = (
+  contracts: UserContract[],
+  field: ContractSortField,
+  order: "asc" | "desc"
+): UserContract[] =>
+  [...contracts].sort((a, b) => {
+    const left = sortValue(a.contract, field);
+    const right = sortValue(b.contract, field);
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    return order === "asc" ? left - right : right - left;
+  });
@@ -0,0 +1,17 @@
+import type { Request } from "express";
+import type { IContract } from "../models/contract.js";
+
+interface SignedContract {
+  signatures?: IContract["signatures"];
+}
+
+export const UNSIGNED_CONTRACT_ERROR =
+  "Both parties must sign the contract before work can start";
+
+export const isFullySigned = (contract: SignedContract): boolean =>
+  !!contract.signatures?.client?.signedAt &&
+  !!contract.signatures?.freelancer?.signedAt;
+
+// the client address Express resolves through the trusted proxies (TRUST_PROXY)
+export const getRequestIp = (req: Request): string =>
+  req.ip || req.socket.remoteAddress || "unknown";
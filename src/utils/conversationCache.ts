@@ -17,6 +17,7 @@ interface CachedConversation {
     timestamp: Date;
   };
   unreadCount: Record<string, number>;
+  closedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
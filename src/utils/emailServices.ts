@@ -25,6 +25,12 @@ interface ContractDetails {
   duration: { startDate: string | Date };
 }
 
+interface AlertJobDetails {
+  _id: unknown;
+  title: string;
+  budget: { type: string; amount?: number; min?: number; max?: number; currency: string };
+}
+
 sgMail.setApiKey(process.env.SENDGRID_API_KEY!);
 
 const FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL || "noreply@matchlance.com";
@@ -718,3 +724,423 @@ export const sendFreelancerHiredEmail = async (
     return { success: false, error };
   }
 };
+
+export const sendContractCompletedEmail = async (
+  email: string,
+  firstName: string,
+  counterpartyName: string,
+  jobTitle: string,
+  contractDetails: ContractDetails,
+  completedBy: "client" | "freelancer" | "mutual" | "admin"
+) => {
+  const contractUrl = `${
+    process.env.FRONTEND_CONTRACT_URL || process.env.FRONTEND_URL
+  }/contracts/${contractDetails._id}`;
+
+  const budget =
+    contractDetails.budget.type === "fixed"
+      ? `$${contractDetails.budget.amount} (Fixed Price)`
+      : `$${contractDetails.budget.amount}/hour`;
+  const howCompleted =
+    completedBy === "mutual"
+      ? `You and ${counterpartyName} both confirmed the work is done.`
+      : completedBy === "admin"
+        ? "A Matchlance admin resolved the dispute on this contract and marked it as completed."
+        : "The completion request was not answered within the review period, so the contract was completed automatically.";
+
+  const msg = {
+    to: email,
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME,
+    },
+    subject: `Contract Completed: "${jobTitle}"`,
+    text: `Hi ${firstName},\n\nYour contract for "${jobTitle}" with ${counterpartyName} is now complete.\n\n${howCompleted}\n\nBudget: ${budget}\n\nYou can now leave a review for ${counterpartyName}:\n${contractUrl}\n\nBest regards,\nThe Matchlance Team`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .info-card {
+              background-color: #f0fdf4;
+              border-left: 4px solid #16a34a;
+              padding: 20px;
+              margin: 20px 0;
+              border-radius: 5px;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #16a34a;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>Contract Completed</h2>
+            <p>Hi ${firstName},</p>
+            <p>Your contract for <strong>"${jobTitle}"</strong> with ${counterpartyName} is now complete.</p>
+            <div class="info-card">
+              <p>${howCompleted}</p>
+              <p><strong>Budget:</strong> ${budget}</p>
+            </div>
+            <p>Take a moment to leave a review for ${counterpartyName}.</p>
+            <a href="${contractUrl}" class="button">View Contract</a>
+            <div class="footer">
+              <p><strong>Matchlance</strong> - Connecting Clients with Top Freelancers</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Contract completed email sent to ${email}`);
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("SendGrid contract completed email error:", error);
+    if (isSendGridError(error) && error.response) {
+      console.error(error.response.body);
+    }
+    return { success: false, error };
+  }
+};
+
+export const sendContractCancellationEmail = async (
+  email: string,
+  firstName: string,
+  counterpartyName: string,
+  jobTitle: string,
+  contractId: string,
+  reason: string,
+  stage: "requested" | "approved"
+) => {
+  const contractUrl = `${
+    process.env.FRONTEND_CONTRACT_URL || process.env.FRONTEND_URL
+  }/contracts/${contractId}`;
+
+  const subject =
+    stage === "requested"
+      ? `Cancellation Requested: "${jobTitle}"`
+      : `Contract Cancelled: "${jobTitle}"`;
+  const summary =
+    stage === "requested"
+      ? `${counterpartyName} has asked to cancel your contract for "${jobTitle}". Please review the request and approve or reject it.`
+      : `Your contract for "${jobTitle}" with ${counterpartyName} has been cancelled.`;
+
+  const msg = {
+    to: email,
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME,
+    },
+    subject,
+    text: `Hi ${firstName},\n\n${summary}\n\nReason: ${reason}\n\nView the contract:\n${contractUrl}\n\nBest regards,\nThe Matchlance Team`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .info-card {
+              background-color: #fef2f2;
+              border-left: 4px solid #DC2626;
+              padding: 20px;
+              margin: 20px 0;
+              border-radius: 5px;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #DC2626;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>${subject}</h2>
+            <p>Hi ${firstName},</p>
+            <p>${summary}</p>
+            <div class="info-card">
+              <p><strong>Reason:</strong> ${reason}</p>
+            </div>
+            <a href="${contractUrl}" class="button">View Contract</a>
+            <div class="footer">
+              <p><strong>Matchlance</strong> - Connecting Clients with Top Freelancers</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Contract cancellation email sent to ${email}`);
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("SendGrid contract cancellation email error:", error);
+    if (isSendGridError(error) && error.response) {
+      console.error(error.response.body);
+    }
+    return { success: false, error };
+  }
+};
+
+export const sendContractDeadlineEmail = async (
+  email: string,
+  firstName: string,
+  jobTitle: string,
+  contractId: string,
+  deadline: Date,
+  stage: "reminder" | "overdue",
+  daysLeft?: number
+) => {
+  const contractUrl = `${
+    process.env.FRONTEND_CONTRACT_URL || process.env.FRONTEND_URL
+  }/contracts/${contractId}`;
+
+  const formattedDeadline = deadline.toUTCString();
+  const subject =
+    stage === "reminder"
+      ? `Deadline in ${daysLeft} day${daysLeft === 1 ? "" : "s"}: "${jobTitle}"`
+      : `Deadline Passed: "${jobTitle}"`;
+  const summary =
+    stage === "reminder"
+      ? `The contract for "${jobTitle}" is due in ${daysLeft} day${daysLeft === 1 ? "" : "s"}.`
+      : `The deadline for "${jobTitle}" has passed and the contract is now overdue. The freelancer can request an extension, or you can agree on next steps in the contract chat.`;
+
+  const msg = {
+    to: email,
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME,
+    },
+    subject,
+    text: `Hi ${firstName},\n\n${summary}\n\nDeadline: ${formattedDeadline}\n\nView the contract:\n${contractUrl}\n\nBest regards,\nThe Matchlance Team`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .info-card {
+              background-color: #fffbeb;
+              border-left: 4px solid #d97706;
+              padding: 20px;
+              margin: 20px 0;
+              border-radius: 5px;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #d97706;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>${subject}</h2>
+            <p>Hi ${firstName},</p>
+            <p>${summary}</p>
+            <div class="info-card">
+              <p><strong>Deadline:</strong> ${formattedDeadline}</p>
+            </div>
+            <a href="${contractUrl}" class="button">View Contract</a>
+            <div class="footer">
+              <p><strong>Matchlance</strong> - Connecting Clients with Top Freelancers</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Contract deadline email sent to ${email}`);
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("SendGrid contract deadline email error:", error);
+    if (isSendGridError(error) && error.response) {
+      console.error(error.response.body);
+    }
+    return { success: false, error };
+  }
+};
+
+export const sendJobInvitationEmail = async (
+  email: string,
+  firstName: string,
+  clientName: string,
+  jobTitle: string,
+  note?: string
+) => {
+  const invitationUrl = `${
+    process.env.FRONTEND_PROJECT_URL || process.env.FRONTEND_URL
+  }/invitations`;
+
+  const msg = {
+    to: email,
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME,
+    },
+    subject: `You're Invited: "${jobTitle}"`,
+    text: `Hi ${firstName},\n\n${clientName} has invited you to send a proposal for "${jobTitle}".\n\n${note ? `Their note: ${note}\n\n` : ""}Accept or decline the invitation here:\n${invitationUrl}\n\nBest regards,\nThe Matchlance Team`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .info-card {
+              background-color: #eff6ff;
+              border-left: 4px solid #2563eb;
+              padding: 20px;
+              margin: 20px 0;
+              border-radius: 5px;
+            }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #2563eb;
+              color: white;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>You're Invited to a Job</h2>
+            <p>Hi ${firstName},</p>
+            <p>${clientName} has invited you to send a proposal for <strong>"${jobTitle}"</strong>.</p>
+            ${note ? `<div class="info-card"><p>${note}</p></div>` : ""}
+            <a href="${invitationUrl}" class="button">View Invitation</a>
+            <div class="footer">
+              <p><strong>Matchlance</strong> - Connecting Clients with Top Freelancers</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Job invitation email sent to ${email}`);
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("SendGrid job invitation email error:", error);
+    if (isSendGridError(error) && error.response) {
+      console.error(error.response.body);
+    }
+    return { success: false, error };
+  }
+};
+
+export const sendSavedSearchAlertEmail = async (
+  email: string,
+  firstName: string,
+  searchName: string,
+  jobs: AlertJobDetails[]
+) => {
+  const projectUrl = `${
+    process.env.FRONTEND_PROJECT_URL || process.env.FRONTEND_URL
+  }`;
+
+  const formatBudget = (budget: AlertJobDetails["budget"]) =>
+    budget.type === "fixed"
+      ? `${budget.amount} ${budget.currency} fixed`
+      : `${budget.min}-${budget.max} ${budget.currency}/hr`;
+
+  const count = `${jobs.length} new job${jobs.length === 1 ? "" : "s"}`;
+  const textList = jobs
+    .map((job) => `- ${job.title} (${formatBudget(job.budget)})\n  ${projectUrl}/${job._id}`)
+    .join("\n");
+  const htmlList = jobs
+    .map(
+      (job) =>
+        `<li><a href="${projectUrl}/${job._id}">${job.title}</a> &middot; ${formatBudget(job.budget)}</li>`
+    )
+    .join("");
+
+  const msg = {
+    to: email,
+    from: {
+      email: FROM_EMAIL,
+      name: FROM_NAME,
+    },
+    subject: `${count} for "${searchName}"`,
+    text: `Hi ${firstName},\n\nYour saved search "${searchName}" has ${count}:\n\n${textList}\n\nBest regards,\nThe Matchlance Team`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .info-card {
+              background-color: #eff6ff;
+              border-left: 4px solid #2563eb;
+              padding: 20px;
+              margin: 20px 0;
+              border-radius: 5px;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h2>New Jobs for "${searchName}"</h2>
+            <p>Hi ${firstName},</p>
+            <p>Your saved search has ${count}:</p>
+            <div class="info-card">
+              <ul>${htmlList}</ul>
+            </div>
+            <div class="footer">
+              <p><strong>Matchlance</strong> - Connecting Clients with Top Freelancers</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Saved search alert email sent to ${email}`);
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("SendGrid saved search alert email error:", error);
+    if (isSendGridError(error) && error.response) {
+      console.error(error.response.body);
+    }
+    return { success: false, error };
+  }
+};
@@ -0,0 +1,222 @@
+import type { Types } from "mongoose";
+import { FreelancerProfile } from "../models/freelancer.js";
+import { EXPERIENCE_LEVELS } from "../models/job.js";
+import { Proposal } from "../models/proposal.js";
+import { escapeRegex } from "./jobSearch.js";
+import type { CachedJob } from "./jobCache.js";
+
+// how many freelancers a job's recommendations keep
+export const MAX_RECOMMENDED_FREELANCERS = 50;
+
+// points each signal is worth, out of 100
+const WEIGHTS = {
+  skills: 40,
+  rate: 15,
+  category: 10,
+  experience: 10,
+  availability: 10,
+  rating: 10,
+  successRate: 5,
+};
+
+type MatchJob = Pick<
+  CachedJob,
+  "_id" | "skills" | "category" | "experienceLevel" | "budget" | "duration"
+>;
+
+export interface RecommendedFreelancer {
+  freelancerId: Types.ObjectId;
+  firstName: string;
+  lastName: string;
+  title: string;
+  skills: string[];
+  hourlyRate: { min: number; max: number; currency: string };
+  availability: { status: string; hoursPerWeek: number };
+  rating: { average: number; count: number };
+  successRate: number;
+  matchScore: number;
+}
+
+/**
+ * The hourly rate a job can pay. Fixed jobs only have one when they carry an
+ * hour estimate to spread the amount over.
+ */
+export const getJobHourlyBudget = (
+  job: Pick<CachedJob, "budget" | "duration">
+): number | null => {
+  if (job.budget.type === "hourly") return job.budget.max ?? null;
+  if (job.budget.amount && job.duration.estimatedHours) {
+    return job.budget.amount / job.duration.estimatedHours;
+  }
+  return null;
+};
+
+/**
+ * Rank freelancer profiles for a job. Only freelancers available for hire
+ * who share a skill or the category are considered, and anyone who already
+ * sent a proposal is left out.
+ */
+export const rankFreelancersForJob = async (
+  job: MatchJob
+): Promise<RecommendedFreelancer[]> => {
+  const applicantIds = await Proposal.find({ jobId: job._id }).distinct("freelancerId");
+
+  const jobSkills = job.skills.map((s) => s.toLowerCase());
+  const hourlyBudget = getJobHourlyBudget(job);
+  const jobLevel = EXPERIENCE_LEVELS.indexOf(
+    job.experienceLevel as (typeof EXPERIENCE_LEVELS)[number]
+  );
+
+  return FreelancerProfile.aggregate([
+    {
+      $match: {
+        freelancerId: { $nin: applicantIds },
+        isAvailableForHire: true,
+        "availability.status": { $ne: "not-available" },
+        $or: [
+          { skills: { $in: job.skills.map((s) => new RegExp(`^${escapeRegex(s)}$`, "i")) } },
+          { categories: job.category },
+        ],
+      },
+    },
+    {
+      $addFields: {
+        scores: {
+          skills: {
+            $multiply: [
+              {
+                $divide: [
+                  {
+                    $size: {
+                      $setIntersection: [
+                        { $map: { input: "$skills", as: "s", in: { $toLower: "$$s" } } },
+                        jobSkills,
+                      ],
+                    },
+                  },
+                  Math.max(jobSkills.length, 1),
+                ],
+              },
+              WEIGHTS.skills,
+            ],
+          },
+          category: { $cond: [{ $in: [job.category, "$categories"] }, WEIGHTS.category, 0] },
+          // full points for the level asked for, half for one level either side
+          experience: {
+            $switch: {
+              branches: [
+                {
+                  case: {
+                    $eq: [{ $indexOfArray: [EXPERIENCE_LEVELS, "$experienceLevel"] }, jobLevel],
+                  },
+                  then: WEIGHTS.experience,
+                },
+                {
+                  case: {
+                    $eq: [
+                      {
+                        $abs: {
+                          $subtract: [
+                            { $indexOfArray: [EXPERIENCE_LEVELS, "$experienceLevel"] },
+                            jobLevel,
+                          ],
+                        },
+                      },
+                      1,
+                    ],
+                  },
+                  then: WEIGHTS.experience / 2,
+                },
+              ],
+              default: 0,
+            },
+          },
+          // within budget scores fully, up to 20% over scores half, unknown budgets score half
+          rate:
+            hourlyBudget === null
+              ? WEIGHTS.rate / 2
+              : {
+                  $switch: {
+                    branches: [
+                      { case: { $lte: ["$hourlyRate.min", hourlyBudget] }, then: WEIGHTS.rate },
+                      {
+                        case: { $lte: ["$hourlyRate.min", hourlyBudget * 1.2] },
+                        then: WEIGHTS.rate / 2,
+                      },
+                    ],
+                    default: 0,
+                  },
+                },
+          availability: {
+            $cond: [
+              { $eq: ["$availability.status", "available"] },
+              WEIGHTS.availability,
+              WEIGHTS.availability / 4,
+            ],
+          },
+          rating: {
+            $multiply: [{ $divide: [{ $ifNull: ["$rating.average", 0] }, 5] }, WEIGHTS.rating],
+          },
+          successRate: {
+            $multiply: [
+              { $divide: [{ $ifNull: ["$successRate", 0] }, 100] },
+              WEIGHTS.successRate,
+            ],
+          },
+        },
+      },
+    },
+    {
+      $addFields: {
+        matchScore: {
+          $round: [
+            {
+              $add: [
+                "$scores.skills",
+                "$scores.category",
+                "$scores.experience",
+                "$scores.rate",
+                "$scores.availability",
+                "$scores.rating",
+                "$scores.successRate",
+              ],
+            },
+            1,
+          ],
+        },
+      },
+    },
+    { $sort: { matchScore: -1, "rating.average": -1, _id: 1 } },
+    { $limit: MAX_RECOMMENDED_FREELANCERS },
+    {
+      $lookup: {
+        from: "users",
+        localField: "freelancerId",
+        foreignField: "_id",
+        as: "user",
+      },
+    },
+    { $unwind: "$user" },
+    {
+      $project: {
+        _id: 0,
+        freelancerId: 1,
+        firstName: "$user.firstName",
+        lastName: "$user.lastName",
+        title: 1,
+        profilePicture: 1,
+        skills: 1,
+        categories: 1,
+        experienceLevel: 1,
+        hourlyRate: 1,
+        "availability.status": 1,
+        "availability.hoursPerWeek": 1,
+        "rating.average": 1,
+        "rating.count": 1,
+        successRate: 1,
+        completedJobs: 1,
+        matchScore: 1,
+      },
+    },
+  ]);
+};
@@ -0,0 +1,310 @@
+import { JOB_CATEGORIES, EXPERIENCE_LEVELS } from "../models/job.js";
+import {
+  AVAILABILITY_STATUSES,
+  LANGUAGE_PROFICIENCIES,
+} from "../models/freelancer.js";
+import {
+  escapeRegex,
+  parseList,
+  parseOptionalNumber,
+  matchAll,
+  countsFor,
+  type FacetRow,
+} from "./jobSearch.js";
+
+type Condition = Record<string, unknown>;
+
+// upper bounds of each bucket, by the freelancer's minimum hourly rate
+export const HOURLY_RATE_BUCKETS = [15, 30, 60, 100];
+
+export const FREELANCER_SORT_FIELDS = ["relevance", "rating"] as const;
+
+export interface FreelancerSearchFilters {
+  keyword?: string;
+  skills?: string[];
+  skillsMatch: "any" | "all";
+  categories?: string[];
+  experienceLevels?: string[];
+  rateMin?: number;
+  rateMax?: number;
+  availabilityStatuses?: string[];
+  minHoursPerWeek?: number;
+  country?: string;
+  languages?: string[];
+  minProficiency?: (typeof LANGUAGE_PROFICIENCIES)[number];
+  minRating?: number;
+  availableForHire?: boolean;
+  sortBy: (typeof FREELANCER_SORT_FIELDS)[number];
+}
+
+/**
+ * Read freelancer search filters from the query string. List filters take
+ * comma-separated values.
+ * @returns The filters, or an error message for the first invalid one
+ */
+export const parseFreelancerSearchQuery = (
+  query: Record<string, string | undefined>
+): { filters: FreelancerSearchFilters } | { error: string } => {
+  const filters: FreelancerSearchFilters = {
+    skillsMatch: "any",
+    sortBy: query.keyword?.trim() || query.skills ? "relevance" : "rating",
+  };
+
+  const keyword = query.keyword?.trim();
+  if (keyword) filters.keyword = keyword;
+
+  const listFilters = [
+    ["category", "categories", JOB_CATEGORIES],
+    ["experienceLevel", "experienceLevels", EXPERIENCE_LEVELS],
+    ["availability", "availabilityStatuses", AVAILABILITY_STATUSES],
+  ] as const;
+
+  for (const [param, key, allowed] of listFilters) {
+    const values = parseList(query[param]);
+    const invalid = values.find((v) => !(allowed as readonly string[]).includes(v));
+    if (invalid) {
+      return { error: `${invalid} is not a valid ${param}` };
+    }
+    if (values.length) filters[key] = values;
+  }
+
+  const skills = parseList(query.skills);
+  if (skills.length > 10) {
+    return { error: "Filter by at most 10 skills" };
+  }
+  if (skills.length) filters.skills = skills;
+
+  if (query.skillsMatch) {
+    if (query.skillsMatch !== "any" && query.skillsMatch !== "all") {
+      return { error: "skillsMatch must be any or all" };
+    }
+    filters.skillsMatch = query.skillsMatch;
+  }
+
+  const rateMin = parseOptionalNumber(query.rateMin);
+  const rateMax = parseOptionalNumber(query.rateMax);
+  if (rateMin === null || rateMax === null) {
+    return { error: "Hourly rate range must be non-negative numbers" };
+  }
+  if (rateMin !== undefined && rateMax !== undefined && rateMax < rateMin) {
+    return { error: "rateMax cannot be less than rateMin" };
+  }
+  if (rateMin !== undefined) filters.rateMin = rateMin;
+  if (rateMax !== undefined) filters.rateMax = rateMax;
+
+  const minHoursPerWeek = parseOptionalNumber(query.minHoursPerWeek);
+  if (minHoursPerWeek === null || (minHoursPerWeek ?? 0) > 168) {
+    return { error: "minHoursPerWeek must be between 0 and 168" };
+  }
+  if (minHoursPerWeek !== undefined) filters.minHoursPerWeek = minHoursPerWeek;
+
+  const country = query.country?.trim();
+  if (country) filters.country = country;
+
+  const languages = parseList(query.languages);
+  if (languages.length > 5) {
+    return { error: "Filter by at most 5 languages" };
+  }
+  if (languages.length) filters.languages = languages;
+
+  if (query.proficiency) {
+    if (!(LANGUAGE_PROFICIENCIES as readonly string[]).includes(query.proficiency)) {
+      return {
+        error: `proficiency must be one of ${LANGUAGE_PROFICIENCIES.join(", ")}`,
+      };
+    }
+    if (!filters.languages) {
+      return { error: "proficiency needs at least one language" };
+    }
+    filters.minProficiency = query.proficiency as (typeof LANGUAGE_PROFICIENCIES)[number];
+  }
+
+  const minRating = parseOptionalNumber(query.minRating);
+  if (minRating === null || (minRating ?? 0) > 5) {
+    return { error: "minRating must be between 0 and 5" };
+  }
+  if (minRating !== undefined) filters.minRating = minRating;
+
+  if (query.availableForHire !== undefined) {
+    if (query.availableForHire !== "true" && query.availableForHire !== "false") {
+      return { error: "availableForHire must be true or false" };
+    }
+    filters.availableForHire = query.availableForHire === "true";
+  }
+
+  if (query.sortBy) {
+    if (!(FREELANCER_SORT_FIELDS as readonly string[]).includes(query.sortBy)) {
+      return { error: `sortBy must be one of ${FREELANCER_SORT_FIELDS.join(", ")}` };
+    }
+    filters.sortBy = query.sortBy as FreelancerSearchFilters["sortBy"];
+  }
+
+  return { filters };
+};
+
+const skillPatterns = (skills: string[]) =>
+  skills.map((skill) => new RegExp(`^${escapeRegex(skill)}$`, "i"));
+
+export interface FreelancerSearchConditions {
+  // $text has to sit at the top of the first $match, so it is kept apart
+  text: Condition | null;
+  // conditions every result and every facet shares
+  base: Condition[];
+  // faceted filters, left out of their own facet so the sidebar shows the alternatives
+  category: Condition | null;
+  experienceLevel: Condition | null;
+  availability: Condition | null;
+  rate: Condition | null;
+}
+
+export const buildFreelancerSearchConditions = (
+  filters: FreelancerSearchFilters
+): FreelancerSearchConditions => {
+  const base: Condition[] = [];
+
+  if (filters.skills) {
+    const patterns = skillPatterns(filters.skills);
+    base.push({
+      skills: filters.skillsMatch === "all" ? { $all: patterns } : { $in: patterns },
+    });
+  }
+
+  if (filters.minHoursPerWeek !== undefined) {
+    base.push({ "availability.hoursPerWeek": { $gte: filters.minHoursPerWeek } });
+  }
+
+  if (filters.country) {
+    base.push({
+      "location.country": { $regex: `^${escapeRegex(filters.country)}$`, $options: "i" },
+    });
+  }
+
+  // every listed language at the minimum proficiency or better
+  if (filters.languages) {
+    const proficiencies = LANGUAGE_PROFICIENCIES.slice(
+      LANGUAGE_PROFICIENCIES.indexOf(filters.minProficiency || "basic")
+    );
+    for (const language of filters.languages) {
+      base.push({
+        languages: {
+          $elemMatch: {
+            language: { $regex: `^${escapeRegex(language)}$`, $options: "i" },
+            proficiency: { $in: proficiencies },
+          },
+        },
+      });
+    }
+  }
+
+  if (filters.minRating !== undefined) {
+    base.push({ "rating.average": { $gte: filters.minRating } });
+  }
+
+  if (filters.availableForHire !== undefined) {
+    base.push({ isAvailableForHire: filters.availableForHire });
+  }
+
+  // a freelancer matches when their rate range overlaps the one asked for
+  const rate: Condition = {};
+  if (filters.rateMin !== undefined) rate["hourlyRate.max"] = { $gte: filters.rateMin };
+  if (filters.rateMax !== undefined) rate["hourlyRate.min"] = { $lte: filters.rateMax };
+
+  return {
+    text: filters.keyword ? { $text: { $search: filters.keyword } } : null,
+    base,
+    category: filters.categories ? { categories: { $in: filters.categories } } : null,
+    experienceLevel: filters.experienceLevels
+      ? { experienceLevel: { $in: filters.experienceLevels } }
+      : null,
+    availability: filters.availabilityStatuses
+      ? { "availability.status": { $in: filters.availabilityStatuses } }
+      : null,
+    rate: Object.keys(rate).length ? rate : null,
+  };
+};
+
+/**
+ * Relevance is the text score plus one point per requested skill the
+ * freelancer has, with rating as a small tie-breaker
+ */
+export const buildFreelancerRelevance = (filters: FreelancerSearchFilters) => ({
+  $add: [
+    filters.keyword ? { $meta: "textScore" } : 0,
+    filters.skills
+      ? {
+          $size: {
+            $setIntersection: [
+              { $map: { input: "$skills", as: "s", in: { $toLower: "$$s" } } },
+              filters.skills.map((s) => s.toLowerCase()),
+            ],
+          },
+        }
+      : 0,
+    { $multiply: ["$rating.average", 0.1] },
+  ],
+});
+
+export const getFreelancerSort = (filters: FreelancerSearchFilters) =>
+  filters.sortBy === "relevance"
+    ? { score: -1 as const, "rating.average": -1 as const, _id: 1 as const }
+    : { "rating.average": -1 as const, "rating.count": -1 as const, _id: 1 as const };
+
+const rateBucketLabel = (index: number): string =>
+  index < HOURLY_RATE_BUCKETS.length
+    ? `${index === 0 ? 0 : HOURLY_RATE_BUCKETS[index - 1]}-${HOURLY_RATE_BUCKETS[index]}`
+    : `${HOURLY_RATE_BUCKETS[HOURLY_RATE_BUCKETS.length - 1]}+`;
+
+/**
+ * $facet branches counting freelancers per category, experience level,
+ * availability status and hourly rate bucket. Each facet applies every
+ * filter except its own.
+ */
+export const buildFreelancerSearchFacets = (conditions: FreelancerSearchConditions) => ({
+  categories: [
+    matchAll([conditions.experienceLevel, conditions.availability, conditions.rate]),
+    { $unwind: "$categories" },
+    { $group: { _id: "$categories", count: { $sum: 1 } } },
+  ],
+  experienceLevels: [
+    matchAll([conditions.category, conditions.availability, conditions.rate]),
+    { $group: { _id: "$experienceLevel", count: { $sum: 1 } } },
+  ],
+  availability: [
+    matchAll([conditions.category, conditions.experienceLevel, conditions.rate]),
+    { $group: { _id: "$availability.status", count: { $sum: 1 } } },
+  ],
+  hourlyRates: [
+    matchAll([conditions.category, conditions.experienceLevel, conditions.availability]),
+    {
+      $group: {
+        _id: {
+          $switch: {
+            branches: HOURLY_RATE_BUCKETS.map((bound, index) => ({
+              case: { $lt: ["$hourlyRate.min", bound] },
+              then: rateBucketLabel(index),
+            })),
+            default: rateBucketLabel(HOURLY_RATE_BUCKETS.length),
+          },
+        },
+        count: { $sum: 1 },
+      },
+    },
+  ],
+});
+
+export const formatFreelancerSearchFacets = (facets: {
+  categories: FacetRow[];
+  experienceLevels: FacetRow[];
+  availability: FacetRow[];
+  hourlyRates: FacetRow[];
+}) => ({
+  categories: countsFor(facets.categories, JOB_CATEGORIES),
+  experienceLevels: countsFor(facets.experienceLevels, EXPERIENCE_LEVELS),
+  availability: countsFor(facets.availability, AVAILABILITY_STATUSES),
+  hourlyRates: [...HOURLY_RATE_BUCKETS, null].map((bound, index) => ({
+    value: rateBucketLabel(index),
+    rateMin: index === 0 ? 0 : HOURLY_RATE_BUCKETS[index - 1],
+    ...(bound !== null && { rateMax: bound }),
+    count: facets.hourlyRates.find((r) => r._id === rateBucketLabel(index))?.count || 0,
+  })),
+});
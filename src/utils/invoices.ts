@@ -0,0 +1,250 @@
+import { Types } from "mongoose";
+import { Contract } from "../models/contract.js";
+import { Timesheet } from "../models/timesheet.js";
+import { ClientProfile } from "../models/client.js";
+import { FreelancerProfile } from "../models/freelancer.js";
+import { LedgerAccount, type ILedgerTransaction } from "../models/ledger.js";
+import {
+  Invoice,
+  InvoiceCounter,
+  type IInvoice,
+  type IInvoiceLineItem,
+  type IBillingParty,
+} from "../models/invoice.js";
+import { getCachedUser } from "./userCache.js";
+import { emitToUser } from "./socket/emitters.js";
+import { fromMinorUnits } from "./payments/ledger.js";
+import { renderPdf, type PdfLine } from "./pdf.js";
+
+const nextInvoiceSequence = async (clientId: string): Promise<number> => {
+  const counter = await InvoiceCounter.findOneAndUpdate(
+    { clientId },
+    { $inc: { sequence: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter.sequence;
+};
+
+export const formatInvoiceNumber = (sequence: number): string =>
+  `INV-${String(sequence).padStart(6, "0")}`;
+
+const getBillingParty = async (
+  userId: string,
+  role: "client" | "freelancer"
+): Promise<IBillingParty> => {
+  const user = await getCachedUser(userId);
+
+  const party: IBillingParty = {
+    userId: new Types.ObjectId(userId),
+    name: user ? `${user.firstName} ${user.lastName}` : "Unknown user",
+    ...(user?.email && { email: user.email }),
+  };
+
+  if (role === "client") {
+    const profile = await ClientProfile.findOne({ clientId: userId })
+      .select("company location")
+      .lean();
+    if (profile?.company?.name) party.companyName = profile.company.name;
+    if (profile?.company?.website) party.website = profile.company.website;
+    if (profile?.location?.country) party.country = profile.location.country;
+    if (profile?.location?.city) party.city = profile.location.city;
+  } else {
+    const profile = await FreelancerProfile.findOne({ freelancerId: userId })
+      .select("title location")
+      .lean();
+    if (profile?.title) party.title = profile.title;
+    if (profile?.location?.country) party.country = profile.location.country;
+    if (profile?.location?.city) party.city = profile.location.city;
+  }
+
+  return party;
+};
+
+/**
+ * Issue the invoice for an escrow release. Safe to call more than once for
+ * the same release, later calls return the existing invoice.
+ */
+export const createInvoiceForRelease = async (
+  transaction: ILedgerTransaction
+): Promise<IInvoice | null> => {
+  if (transaction.type !== "escrow_release" || !transaction.contractId) {
+    return null;
+  }
+
+  const existing = await Invoice.findOne({ ledgerTransactionId: transaction._id });
+  if (existing) {
+    return existing;
+  }
+
+  const contract = await Contract.findById(transaction.contractId)
+    .select("clientId freelancerId projectDetails.title milestones")
+    .lean();
+  if (!contract) {
+    return null;
+  }
+
+  // gross leaves escrow, the platform revenue credit is the fee
+  const accounts = await LedgerAccount.find({
+    _id: { $in: transaction.entries.map((e) => e.accountId) },
+  })
+    .select("_id type")
+    .lean();
+  const revenueIds = accounts
+    .filter((a) => a.type === "platform_revenue")
+    .map((a) => a._id.toString());
+
+  const gross = transaction.entries
+    .filter((e) => e.direction === "debit")
+    .reduce((sum, e) => sum + e.amount, 0);
+  const fee = transaction.entries
+    .filter((e) => e.direction === "credit" && revenueIds.includes(e.accountId.toString()))
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  const subtotal = fromMinorUnits(gross);
+  let lineItem: IInvoiceLineItem = {
+    description: transaction.description || `Payment for ${contract.projectDetails.title}`,
+    quantity: 1,
+    unitPrice: subtotal,
+    amount: subtotal,
+  };
+
+  if (transaction.timesheetId) {
+    const timesheet = await Timesheet.findById(transaction.timesheetId).lean();
+    if (timesheet) {
+      lineItem = {
+        description: `Hours for the week of ${timesheet.weekStart.toISOString().slice(0, 10)}`,
+        quantity: Math.round((timesheet.totalMinutes / 60) * 100) / 100,
+        unitPrice: timesheet.hourlyRate,
+        amount: subtotal,
+      };
+    }
+  } else if (transaction.milestoneId) {
+    const milestone = contract.milestones?.find(
+      (m) => m._id.toString() === transaction.milestoneId?.toString()
+    );
+    if (milestone) {
+      lineItem.description = `Milestone: ${milestone.title}`;
+    }
+  }
+
+  const clientId = contract.clientId.toString();
+  const freelancerId = contract.freelancerId.toString();
+  const client = await getBillingParty(clientId, "client");
+  const freelancer = await getBillingParty(freelancerId, "freelancer");
+
+  // taken last so a failure above doesn't leave a gap in the client's numbering
+  const sequence = await nextInvoiceSequence(clientId);
+
+  const invoice = await Invoice.create({
+    invoiceNumber: formatInvoiceNumber(sequence),
+    sequence,
+    contractId: contract._id,
+    clientId,
+    freelancerId,
+    ledgerTransactionId: transaction._id,
+    ...(transaction.milestoneId && { milestoneId: transaction.milestoneId }),
+    ...(transaction.timesheetId && { timesheetId: transaction.timesheetId }),
+    client,
+    freelancer,
+    projectTitle: contract.projectDetails.title,
+    lineItems: [lineItem],
+    currency: transaction.currency,
+    subtotal,
+    platformFee: fromMinorUnits(fee),
+    platformFeePercent: gross > 0 ? Math.round((fee / gross) * 10000) / 100 : 0,
+    freelancerNet: fromMinorUnits(gross - fee),
+    issuedAt: transaction.createdAt,
+  });
+
+  for (const userId of [clientId, freelancerId]) {
+    emitToUser(userId, "invoice_issued", {
+      invoiceId: invoice._id,
+      invoiceNumber: invoice.invoiceNumber,
+      contractId: contract._id,
+    });
+  }
+
+  return invoice;
+};
+
+const money = (amount: number, currency: string): string =>
+  `${amount.toFixed(2)} ${currency}`;
+
+const describeParty = (party: IBillingParty): PdfLine[] =>
+  [
+    party.companyName ? `${party.name}, ${party.companyName}` : party.name,
+    party.title,
+    party.email,
+    [party.city, party.country].filter(Boolean).join(", "),
+    party.website,
+  ]
+    .filter((text): text is string => !!text)
+    .map((text) => ({ text, size: 10 }));
+
+export const renderInvoicePdf = (invoice: IInvoice): Buffer => {
+  const lines: PdfLine[] = [
+    { text: "INVOICE", size: 20, bold: true },
+    { text: invoice.invoiceNumber, size: 12, bold: true },
+    { text: `Issued ${invoice.issuedAt.toISOString().slice(0, 10)}`, size: 10 },
+    { text: `Project: ${invoice.projectTitle}`, size: 10 },
+
+    { text: "Bill to", bold: true, gap: 14 },
+    ...describeParty(invoice.client),
+
+    { text: "From", bold: true, gap: 10 },
+    ...describeParty(invoice.freelancer),
+
+    {
+      gap: 16,
+      bold: true,
+      size: 10,
+      columns: [
+        { text: "Description", x: 0 },
+        { text: "Qty", x: 290 },
+        { text: "Unit price", x: 340 },
+        { text: "Amount", x: 420 },
+      ],
+    },
+    ...invoice.lineItems.map((item) => ({
+      size: 10,
+      columns: [
+        { text: item.description.slice(0, 55), x: 0 },
+        { text: String(item.quantity), x: 290 },
+        { text: item.unitPrice.toFixed(2), x: 340 },
+        { text: money(item.amount, invoice.currency), x: 420 },
+      ],
+    })),
+
+    {
+      gap: 12,
+      size: 10,
+      bold: true,
+      columns: [
+        { text: "Total", x: 340 },
+        { text: money(invoice.subtotal, invoice.currency), x: 420 },
+      ],
+    },
+    {
+      size: 10,
+      columns: [
+        { text: `Platform fee (${invoice.platformFeePercent}%)`, x: 250 },
+        { text: money(invoice.platformFee, invoice.currency), x: 420 },
+      ],
+    },
+    {
+      size: 10,
+      columns: [
+        { text: "Paid to freelancer", x: 250 },
+        { text: money(invoice.freelancerNet, invoice.currency), x: 420 },
+      ],
+    },
+
+    {
+      gap: 20,
+      size: 9,
+      text: "Paid from escrow on Matchlance. This invoice was generated automatically when the payment was released.",
+    },
+  ];
+
+  return renderPdf(lines, invoice.invoiceNumber);
+};
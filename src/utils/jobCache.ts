@@ -1,11 +1,15 @@
 import type { Types } from "mongoose";
 import { redisClient } from "../config/redis.js";
 import { Job } from "../models/job.js";
+import type { RecommendedFreelancer } from "./freelancerMatching.js";
 
 const JOB_CACHE_PREFIX = "job:";
 const CLIENT_JOBS_CACHE_PREFIX = "jobs:client:";
 const MATCHED_JOBS_CACHE_PREFIX = "matched-jobs:";
+const RECOMMENDED_FREELANCERS_CACHE_PREFIX = "recommended-freelancers:";
 const JOB_CACHE_TTL = 3600;
+// shorter, freelancer profiles change ranking without touching the job
+const RECOMMENDED_FREELANCERS_CACHE_TTL = 900;
 
 export interface CachedJob {
   _id: Types.ObjectId;
@@ -28,6 +32,19 @@ export interface CachedJob {
   clientId: Types.ObjectId;
   status: string;
   proposals: string[];
+  screeningQuestions?: Array<{
+    _id: Types.ObjectId;
+    prompt: string;
+    type: "short_text" | "long_text" | "yes_no" | "multiple_choice" | "url";
+    required: boolean;
+    options?: string[];
+  }>;
+  visibility?: "public" | "invite_only" | "private";
+  publishAt?: Date;
+  publishedAt?: Date;
+  expiresAt?: Date;
+  closedAt?: Date;
+  repostCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -83,14 +100,22 @@ export const getCachedJobsByClient = async (
   }
 };
 
+// the first page of matches and how many matched in all
+export interface CachedMatchedJobs {
+  jobs: CachedJob[];
+  total: number;
+}
+
 export const getCachedMatchedJobs = async (
   freelancerId: string
-): Promise<CachedJob[] | null> => {
+): Promise<CachedMatchedJobs | null> => {
   try {
     const cacheKey = `${MATCHED_JOBS_CACHE_PREFIX}${freelancerId}`;
     const cachedData = await redisClient.get(cacheKey);
     if (cachedData) {
-      return JSON.parse(cachedData);
+      const matched = JSON.parse(cachedData);
+      // entries cached as a bare list of jobs have no total
+      return Array.isArray(matched) ? null : matched;
     }
     return null;
   } catch (err) {
@@ -99,10 +124,13 @@ export const getCachedMatchedJobs = async (
   }
 };
 
+// recommendations are ranked against the job, so they go whenever it does
 export const invalidateJobCache = async (jobId: string): Promise<void> => {
   try {
-    const cacheKey = `${JOB_CACHE_PREFIX}${jobId}`;
-    await redisClient.del(cacheKey);
+    await redisClient.del(
+      `${JOB_CACHE_PREFIX}${jobId}`,
+      `${RECOMMENDED_FREELANCERS_CACHE_PREFIX}${jobId}`
+    );
   } catch (error) {
     console.error("Job cache invalidation error:", error);
   }
@@ -119,6 +147,27 @@ export const invalidateMatchedJobsCache = async (
   }
 };
 
+/**
+ * Drop every freelancer's matched jobs, for when a job enters or leaves the
+ * open pool and any of them might list it
+ */
+export const invalidateAllMatchedJobsCaches = async (): Promise<void> => {
+  try {
+    const stream = redisClient.scanStream({
+      match: `${MATCHED_JOBS_CACHE_PREFIX}*`,
+      count: 100,
+    });
+
+    for await (const keys of stream) {
+      if ((keys as string[]).length > 0) {
+        await redisClient.del(...(keys as string[]));
+      }
+    }
+  } catch (error) {
+    console.error("Matched jobs cache invalidation error:", error);
+  }
+};
+
 export const invalidateClientJobsCache = async (
   clientId: string
 ): Promise<void> => {
@@ -163,12 +212,55 @@ export const setJobCache = async (job: CachedJob): Promise<void> => {
 
 export const setMatchedJobsCache = async (
   freelancerId: string,
-  jobs: CachedJob[]
+  matched: CachedMatchedJobs
 ): Promise<void> => {
   try {
     const cacheKey = `${MATCHED_JOBS_CACHE_PREFIX}${freelancerId}`;
-    await redisClient.setex(cacheKey, JOB_CACHE_TTL, JSON.stringify(jobs));
+    await redisClient.setex(cacheKey, JOB_CACHE_TTL, JSON.stringify(matched));
   } catch (error) {
     console.error("Matched jobs cache set error:", error);
   }
 };
+
+export const getCachedRecommendedFreelancers = async (
+  jobId: string
+): Promise<RecommendedFreelancer[] | null> => {
+  try {
+    const cacheKey = `${RECOMMENDED_FREELANCERS_CACHE_PREFIX}${jobId}`;
+    const cachedData = await redisClient.get(cacheKey);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+    return null;
+  } catch (err) {
+    console.error("Recommended freelancers cache get error:", err);
+    return null;
+  }
+};
+
+export const setRecommendedFreelancersCache = async (
+  jobId: string,
+  freelancers: RecommendedFreelancer[]
+): Promise<void> => {
+  try {
+    const cacheKey = `${RECOMMENDED_FREELANCERS_CACHE_PREFIX}${jobId}`;
+    await redisClient.setex(
+      cacheKey,
+      RECOMMENDED_FREELANCERS_CACHE_TTL,
+      JSON.stringify(freelancers)
+    );
+  } catch (error) {
+    console.error("Recommended freelancers cache set error:", error);
+  }
+};
+
+export const invalidateRecommendedFreelancersCache = async (
+  jobId: string
+): Promise<void> => {
+  try {
+    const cacheKey = `${RECOMMENDED_FREELANCERS_CACHE_PREFIX}${jobId}`;
+    await redisClient.del(cacheKey);
+  } catch (error) {
+    console.error("Recommended freelancers cache invalidation error:", error);
+  }
+};
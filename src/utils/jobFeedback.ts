@@ -0,0 +1,80 @@
+import type { Types } from "mongoose";
+import { HiddenJob } from "../models/hiddenJob.js";
+
+// how many hides with the same reason it takes before matching reacts
+const MIN_REPEATED_SIGNALS = 2;
+
+export interface MatchSignals {
+  hiddenJobIds: Types.ObjectId[];
+  // budget at or below which a job reads as too low, per budget type
+  budgetFloors: Partial<Record<"fixed" | "hourly", number>>;
+  // lowercased skills the freelancer keeps turning down and doesn't list
+  unwantedSkills: string[];
+}
+
+// the one number a budget is judged by, the amount or the top hourly rate
+export const getBudgetValue = (budget: {
+  type: "fixed" | "hourly";
+  amount?: number;
+  max?: number;
+}): number | undefined => (budget.type === "fixed" ? budget.amount : budget.max);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+export const getHiddenJobIds = async (
+  freelancerId: string
+): Promise<Types.ObjectId[]> =>
+  HiddenJob.find({ freelancerId }).distinct("jobId");
+
+/**
+ * Read a freelancer's "not interested" history into signals for matching.
+ * A budget floor is the median budget the freelancer called too low, so a
+ * single odd hide doesn't sink everything below it.
+ */
+export const getMatchSignals = async (
+  freelancerId: string,
+  profileSkills: string[]
+): Promise<MatchSignals> => {
+  const hidden = await HiddenJob.find({ freelancerId })
+    .select("jobId reason budgetType budgetValue skills")
+    .lean();
+
+  const budgetFloors: MatchSignals["budgetFloors"] = {};
+  for (const type of ["fixed", "hourly"] as const) {
+    const values = hidden
+      .filter(
+        (h) =>
+          h.reason === "budget_too_low" &&
+          h.budgetType === type &&
+          h.budgetValue !== undefined
+      )
+      .map((h) => h.budgetValue!);
+    if (values.length >= MIN_REPEATED_SIGNALS) {
+      budgetFloors[type] = median(values);
+    }
+  }
+
+  const ownSkills = new Set(profileSkills.map((s) => s.toLowerCase()));
+  const skillCounts = new Map<string, number>();
+  for (const h of hidden.filter((h) => h.reason === "wrong_skills")) {
+    for (const skill of new Set(h.skills.map((s) => s.toLowerCase()))) {
+      if (!ownSkills.has(skill)) {
+        skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
+      }
+    }
+  }
+
+  return {
+    hiddenJobIds: hidden.map((h) => h.jobId),
+    budgetFloors,
+    unwantedSkills: [...skillCounts]
+      .filter(([, count]) => count >= MIN_REPEATED_SIGNALS)
+      .map(([skill]) => skill),
+  };
+};
@@ -0,0 +1,101 @@
+import dotenv from "dotenv";
+import { Job } from "../models/job.js";
+import {
+  invalidateJobCache,
+  invalidateClientJobsCache,
+  invalidateAllMatchedJobsCaches,
+} from "./jobCache.js";
+
+dotenv.config();
+
+// days an open job stays listed before it closes on its own
+export const JOB_EXPIRY_DAYS = parseInt(process.env.JOB_EXPIRY_DAYS || "30");
+
+export const getJobExpiresAt = (publishedAt: Date): Date =>
+  new Date(publishedAt.getTime() + JOB_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+// fields written whenever a job (re)enters the open pool
+export const getPublishFields = (publishedAt = new Date()) => ({
+  status: "open" as const,
+  publishedAt,
+  expiresAt: getJobExpiresAt(publishedAt),
+});
+
+/**
+ * Open drafts whose scheduled publish time has passed. Each job is saved
+ * through the document so the full validation runs, a draft that no longer
+ * passes stays a draft and keeps its schedule cleared.
+ */
+export const publishScheduledJobs = async (): Promise<number> => {
+  const due = await Job.find({
+    status: "draft",
+    publishAt: { $lte: new Date() },
+  });
+
+  let published = 0;
+
+  for (const job of due) {
+    try {
+      job.set(getPublishFields());
+      job.set("publishAt", undefined);
+      await job.save();
+      published++;
+    } catch (err) {
+      console.error(`Failed to publish scheduled job ${job._id}:`, err);
+      await Job.updateOne({ _id: job._id }, { $unset: { publishAt: 1 } });
+    }
+
+    await invalidateJobCache(job._id.toString());
+    await invalidateClientJobsCache(job.clientId.toString());
+  }
+
+  return published;
+};
+
+/**
+ * Close open jobs past their expiry. Jobs opened before expiry existed fall
+ * back to their creation date.
+ */
+export const expireOpenJobs = async (): Promise<number> => {
+  const now = new Date();
+  const legacyCutoff = new Date(
+    now.getTime() - JOB_EXPIRY_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const expiredFilter = {
+    status: "open",
+    $or: [
+      { expiresAt: { $lte: now } },
+      { expiresAt: { $exists: false }, createdAt: { $lte: legacyCutoff } },
+    ],
+  };
+
+  const expired = await Job.find(expiredFilter).select("_id clientId").lean();
+
+  let closed = 0;
+
+  for (const job of expired) {
+    // the filter is repeated so a job reposted meanwhile is left alone
+    const result = await Job.updateOne(
+      { ...expiredFilter, _id: job._id },
+      { $set: { status: "closed", closedAt: now } }
+    );
+    if (result.modifiedCount === 0) continue;
+
+    closed++;
+    await invalidateJobCache(job._id.toString());
+    await invalidateClientJobsCache(job.clientId.toString());
+  }
+
+  return closed;
+};
+
+export const processJobLifecycle = async (): Promise<void> => {
+  const published = await publishScheduledJobs();
+  const closed = await expireOpenJobs();
+
+  // matched jobs only list open jobs, so any flip changes them
+  if (published > 0 || closed > 0) {
+    await invalidateAllMatchedJobsCaches();
+  }
+};
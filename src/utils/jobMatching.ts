@@ -0,0 +1,317 @@
+import dotenv from "dotenv";
+import { EXPERIENCE_LEVELS } from "../models/job.js";
+import { getJobHourlyBudget } from "./freelancerMatching.js";
+import type { MatchSignals } from "./jobFeedback.js";
+import type { CachedJob } from "./jobCache.js";
+
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// text scores above this count as a full keyword match
+const TEXT_SCORE_CAP = 2;
+// jobs older than this get no recency points
+const RECENCY_WINDOW_DAYS = 14;
+// how far below the freelancer's minimum rate a budget still earns half points
+const BUDGET_TOLERANCE = 0.8;
+
+export type MatchWeights = Record<string, number>;
+
+// points each signal is worth; feedback is taken off instead of added
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  skills: 35,
+  related: 0,
+  text: 10,
+  budget: 15,
+  experience: 15,
+  category: 10,
+  recency: 15,
+  feedback: 20,
+};
+
+export interface MatchProfile {
+  skills: string[];
+  categories: string[];
+  experienceLevel: string;
+  hourlyRate: { min: number; max: number };
+  // from the skill catalogue, only looked up when the related signal has a weight
+  relatedSkills?: string[];
+}
+
+export type MatchJob = Pick<
+  CachedJob,
+  "skills" | "category" | "experienceLevel" | "budget" | "duration" | "createdAt"
+> & {
+  publishedAt?: Date;
+  // from the $text stage, missing when the job matched on skills alone
+  textScore?: number;
+};
+
+export interface MatchContext {
+  profile: MatchProfile;
+  feedback?: Pick<MatchSignals, "budgetFloors" | "unwantedSkills">;
+  now: Date;
+}
+
+/**
+ * value is the share of the signal's weight the job earns, from -1 to 1,
+ * and reason is what the freelancer is shown for it
+ */
+export interface SignalResult {
+  value: number;
+  reason?: string;
+}
+
+export interface ScoringSignal {
+  name: string;
+  evaluate: (job: MatchJob, context: MatchContext) => SignalResult;
+}
+
+export interface MatchReason {
+  signal: string;
+  points: number;
+  reason: string;
+}
+
+export interface JobMatch {
+  matchScore: number;
+  matchReasons: MatchReason[];
+}
+
+const lowercase = (values: string[]): string[] => values.map((v) => v.toLowerCase());
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const skillsSignal: ScoringSignal = {
+  name: "skills",
+  evaluate: (job, { profile }) => {
+    const jobSkills = new Set(lowercase(job.skills));
+    if (!jobSkills.size) return { value: 0 };
+
+    const own = new Set(lowercase(profile.skills));
+    const matched = [...jobSkills].filter((skill) => own.has(skill)).length;
+
+    return {
+      value: matched / jobSkills.size,
+      ...(matched > 0 && { reason: `${matched} of ${jobSkills.size} skills match` }),
+    };
+  },
+};
+
+// credit for job skills the freelancer lacks but has a related skill for
+const relatedSkillsSignal: ScoringSignal = {
+  name: "related",
+  evaluate: (job, { profile }) => {
+    const jobSkills = [...new Map(job.skills.map((s) => [s.toLowerCase(), s])).values()];
+    if (!jobSkills.length || !profile.relatedSkills?.length) return { value: 0 };
+
+    const own = new Set(lowercase(profile.skills));
+    const related = new Set(lowercase(profile.relatedSkills));
+    const credited = jobSkills.filter(
+      (skill) => !own.has(skill.toLowerCase()) && related.has(skill.toLowerCase())
+    );
+
+    return {
+      value: credited.length / jobSkills.length,
+      ...(credited.length > 0 && {
+        reason: `Related to your skills: ${credited.join(", ")}`,
+      }),
+    };
+  },
+};
+
+const textSignal: ScoringSignal = {
+  name: "text",
+  evaluate: (job) => {
+    const textScore = job.textScore || 0;
+    return {
+      value: Math.min(textScore / TEXT_SCORE_CAP, 1),
+      ...(textScore > 0 && { reason: "Job description mentions your skills" }),
+    };
+  },
+};
+
+// jobs without an hourly figure to compare score half, like in freelancer recommendations
+const budgetSignal: ScoringSignal = {
+  name: "budget",
+  evaluate: (job, { profile }) => {
+    const hourlyBudget = getJobHourlyBudget(job);
+    if (hourlyBudget === null) return { value: 0.5 };
+
+    if (hourlyBudget >= profile.hourlyRate.min) {
+      return { value: 1, reason: "Budget within your rate" };
+    }
+    if (hourlyBudget >= profile.hourlyRate.min * BUDGET_TOLERANCE) {
+      return { value: 0.5, reason: "Budget slightly below your rate" };
+    }
+    return { value: 0 };
+  },
+};
+
+const experienceSignal: ScoringSignal = {
+  name: "experience",
+  evaluate: (job, { profile }) => {
+    const levels = EXPERIENCE_LEVELS as readonly string[];
+    const jobLevel = levels.indexOf(job.experienceLevel);
+    const ownLevel = levels.indexOf(profile.experienceLevel);
+    if (jobLevel === -1 || ownLevel === -1) return { value: 0 };
+
+    if (jobLevel === ownLevel) {
+      return { value: 1, reason: `Asks for ${job.experienceLevel} experience, like yours` };
+    }
+    if (Math.abs(jobLevel - ownLevel) === 1) {
+      return { value: 0.5, reason: `Asks for ${job.experienceLevel} experience, close to yours` };
+    }
+    return { value: 0 };
+  },
+};
+
+const categorySignal: ScoringSignal = {
+  name: "category",
+  evaluate: (job, { profile }) =>
+    profile.categories.includes(job.category)
+      ? { value: 1, reason: `In ${job.category}, one of your categories` }
+      : { value: 0 },
+};
+
+// full points on the day it goes up, fading to none over the window
+const recencySignal: ScoringSignal = {
+  name: "recency",
+  evaluate: (job, { now }) => {
+    const postedAt = new Date(job.publishedAt || job.createdAt);
+    const ageDays = Math.max(0, Math.floor((now.getTime() - postedAt.getTime()) / DAY_MS));
+    const value = Math.max(0, 1 - ageDays / RECENCY_WINDOW_DAYS);
+
+    if (ageDays === 0) return { value, reason: "Posted today" };
+    if (ageDays < 7) {
+      return { value, reason: `Posted ${ageDays} day${ageDays === 1 ? "" : "s"} ago` };
+    }
+    return { value };
+  },
+};
+
+// half the weight for a budget under the freelancer's floor, a quarter per unwanted skill
+const feedbackSignal: ScoringSignal = {
+  name: "feedback",
+  evaluate: (job, { feedback }) => {
+    if (!feedback) return { value: 0 };
+
+    const reasons: string[] = [];
+    let penalty = 0;
+
+    const floor = feedback.budgetFloors[job.budget.type];
+    const budget = job.budget.type === "fixed" ? job.budget.amount : job.budget.max;
+    if (floor !== undefined && (budget ?? 0) <= floor) {
+      penalty += 0.5;
+      reasons.push("budget is as low as jobs you passed on");
+    }
+
+    const unwanted = [...new Set(lowercase(job.skills))].filter((skill) =>
+      feedback.unwantedSkills.includes(skill)
+    );
+    if (unwanted.length) {
+      penalty += 0.25 * unwanted.length;
+      reasons.push(`needs ${unwanted.join(", ")}, which you usually pass on`);
+    }
+
+    if (!reasons.length) return { value: 0 };
+
+    const reason = reasons.join(" and ");
+    return {
+      value: -Math.min(penalty, 1),
+      reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+    };
+  },
+};
+
+export const JOB_MATCH_SIGNALS: ScoringSignal[] = [
+  skillsSignal,
+  relatedSkillsSignal,
+  textSignal,
+  budgetSignal,
+  experienceSignal,
+  categorySignal,
+  recencySignal,
+  feedbackSignal,
+];
+
+/**
+ * Read weight overrides like "skills=40,recency=5" on top of the defaults.
+ * Unknown signals and values that aren't non-negative numbers are skipped
+ * with a warning so a typo doesn't take matching down.
+ */
+export const parseMatchWeights = (
+  raw: string | undefined,
+  defaults: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): MatchWeights => {
+  const weights = { ...defaults };
+
+  for (const entry of (raw || "").split(",")) {
+    if (!entry.trim()) continue;
+
+    const [name = "", value = ""] = entry.split("=").map((part) => part.trim());
+    const weight = Number(value);
+
+    if (!(name in defaults)) {
+      console.warn(`Ignoring weight for unknown match signal "${name}"`);
+      continue;
+    }
+    if (!value || !Number.isFinite(weight) || weight < 0) {
+      console.warn(`Ignoring invalid weight "${value}" for match signal "${name}"`);
+      continue;
+    }
+    weights[name] = weight;
+  }
+
+  return weights;
+};
+
+export const MATCH_WEIGHTS = parseMatchWeights(process.env.MATCH_WEIGHTS);
+
+/**
+ * Score one job for a freelancer. Each signal's value is scaled by its
+ * weight, and every signal that moved the score and has something to say
+ * becomes a match reason.
+ */
+export const scoreJob = (
+  job: MatchJob,
+  context: MatchContext,
+  weights: MatchWeights = MATCH_WEIGHTS,
+  signals: ScoringSignal[] = JOB_MATCH_SIGNALS
+): JobMatch => {
+  let matchScore = 0;
+  const matchReasons: MatchReason[] = [];
+
+  for (const signal of signals) {
+    const weight = weights[signal.name] ?? 0;
+    if (weight === 0) continue;
+
+    const { value, reason } = signal.evaluate(job, context);
+    const points = value * weight;
+    matchScore += points;
+
+    if (reason && points !== 0) {
+      matchReasons.push({ signal: signal.name, points: round(points), reason });
+    }
+  }
+
+  return { matchScore: round(matchScore), matchReasons };
+};
+
+/**
+ * Score and sort jobs for a freelancer, best first. Ties go to the newer job.
+ */
+export const rankJobs = <T extends MatchJob>(
+  jobs: T[],
+  context: MatchContext,
+  weights: MatchWeights = MATCH_WEIGHTS,
+  signals: ScoringSignal[] = JOB_MATCH_SIGNALS
+): Array<T & JobMatch> =>
+  jobs
+    .map((job) => ({ ...job, ...scoreJob(job, context, weights, signals) }))
+    .sort(
+      (a, b) =>
+        b.matchScore - a.matchScore ||
+        new Date(b.publishedAt || b.createdAt).getTime() -
+          new Date(a.publishedAt || a.createdAt).getTime()
+    );
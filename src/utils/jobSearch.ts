@@ -0,0 +1,367 @@
+import type { PipelineStage } from "mongoose";
+import {
+  JOB_CATEGORIES,
+  EXPERIENCE_LEVELS,
+  DURATION_TYPES,
+} from "../models/job.js";
+import { ClientProfile } from "../models/client.js";
+
+type Condition = Record<string, unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const POSTED_WITHIN_DAYS = { "24h": 1, "3d": 3, "7d": 7, "14d": 14, "30d": 30 };
+
+export type PostedWithin = keyof typeof POSTED_WITHIN_DAYS;
+
+// upper bounds of each bucket, fixed jobs by amount and hourly jobs by their top rate
+export const BUDGET_BUCKETS = {
+  fixed: [100, 500, 1000, 5000],
+  hourly: [15, 30, 60, 100],
+};
+
+// query parameters parseJobSearchQuery reads, pagination aside
+export const JOB_SEARCH_PARAMS = [
+  "keyword",
+  "category",
+  "experienceLevel",
+  "durationType",
+  "budgetType",
+  "budgetMin",
+  "budgetMax",
+  "postedWithin",
+  "skills",
+  "skillsMatch",
+  "clientCountry",
+  "paymentVerified",
+  "minClientRating",
+] as const;
+
+export interface JobSearchFilters {
+  keyword?: string;
+  categories?: string[];
+  experienceLevels?: string[];
+  budgetType?: "fixed" | "hourly";
+  budgetMin?: number;
+  budgetMax?: number;
+  durationTypes?: string[];
+  postedWithin?: PostedWithin;
+  skills?: string[];
+  skillsMatch: "any" | "all";
+  clientCountry?: string;
+  paymentVerified?: boolean;
+  minClientRating?: number;
+}
+
+// user input ends up in $regex, so it has to match literally
+export const escapeRegex = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const parseList = (value?: string): string[] =>
+  value
+    ? [...new Set(value.split(",").map((v) => v.trim()).filter(Boolean))]
+    : [];
+
+export const parseOptionalNumber = (value?: string): number | undefined | null => {
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Read job search filters from the query string. List filters take
+ * comma-separated values.
+ * @returns The filters, or an error message for the first invalid one
+ */
+export const parseJobSearchQuery = (
+  query: Record<string, string | undefined>
+): { filters: JobSearchFilters } | { error: string } => {
+  const filters: JobSearchFilters = { skillsMatch: "any" };
+
+  const keyword = query.keyword?.trim();
+  if (keyword) filters.keyword = keyword;
+
+  const listFilters = [
+    ["category", "categories", JOB_CATEGORIES],
+    ["experienceLevel", "experienceLevels", EXPERIENCE_LEVELS],
+    ["durationType", "durationTypes", DURATION_TYPES],
+  ] as const;
+
+  for (const [param, key, allowed] of listFilters) {
+    const values = parseList(query[param]);
+    const invalid = values.find((v) => !(allowed as readonly string[]).includes(v));
+    if (invalid) {
+      return { error: `${invalid} is not a valid ${param}` };
+    }
+    if (values.length) filters[key] = values;
+  }
+
+  if (query.budgetType) {
+    if (query.budgetType !== "fixed" && query.budgetType !== "hourly") {
+      return { error: "budgetType must be fixed or hourly" };
+    }
+    filters.budgetType = query.budgetType;
+  }
+
+  const budgetMin = parseOptionalNumber(query.budgetMin);
+  const budgetMax = parseOptionalNumber(query.budgetMax);
+  if (budgetMin === null || budgetMax === null) {
+    return { error: "Budget range must be non-negative numbers" };
+  }
+  if (budgetMin !== undefined && budgetMax !== undefined && budgetMax < budgetMin) {
+    return { error: "budgetMax cannot be less than budgetMin" };
+  }
+  if (budgetMin !== undefined) filters.budgetMin = budgetMin;
+  if (budgetMax !== undefined) filters.budgetMax = budgetMax;
+
+  if (query.postedWithin) {
+    if (!(query.postedWithin in POSTED_WITHIN_DAYS)) {
+      return {
+        error: `postedWithin must be one of ${Object.keys(POSTED_WITHIN_DAYS).join(", ")}`,
+      };
+    }
+    filters.postedWithin = query.postedWithin as PostedWithin;
+  }
+
+  const skills = parseList(query.skills);
+  if (skills.length > 10) {
+    return { error: "Filter by at most 10 skills" };
+  }
+  if (skills.length) filters.skills = skills;
+
+  if (query.skillsMatch) {
+    if (query.skillsMatch !== "any" && query.skillsMatch !== "all") {
+      return { error: "skillsMatch must be any or all" };
+    }
+    filters.skillsMatch = query.skillsMatch;
+  }
+
+  const clientCountry = query.clientCountry?.trim();
+  if (clientCountry) filters.clientCountry = clientCountry;
+
+  if (query.paymentVerified !== undefined) {
+    if (query.paymentVerified !== "true" && query.paymentVerified !== "false") {
+      return { error: "paymentVerified must be true or false" };
+    }
+    filters.paymentVerified = query.paymentVerified === "true";
+  }
+
+  const minClientRating = parseOptionalNumber(query.minClientRating);
+  if (minClientRating === null || (minClientRating ?? 0) > 5) {
+    return { error: "minClientRating must be between 0 and 5" };
+  }
+  if (minClientRating !== undefined) filters.minClientRating = minClientRating;
+
+  return { filters };
+};
+
+// a fixed job matches when its amount is in range, an hourly job when its rate range overlaps
+const buildBudgetCondition = (filters: JobSearchFilters): Condition | null => {
+  const { budgetType, budgetMin, budgetMax } = filters;
+  if (!budgetType && budgetMin === undefined && budgetMax === undefined) {
+    return null;
+  }
+
+  const fixed: Condition = { "budget.type": "fixed" };
+  const hourly: Condition = { "budget.type": "hourly" };
+
+  if (budgetMin !== undefined || budgetMax !== undefined) {
+    fixed["budget.amount"] = {
+      ...(budgetMin !== undefined && { $gte: budgetMin }),
+      ...(budgetMax !== undefined && { $lte: budgetMax }),
+    };
+    if (budgetMin !== undefined) hourly["budget.max"] = { $gte: budgetMin };
+    if (budgetMax !== undefined) hourly["budget.min"] = { $lte: budgetMax };
+  }
+
+  if (budgetType === "fixed") return fixed;
+  if (budgetType === "hourly") return hourly;
+  return { $or: [fixed, hourly] };
+};
+
+// client filters live on ClientProfile, so they narrow the search to matching client IDs
+const buildClientCondition = async (
+  filters: JobSearchFilters
+): Promise<Condition | null> => {
+  const { clientCountry, paymentVerified, minClientRating } = filters;
+  if (
+    clientCountry === undefined &&
+    paymentVerified === undefined &&
+    minClientRating === undefined
+  ) {
+    return null;
+  }
+
+  const clientIds = await ClientProfile.find({
+    ...(clientCountry && {
+      "location.country": {
+        $regex: `^${escapeRegex(clientCountry)}$`,
+        $options: "i",
+      },
+    }),
+    ...(paymentVerified !== undefined && { paymentVerified }),
+    ...(minClientRating !== undefined && {
+      "rating.average": { $gte: minClientRating },
+    }),
+  }).distinct("clientId");
+
+  return { clientId: { $in: clientIds } };
+};
+
+export interface JobSearchConditions {
+  // conditions every result and every facet shares
+  base: Condition[];
+  // faceted filters, left out of their own facet so the sidebar shows the alternatives
+  category: Condition | null;
+  experienceLevel: Condition | null;
+  budget: Condition | null;
+}
+
+export const buildJobSearchConditions = async (
+  filters: JobSearchFilters
+): Promise<JobSearchConditions> => {
+  const base: Condition[] = [];
+
+  if (filters.keyword) {
+    const pattern = escapeRegex(filters.keyword);
+    base.push({
+      $or: [
+        { title: { $regex: pattern, $options: "i" } },
+        { description: { $regex: pattern, $options: "i" } },
+        { skills: { $elemMatch: { $regex: pattern, $options: "i" } } },
+      ],
+    });
+  }
+
+  if (filters.durationTypes) {
+    base.push({ "duration.type": { $in: filters.durationTypes } });
+  }
+
+  if (filters.postedWithin) {
+    const since = new Date(Date.now() - POSTED_WITHIN_DAYS[filters.postedWithin] * DAY_MS);
+    // jobs opened before publishedAt existed fall back to their creation date
+    base.push({
+      $or: [
+        { publishedAt: { $gte: since } },
+        { publishedAt: { $exists: false }, createdAt: { $gte: since } },
+      ],
+    });
+  }
+
+  if (filters.skills) {
+    const patterns = filters.skills.map(
+      (skill) => new RegExp(`^${escapeRegex(skill)}$`, "i")
+    );
+    base.push({
+      skills: filters.skillsMatch === "all" ? { $all: patterns } : { $in: patterns },
+    });
+  }
+
+  const clientCondition = await buildClientCondition(filters);
+  if (clientCondition) base.push(clientCondition);
+
+  return {
+    base,
+    category: filters.categories ? { category: { $in: filters.categories } } : null,
+    experienceLevel: filters.experienceLevels
+      ? { experienceLevel: { $in: filters.experienceLevels } }
+      : null,
+    budget: buildBudgetCondition(filters),
+  };
+};
+
+// every filter at once, for queries that don't need facets
+export const combineJobSearchConditions = (
+  conditions: JobSearchConditions
+): Condition[] =>
+  [
+    ...conditions.base,
+    conditions.category,
+    conditions.experienceLevel,
+    conditions.budget,
+  ].filter((c): c is Condition => c !== null);
+
+const bucketLabel = (type: string, index: number, bounds: number[]): string =>
+  index < bounds.length
+    ? `${type}:${index === 0 ? 0 : bounds[index - 1]}-${bounds[index]}`
+    : `${type}:${bounds[bounds.length - 1]}+`;
+
+// $switch that names the budget bucket a job falls into
+const budgetBucketExpression = () => ({
+  $switch: {
+    branches: Object.entries(BUDGET_BUCKETS).flatMap(([type, bounds]) => {
+      const field = type === "fixed" ? "$budget.amount" : "$budget.max";
+      return [...bounds, null].map((bound, index) => ({
+        case: {
+          $and: [
+            { $eq: ["$budget.type", type] },
+            ...(bound !== null ? [{ $lt: [{ $ifNull: [field, 0] }, bound] }] : []),
+          ],
+        },
+        then: bucketLabel(type, index, bounds),
+      }));
+    }),
+    default: "other",
+  },
+});
+
+// $and refuses an empty list, so no conditions matches everything
+export const matchAll = (conditions: Array<Condition | null>): PipelineStage.Match => {
+  const active = conditions.filter((c): c is Condition => c !== null);
+  return { $match: active.length ? { $and: active } : {} };
+};
+
+/**
+ * $facet branches counting jobs per category, experience level and budget
+ * bucket. Each facet applies every filter except its own.
+ */
+export const buildJobSearchFacets = (conditions: JobSearchConditions) => ({
+  categories: [
+    matchAll([conditions.experienceLevel, conditions.budget]),
+    { $group: { _id: "$category", count: { $sum: 1 } } },
+  ],
+  experienceLevels: [
+    matchAll([conditions.category, conditions.budget]),
+    { $group: { _id: "$experienceLevel", count: { $sum: 1 } } },
+  ],
+  budgets: [
+    matchAll([conditions.category, conditions.experienceLevel]),
+    { $group: { _id: budgetBucketExpression(), count: { $sum: 1 } } },
+  ],
+});
+
+export interface FacetRow {
+  _id: string;
+  count: number;
+}
+
+export const countsFor = (rows: FacetRow[], values: readonly string[]) =>
+  values.map((value) => ({
+    value,
+    count: rows.find((r) => r._id === value)?.count || 0,
+  }));
+
+/**
+ * Turn raw facet rows into counts for every option, zeros included, with
+ * the range each budget bucket covers so it can be sent back as a filter
+ */
+export const formatJobSearchFacets = (facets: {
+  categories: FacetRow[];
+  experienceLevels: FacetRow[];
+  budgets: FacetRow[];
+}) => ({
+  categories: countsFor(facets.categories, JOB_CATEGORIES),
+  experienceLevels: countsFor(facets.experienceLevels, EXPERIENCE_LEVELS),
+  budgets: Object.entries(BUDGET_BUCKETS).flatMap(([type, bounds]) =>
+    [...bounds, null].map((bound, index) => {
+      const label = bucketLabel(type, index, bounds);
+      return {
+        value: label,
+        budgetType: type,
+        budgetMin: index === 0 ? 0 : bounds[index - 1],
+        ...(bound !== null && { budgetMax: bound }),
+        count: facets.budgets.find((r) => r._id === label)?.count || 0,
+      };
+    })
+  ),
+});
@@ -0,0 +1,48 @@
+import mongoose from "mongoose";
+import { Invitation } from "../models/invitation.js";
+
+export const JOB_VISIBILITIES = ["public", "invite_only", "private"] as const;
+
+export type JobVisibility = (typeof JOB_VISIBILITIES)[number];
+
+// jobs saved before visibility existed have no field and count as public
+export const isPublicJob = (job: { visibility?: JobVisibility }): boolean =>
+  !job.visibility || job.visibility === "public";
+
+// jobs the freelancer has an invitation for that was not declined
+export const getInvitedJobIds = async (
+  freelancerId: string
+): Promise<mongoose.Types.ObjectId[]> =>
+  Invitation.find({
+    freelancerId,
+    status: { $in: ["pending", "accepted"] },
+  }).distinct("jobId");
+
+// whether the freelancer holds an invitation to the job that was not declined
+export const isInvitedToJob = async (
+  freelancerId: string,
+  jobId: string
+): Promise<boolean> =>
+  !!(await Invitation.exists({
+    jobId,
+    freelancerId,
+    status: { $in: ["pending", "accepted"] },
+  }));
+
+/**
+ * Mongo filter for the jobs a user may find through search and matching:
+ * public jobs, plus invite-only jobs they were invited to. Private jobs are
+ * never listed, invitees reach them through their invitation.
+ */
+export const buildJobVisibilityFilter = async (freelancerId?: string) => {
+  const invitedJobIds = freelancerId ? await getInvitedJobIds(freelancerId) : [];
+
+  return {
+    $or: [
+      { visibility: { $nin: ["invite_only", "private"] } },
+      ...(invitedJobIds.length > 0
+        ? [{ visibility: "invite_only", _id: { $in: invitedJobIds } }]
+        : []),
+    ],
+  };
+};
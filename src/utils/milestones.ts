@@ -0,0 +1,82 @@
+import type { IContract, IMilestone, IMilestoneDraft } from "../models/contract.js";
+
+export const MAX_MILESTONES = 20;
+
+// compare money in cents so float sums like 0.1 + 0.2 still match the budget
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// milestones the freelancer has started on can no longer be replaced by a new plan
+export const getLockedMilestones = (contract: IContract): IMilestone[] =>
+  contract.milestones.filter((m) => m.status !== "funded");
+
+/**
+ * Parse the milestone plan from a request body
+ * @returns The drafts, or an error message for the first invalid entry
+ */
+export const parseMilestoneDrafts = (
+  input: unknown
+): { drafts: IMilestoneDraft[] } | { error: string } => {
+  if (!Array.isArray(input)) {
+    return { error: "Milestones must be an array" };
+  }
+
+  if (input.length > MAX_MILESTONES) {
+    return { error: `A contract cannot have more than ${MAX_MILESTONES} milestones` };
+  }
+
+  const drafts: IMilestoneDraft[] = [];
+
+  for (const item of input) {
+    if (typeof item?.title !== "string" || !item.title.trim()) {
+      return { error: "Each milestone needs a title" };
+    }
+
+    const amount = Number(item.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { error: "Each milestone needs an amount greater than 0" };
+    }
+
+    if (item.description !== undefined && typeof item.description !== "string") {
+      return { error: "Milestone description must be text" };
+    }
+
+    let dueDate: Date | undefined;
+    if (item.dueDate) {
+      dueDate = new Date(item.dueDate);
+      if (isNaN(dueDate.getTime())) {
+        return { error: "Invalid milestone due date" };
+      }
+    }
+
+    drafts.push({
+      title: item.title.trim(),
+      amount,
+      ...(item.description && { description: item.description.trim() }),
+      ...(dueDate && { dueDate }),
+    });
+  }
+
+  return { drafts };
+};
+
+/**
+ * Whether replacing the unstarted milestones with the drafts keeps the plan equal to the budget
+ */
+export const milestonePlanMatchesBudget = (
+  contract: IContract,
+  drafts: IMilestoneDraft[]
+): boolean => {
+  const lockedTotal = getLockedMilestones(contract).reduce(
+    (sum, m) => sum + toCents(m.amount),
+    0
+  );
+  const draftTotal = drafts.reduce((sum, d) => sum + toCents(d.amount), 0);
+
+  return lockedTotal + draftTotal === toCents(contract.budget.amount);
+};
+
+export const findMilestoneByDeliverable = (
+  contract: IContract,
+  deliverableId: string
+): IMilestone | undefined =>
+  contract.milestones.find((m) => m.deliverableId.toString() === deliverableId);
@@ -0,0 +1,415 @@
+import mongoose from "mongoose";
+import { randomUUID } from "crypto";
+import dotenv from "dotenv";
+import {
+  LedgerAccount,
+  LedgerTransaction,
+  type ILedgerTransaction,
+} from "../../models/ledger.js";
+import { FreelancerProfile } from "../../models/freelancer.js";
+import { ClientProfile } from "../../models/client.js";
+import { invalidateFreelancerCache } from "../freelancerCache.js";
+import { invalidateClientCache, getCachedClientProfile } from "../clientCache.js";
+import { createInvoiceForRelease } from "../invoices.js";
+import { getPaymentProvider } from "./provider.js";
+import {
+  PaymentError,
+  ensureAccount,
+  getBalance,
+  postTransaction,
+  reverseTransaction,
+  getAttemptKey,
+  findIdempotentTransaction,
+  fromMinorUnits,
+  type Currency,
+} from "./ledger.js";
+
+dotenv.config();
+
+// share of every escrow release kept by the platform
+export const PLATFORM_FEE_PERCENT = parseFloat(
+  process.env.PLATFORM_FEE_PERCENT || "10"
+);
+
+export const calculatePlatformFee = (
+  amount: number,
+  percent: number = PLATFORM_FEE_PERCENT
+): number => Math.round((amount * percent) / 100);
+
+// the parts of a contract the escrow needs, satisfied by documents and lean objects
+export interface EscrowContract {
+  _id: mongoose.Types.ObjectId | string;
+  clientId: mongoose.Types.ObjectId | string;
+  freelancerId: mongoose.Types.ObjectId | string;
+  budget: { currency: string };
+}
+
+interface EscrowLink {
+  milestoneId?: string;
+  timesheetId?: string;
+  description?: string;
+}
+
+const getParties = (contract: EscrowContract) => ({
+  contractId: contract._id.toString(),
+  clientId: contract.clientId.toString(),
+  freelancerId: contract.freelancerId.toString(),
+  currency: contract.budget.currency as Currency,
+});
+
+const assertPositive = (amount: number): void => {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new PaymentError("Amount must be greater than 0", "invalid_amount");
+  }
+};
+
+export const getEscrowBalance = (contract: EscrowContract): Promise<number> =>
+  getBalance(
+    "escrow",
+    contract._id.toString(),
+    contract.budget.currency as Currency
+  );
+
+/**
+ * Charge the client and hold the money in the contract's escrow
+ * @param amount - Minor units
+ * @throws PaymentError "payment_failed" if the provider declines the charge
+ */
+export const fundEscrow = async (
+  contract: EscrowContract,
+  amount: number,
+  idempotencyKey: string,
+  link: EscrowLink = {}
+): Promise<ILedgerTransaction> => {
+  assertPositive(amount);
+  const { contractId, clientId, freelancerId, currency } = getParties(contract);
+
+  const existing = await findIdempotentTransaction(idempotencyKey, "escrow_fund", contractId);
+  if (existing) {
+    return existing;
+  }
+
+  const clientProfile = await getCachedClientProfile(clientId);
+  if (!clientProfile?.paymentVerified) {
+    throw new PaymentError(
+      "The client needs a verified payment method to fund escrow",
+      "payment_method_required"
+    );
+  }
+
+  // money comes in from outside, so charge first and only record a success
+  const result = await getPaymentProvider().charge({
+    userId: clientId,
+    amount,
+    currency,
+    idempotencyKey,
+    ...(link.description && { description: link.description }),
+  });
+
+  if (result.status !== "succeeded") {
+    throw new PaymentError(result.failureReason || "Payment failed", "payment_failed");
+  }
+
+  const funding = await ensureAccount("client_funding", clientId, currency);
+  const escrow = await ensureAccount("escrow", contractId, currency);
+
+  return postTransaction({
+    type: "escrow_fund",
+    idempotencyKey,
+    currency,
+    entries: [
+      { account: funding, direction: "debit", amount },
+      { account: escrow, direction: "credit", amount },
+    ],
+    contractId,
+    clientId,
+    freelancerId,
+    providerReference: result.reference,
+    ...link,
+  });
+};
+
+/**
+ * Fund escrow only by the amount it is short of covering `required`
+ * @returns The funding transaction, or null if escrow already covered it
+ */
+export const fundEscrowShortfall = async (
+  contract: EscrowContract,
+  required: number,
+  idempotencyKey: string,
+  link: EscrowLink = {}
+): Promise<ILedgerTransaction | null> => {
+  // a retried request must reuse its first charge rather than see the new balance
+  const existing = await findIdempotentTransaction(
+    idempotencyKey,
+    "escrow_fund",
+    contract._id.toString()
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const shortfall = required - (await getEscrowBalance(contract));
+  if (shortfall <= 0) {
+    return null;
+  }
+  return fundEscrow(contract, shortfall, idempotencyKey, link);
+};
+
+/**
+ * Pay the freelancer out of escrow into their wallet, less the platform fee
+ * @param amount - Gross amount in minor units
+ * @throws PaymentError "insufficient_funds" if escrow holds less than amount
+ */
+export const releaseEscrow = async (
+  contract: EscrowContract,
+  amount: number,
+  idempotencyKey: string,
+  link: EscrowLink = {}
+): Promise<ILedgerTransaction> => {
+  assertPositive(amount);
+  const { contractId, clientId, freelancerId, currency } = getParties(contract);
+
+  const fee = calculatePlatformFee(amount);
+  const escrow = await ensureAccount("escrow", contractId, currency);
+  const wallet = await ensureAccount("wallet", freelancerId, currency);
+
+  const entries: Parameters<typeof postTransaction>[0]["entries"] = [
+    { account: escrow, direction: "debit", amount },
+    { account: wallet, direction: "credit", amount: amount - fee },
+  ];
+
+  if (fee > 0) {
+    const revenue = await ensureAccount("platform_revenue", null, currency);
+    entries.push({ account: revenue, direction: "credit", amount: fee });
+  }
+
+  const transaction = await postTransaction({
+    type: "escrow_release",
+    idempotencyKey,
+    currency,
+    entries,
+    contractId,
+    clientId,
+    freelancerId,
+    ...link,
+  });
+
+  await syncProfileTotals(clientId, freelancerId);
+
+  // the payment has happened either way, a missing invoice can be reissued
+  try {
+    await createInvoiceForRelease(transaction);
+  } catch (error) {
+    console.error(`Failed to create invoice for transaction ${transaction._id}:`, error);
+  }
+
+  return transaction;
+};
+
+/**
+ * Return escrowed money to the client
+ * @throws PaymentError "insufficient_funds" or "payment_failed"
+ */
+export const refundEscrow = async (
+  contract: EscrowContract,
+  amount: number,
+  idempotencyKey: string = randomUUID()
+): Promise<ILedgerTransaction> => {
+  assertPositive(amount);
+  const { contractId, clientId, freelancerId, currency } = getParties(contract);
+
+  const escrow = await ensureAccount("escrow", contractId, currency);
+  const funding = await ensureAccount("client_funding", clientId, currency);
+
+  // money leaves the platform, so take it out of escrow before asking the provider
+  const attemptKey = await getAttemptKey(idempotencyKey);
+  const transaction = await postTransaction({
+    type: "escrow_refund",
+    idempotencyKey: attemptKey,
+    currency,
+    entries: [
+      { account: escrow, direction: "debit", amount },
+      { account: funding, direction: "credit", amount },
+    ],
+    contractId,
+    clientId,
+    freelancerId,
+  });
+
+  // a replay of a refund the provider already sent
+  if (transaction.providerReference) {
+    return transaction;
+  }
+
+  const result = await getPaymentProvider().refund({
+    userId: clientId,
+    amount,
+    currency,
+    idempotencyKey: attemptKey,
+  });
+
+  if (result.status !== "succeeded") {
+    await reverseTransaction(transaction);
+    throw new PaymentError(result.failureReason || "Refund failed", "payment_failed");
+  }
+
+  transaction.providerReference = result.reference;
+  await transaction.save();
+  return transaction;
+};
+
+/**
+ * Send money from a freelancer's wallet to their payout method
+ * @throws PaymentError "insufficient_funds" or "payment_failed"
+ */
+export const withdrawFromWallet = async (
+  userId: string,
+  amount: number,
+  currency: Currency,
+  idempotencyKey: string = randomUUID()
+): Promise<ILedgerTransaction> => {
+  assertPositive(amount);
+
+  const wallet = await ensureAccount("wallet", userId, currency);
+  const payout = await ensureAccount("payout", userId, currency);
+
+  const attemptKey = await getAttemptKey(idempotencyKey);
+  const transaction = await postTransaction({
+    type: "withdrawal",
+    idempotencyKey: attemptKey,
+    currency,
+    entries: [
+      { account: wallet, direction: "debit", amount },
+      { account: payout, direction: "credit", amount },
+    ],
+    freelancerId: userId,
+  });
+
+  if (transaction.providerReference) {
+    return transaction;
+  }
+
+  const result = await getPaymentProvider().payout({
+    userId,
+    amount,
+    currency,
+    idempotencyKey: attemptKey,
+  });
+
+  if (result.status !== "succeeded") {
+    await reverseTransaction(transaction);
+    throw new PaymentError(result.failureReason || "Payout failed", "payment_failed");
+  }
+
+  transaction.providerReference = result.reference;
+  await transaction.save();
+  return transaction;
+};
+
+/**
+ * What happens to escrow left on a completed contract: fixed-price work is
+ * done so it is paid out, hourly contracts were already paid per timesheet
+ * so leftovers go back
+ */
+export const getCompletionSettlement = (contract: {
+  budget: { type: "fixed" | "hourly" };
+}): "release" | "refund" => (contract.budget.type === "fixed" ? "release" : "refund");
+
+/**
+ * Move whatever is left in escrow when a contract closes: released to the
+ * freelancer or refunded to the client. Failures are logged, the money stays
+ * in escrow and can be refunded later from the payment endpoints.
+ */
+export const settleEscrow = async (
+  contract: EscrowContract,
+  action: "release" | "refund"
+): Promise<void> => {
+  const contractId = contract._id.toString();
+
+  try {
+    const balance = await getEscrowBalance(contract);
+    if (balance <= 0) return;
+
+    if (action === "release") {
+      await releaseEscrow(contract, balance, `settle-release:${contractId}`, {
+        description: "Remaining escrow released on completion",
+      });
+    } else {
+      await refundEscrow(contract, balance, `settle-refund:${contractId}`);
+    }
+  } catch (error) {
+    console.error(`Failed to ${action} escrow for contract ${contractId}:`, error);
+  }
+};
+
+/**
+ * Recompute profile money totals from the ledger: the freelancer's net
+ * earnings credited to their wallet and the client's gross releases
+ */
+export const syncProfileTotals = async (
+  clientId: string,
+  freelancerId: string
+): Promise<void> => {
+  const wallets = await LedgerAccount.find({ type: "wallet", ownerId: freelancerId })
+    .select("_id")
+    .lean();
+
+  // totals are stored as one number across currencies, like before the ledger
+  const [earned] = await LedgerTransaction.aggregate<{ total: number }>([
+    {
+      $match: {
+        type: "escrow_release",
+        freelancerId: new mongoose.Types.ObjectId(freelancerId),
+      },
+    },
+    { $unwind: "$entries" },
+    { $match: { "entries.accountId": { $in: wallets.map((w) => w._id) } } },
+    { $group: { _id: null, total: { $sum: "$entries.amount" } } },
+  ]);
+
+  const [spent] = await LedgerTransaction.aggregate<{ total: number }>([
+    {
+      $match: {
+        type: "escrow_release",
+        clientId: new mongoose.Types.ObjectId(clientId),
+      },
+    },
+    { $unwind: "$entries" },
+    { $match: { "entries.direction": "debit" } },
+    { $group: { _id: null, total: { $sum: "$entries.amount" } } },
+  ]);
+
+  await FreelancerProfile.updateOne(
+    { freelancerId },
+    { $set: { totalEarnings: fromMinorUnits(earned?.total || 0) } }
+  );
+  await ClientProfile.updateOne(
+    { clientId },
+    { $set: { totalSpent: fromMinorUnits(spent?.total || 0) } }
+  );
+
+  await invalidateFreelancerCache(freelancerId);
+  await invalidateClientCache(clientId);
+};
+
+/**
+ * Money moved through a contract's escrow, in minor units
+ */
+export const getEscrowSummary = async (contract: EscrowContract) => {
+  const rows = await LedgerTransaction.aggregate<{ _id: string; total: number }>([
+    { $match: { contractId: new mongoose.Types.ObjectId(contract._id.toString()) } },
+    { $unwind: "$entries" },
+    { $match: { "entries.direction": "debit" } },
+    { $group: { _id: "$type", total: { $sum: "$entries.amount" } } },
+  ]);
+
+  const totalFor = (type: string) => rows.find((r) => r._id === type)?.total || 0;
+
+  return {
+    balance: await getEscrowBalance(contract),
+    funded: totalFor("escrow_fund"),
+    released: totalFor("escrow_release"),
+    refunded: totalFor("escrow_refund") - totalFor("reversal"),
+  };
+};
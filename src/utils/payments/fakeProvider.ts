@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import type {
+  PaymentProvider,
+  ProviderMoneyMovement,
+  ProviderResult,
+} from "./provider.js";
+
+// tokens the fake treats as a declined payment method
+const DECLINED_TOKENS = ["tok_declined", "tok_fail"];
+
+export interface FakeProviderOperation extends ProviderMoneyMovement {
+  kind: "charge" | "refund" | "payout";
+  result: ProviderResult;
+}
+
+/**
+ * In-memory provider for development and tests. Keeps every operation so
+ * tests can assert on what would have been sent to a real service.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  readonly operations = new Map<string, FakeProviderOperation>();
+  private readonly verifiedUsers = new Set<string>();
+  private failuresRemaining = 0;
+
+  // make the next `count` money movements fail
+  failNext(count = 1): void {
+    this.failuresRemaining = count;
+  }
+
+  isVerified(userId: string): boolean {
+    return this.verifiedUsers.has(userId);
+  }
+
+  async verifyPaymentMethod(
+    userId: string,
+    paymentMethodToken: string
+  ): Promise<ProviderResult> {
+    if (!paymentMethodToken || DECLINED_TOKENS.includes(paymentMethodToken)) {
+      return {
+        reference: `pm_${randomUUID()}`,
+        status: "failed",
+        failureReason: "Payment method was declined",
+      };
+    }
+
+    this.verifiedUsers.add(userId);
+    return { reference: `pm_${randomUUID()}`, status: "succeeded" };
+  }
+
+  charge(movement: ProviderMoneyMovement): Promise<ProviderResult> {
+    return this.record("charge", movement);
+  }
+
+  refund(movement: ProviderMoneyMovement): Promise<ProviderResult> {
+    return this.record("refund", movement);
+  }
+
+  payout(movement: ProviderMoneyMovement): Promise<ProviderResult> {
+    return this.record("payout", movement);
+  }
+
+  private async record(
+    kind: FakeProviderOperation["kind"],
+    movement: ProviderMoneyMovement
+  ): Promise<ProviderResult> {
+    const existing = this.operations.get(movement.idempotencyKey);
+    if (existing) {
+      return existing.result;
+    }
+
+    // failed attempts are not stored so they can be retried with the same key
+    if (this.failuresRemaining > 0) {
+      this.failuresRemaining -= 1;
+      return {
+        reference: `${kind}_${randomUUID()}`,
+        status: "failed",
+        failureReason: "Simulated provider failure",
+      };
+    }
+
+    const result: ProviderResult = {
+      reference: `${kind}_${randomUUID()}`,
+      status: "succeeded",
+    };
+    this.operations.set(movement.idempotencyKey, { ...movement, kind, result });
+    return result;
+  }
+}
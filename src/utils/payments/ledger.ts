@@ -0,0 +1,337 @@
+import mongoose, { type ClientSession } from "mongoose";
+import {
+  LedgerAccount,
+  LedgerTransaction,
+  type ILedgerAccount,
+  type ILedgerTransaction,
+  type LedgerAccountType,
+  type LedgerTransactionType,
+} from "../../models/ledger.js";
+import { isMongoError } from "../errorHandler.js";
+
+export type Currency = ILedgerAccount["currency"];
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    readonly code:
+      | "payment_failed"
+      | "payment_method_required"
+      | "insufficient_funds"
+      | "invalid_amount"
+      | "idempotency_conflict"
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+
+  // HTTP status controllers respond with
+  get status(): number {
+    if (this.code === "idempotency_conflict") return 409;
+    return this.code === "payment_failed" || this.code === "payment_method_required"
+      ? 402
+      : 400;
+  }
+}
+
+// the ledger stores integer minor units (cents/kobo), the API speaks in major units
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export const fromMinorUnits = (amount: number): number => amount / 100;
+
+// accounts holding money on the platform, which can never go below zero
+const NON_NEGATIVE_ACCOUNTS: LedgerAccountType[] = [
+  "escrow",
+  "wallet",
+  "platform_revenue",
+];
+
+export interface LedgerEntryInput {
+  account: ILedgerAccount;
+  direction: "debit" | "credit";
+  amount: number;
+}
+
+/**
+ * Throws unless the entries form a valid double-entry transaction: at least
+ * two positive integer entries in one currency whose debits equal their credits
+ */
+export const assertBalanced = (
+  entries: Array<{ direction: "debit" | "credit"; amount: number; currency: string }>
+): void => {
+  if (entries.length < 2) {
+    throw new Error("A ledger transaction needs at least two entries");
+  }
+
+  if (entries.some((e) => !Number.isInteger(e.amount) || e.amount <= 0)) {
+    throw new Error("Ledger entry amounts must be positive integers");
+  }
+
+  if (new Set(entries.map((e) => e.currency)).size > 1) {
+    throw new Error("Ledger entries must share one currency");
+  }
+
+  const debits = entries
+    .filter((e) => e.direction === "debit")
+    .reduce((sum, e) => sum + e.amount, 0);
+  const credits = entries
+    .filter((e) => e.direction === "credit")
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  if (debits !== credits) {
+    throw new Error(`Unbalanced ledger transaction: debits ${debits}, credits ${credits}`);
+  }
+};
+
+/**
+ * Find or create a ledger account. Called outside transactions because a
+ * racing upsert on the unique index is not retried by withTransaction.
+ */
+export const ensureAccount = async (
+  type: LedgerAccountType,
+  ownerId: string | null,
+  currency: Currency
+): Promise<ILedgerAccount> => {
+  const filter = {
+    type,
+    ownerId: ownerId ? new mongoose.Types.ObjectId(ownerId) : null,
+    currency,
+  };
+
+  try {
+    const account = await LedgerAccount.findOneAndUpdate(
+      filter,
+      { $setOnInsert: filter },
+      { upsert: true, new: true }
+    );
+    return account;
+  } catch (error) {
+    if (isMongoError(error) && error.code === 11000) {
+      const account = await LedgerAccount.findOne(filter);
+      if (account) return account;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Balance of an account derived from its entries (credits minus debits)
+ */
+export const getAccountBalance = async (
+  accountId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<number> => {
+  const id = new mongoose.Types.ObjectId(accountId.toString());
+
+  const [result] = await LedgerTransaction.aggregate<{ balance: number }>([
+    { $match: { "entries.accountId": id } },
+    { $unwind: "$entries" },
+    { $match: { "entries.accountId": id } },
+    {
+      $group: {
+        _id: null,
+        balance: {
+          $sum: {
+            $cond: [
+              { $eq: ["$entries.direction", "credit"] },
+              "$entries.amount",
+              { $multiply: ["$entries.amount", -1] },
+            ],
+          },
+        },
+      },
+    },
+  ]).session(session || null);
+
+  return result?.balance || 0;
+};
+
+export const getBalance = async (
+  type: LedgerAccountType,
+  ownerId: string,
+  currency: Currency
+): Promise<number> => {
+  const account = await LedgerAccount.findOne({ type, ownerId, currency })
+    .select("_id")
+    .lean();
+  return account ? getAccountBalance(account._id) : 0;
+};
+
+/**
+ * The transaction already posted under a key, for replaying a retried
+ * request. A key only replays the same kind of movement on the same
+ * contract, so one request can't pick up another's transaction.
+ * @throws PaymentError "idempotency_conflict" if the key was used for something else
+ */
+export const findIdempotentTransaction = async (
+  idempotencyKey: string,
+  type: LedgerTransactionType,
+  contractId?: string
+): Promise<ILedgerTransaction | null> => {
+  const existing = await LedgerTransaction.findOne({ idempotencyKey });
+  if (!existing) return null;
+
+  if (existing.type !== type || existing.contractId?.toString() !== contractId) {
+    throw new PaymentError(
+      "This idempotency key was already used for a different payment",
+      "idempotency_conflict"
+    );
+  }
+  return existing;
+};
+
+export interface PostTransactionInput {
+  type: LedgerTransactionType;
+  idempotencyKey: string;
+  currency: Currency;
+  entries: LedgerEntryInput[];
+  contractId?: string;
+  milestoneId?: string;
+  timesheetId?: string;
+  clientId?: string;
+  freelancerId?: string;
+  providerReference?: string;
+  description?: string;
+}
+
+/**
+ * Write a balanced transaction. Posting the same idempotency key twice
+ * returns the first transaction instead of moving money again.
+ * @throws PaymentError "insufficient_funds" if an escrow or wallet would go negative,
+ * "idempotency_conflict" if the key belongs to a different transaction
+ */
+export const postTransaction = async (
+  input: PostTransactionInput
+): Promise<ILedgerTransaction> => {
+  const { entries, ...fields } = input;
+
+  assertBalanced(
+    entries.map((e) => ({
+      direction: e.direction,
+      amount: e.amount,
+      currency: e.account.currency,
+    }))
+  );
+
+  const existing = await findIdempotentTransaction(
+    input.idempotencyKey,
+    input.type,
+    input.contractId
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const guarded = entries
+    .filter(
+      (e) => e.direction === "debit" && NON_NEGATIVE_ACCOUNTS.includes(e.account.type)
+    )
+    .map((e) => e.account._id);
+
+  const session = await mongoose.startSession();
+  let transaction: ILedgerTransaction | null = null;
+
+  try {
+    await session.withTransaction(async () => {
+      // concurrent debits of the same account now write-conflict and retry
+      // against the new balance instead of both passing the check below
+      for (const accountId of guarded) {
+        await LedgerAccount.updateOne(
+          { _id: accountId },
+          { $inc: { version: 1 } },
+          { session }
+        );
+      }
+
+      const [created] = await LedgerTransaction.create(
+        [
+          {
+            ...fields,
+            entries: entries.map((e) => ({
+              accountId: e.account._id,
+              direction: e.direction,
+              amount: e.amount,
+            })),
+          },
+        ],
+        { session }
+      );
+
+      for (const accountId of guarded) {
+        if ((await getAccountBalance(accountId, session)) < 0) {
+          throw new PaymentError("Insufficient funds", "insufficient_funds");
+        }
+      }
+
+      transaction = created || null;
+    });
+  } catch (error) {
+    // another request posted the same key first
+    if (isMongoError(error) && error.code === 11000) {
+      const raced = await findIdempotentTransaction(
+        input.idempotencyKey,
+        input.type,
+        input.contractId
+      );
+      if (raced) return raced;
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  const posted = transaction as ILedgerTransaction | null;
+  if (!posted) {
+    throw new Error("Ledger transaction was not written");
+  }
+  return posted;
+};
+
+/**
+ * The key to post an outbound payment under. A reversed transaction's key is
+ * spent, so a retry after the provider failed moves on to a numbered key
+ * instead of getting the reversed transaction back.
+ */
+export const getAttemptKey = async (idempotencyKey: string): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    const key = attempt === 1 ? idempotencyKey : `${idempotencyKey}:retry-${attempt}`;
+    if (!(await LedgerTransaction.exists({ idempotencyKey: `${key}:reversal` }))) {
+      return key;
+    }
+  }
+};
+
+/**
+ * Post the mirror image of a transaction, used when the provider fails to
+ * send money the ledger already moved out
+ */
+export const reverseTransaction = async (
+  original: ILedgerTransaction
+): Promise<ILedgerTransaction> => {
+  const accounts = await LedgerAccount.find({
+    _id: { $in: original.entries.map((e) => e.accountId) },
+  });
+
+  const entries = original.entries.map((e) => {
+    const account = accounts.find((a) => a._id.equals(e.accountId));
+    if (!account) {
+      throw new Error(`Ledger account ${e.accountId} not found`);
+    }
+    return {
+      account,
+      direction: e.direction === "debit" ? ("credit" as const) : ("debit" as const),
+      amount: e.amount,
+    };
+  });
+
+  return postTransaction({
+    type: "reversal",
+    idempotencyKey: `${original.idempotencyKey}:reversal`,
+    currency: original.currency,
+    entries,
+    ...(original.contractId && { contractId: original.contractId.toString() }),
+    ...(original.clientId && { clientId: original.clientId.toString() }),
+    ...(original.freelancerId && { freelancerId: original.freelancerId.toString() }),
+    description: `Reversal of ${original.type}`,
+  });
+};
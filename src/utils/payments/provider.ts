@@ -0,0 +1,56 @@
+import dotenv from "dotenv";
+import { FakePaymentProvider } from "./fakeProvider.js";
+
+dotenv.config();
+
+export interface ProviderResult {
+  reference: string;
+  status: "succeeded" | "failed";
+  failureReason?: string;
+}
+
+export interface ProviderMoneyMovement {
+  userId: string;
+  amount: number; // Minor units
+  currency: string;
+  // repeated calls with the same key must not move money twice
+  idempotencyKey: string;
+  description?: string;
+}
+
+/**
+ * Everything that touches an external payment service. The ledger only
+ * records a movement after the provider reports it succeeded.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  verifyPaymentMethod(userId: string, paymentMethodToken: string): Promise<ProviderResult>;
+  charge(movement: ProviderMoneyMovement): Promise<ProviderResult>;
+  refund(movement: ProviderMoneyMovement): Promise<ProviderResult>;
+  payout(movement: ProviderMoneyMovement): Promise<ProviderResult>;
+}
+
+const createProvider = (): PaymentProvider => {
+  const name = process.env.PAYMENT_PROVIDER || "fake";
+
+  switch (name) {
+    case "fake":
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
+
+let provider: PaymentProvider | null = null;
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+};
+
+// swap the provider, e.g. a FakePaymentProvider set to fail in tests
+export const setPaymentProvider = (next: PaymentProvider): void => {
+  provider = next;
+};
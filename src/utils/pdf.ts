@@ -0,0 +1,148 @@
+// Minimal text-only PDF writer for server-rendered documents (invoices,
+// contract exports). Uses the built-in Helvetica fonts so nothing is embedded.
+
+export interface PdfLine {
+  text?: string;
+  // text placed at x offsets from the left margin, for simple tables
+  columns?: Array<{ text: string; x: number }>;
+  size?: number;
+  bold?: boolean;
+  gap?: number; // extra space above the line
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 11;
+
+// Helvetica averages about half an em per character, good enough for wrapping
+const maxCharsFor = (size: number): number =>
+  Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * 0.5));
+
+const wrapText = (text: string, size: number): string[] => {
+  const maxChars = maxCharsFor(size);
+  const wrapped: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/)) {
+      if (!word) continue;
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        current = candidate;
+        continue;
+      }
+      if (current) wrapped.push(current);
+      // hard-break words longer than a line
+      let rest = word;
+      while (rest.length > maxChars) {
+        wrapped.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      current = rest;
+    }
+    wrapped.push(current);
+  }
+
+  return wrapped;
+};
+
+// PDF strings are latin1 with ( ) \ escaped, anything else is replaced
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+const textOp = (text: string, x: number, y: number, size: number, bold: boolean) =>
+  `BT /${bold ? "F2" : "F1"} ${size} Tf ${x} ${y} Td (${escapeText(text)}) Tj ET`;
+
+/**
+ * Lay out lines top to bottom across as many A4 pages as needed
+ * @returns The PDF file contents
+ */
+export const renderPdf = (lines: PdfLine[], title?: string): Buffer => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const advance = (height: number) => {
+    y -= height;
+    if (y < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN - height;
+    }
+  };
+
+  for (const line of lines) {
+    const size = line.size || DEFAULT_SIZE;
+    const bold = !!line.bold;
+    const lineHeight = size * 1.4;
+
+    if (line.gap) advance(line.gap);
+
+    if (line.columns) {
+      advance(lineHeight);
+      for (const column of line.columns) {
+        pages[pages.length - 1]!.push(
+          textOp(column.text, MARGIN + column.x, y, size, bold)
+        );
+      }
+      continue;
+    }
+
+    for (const text of wrapText(line.text || "", size)) {
+      advance(lineHeight);
+      if (text) {
+        pages[pages.length - 1]!.push(textOp(text, MARGIN, y, size, bold));
+      }
+    }
+  }
+
+  // objects 1-4 are fixed, each page then adds a page object and its content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+
+  pages.forEach((ops, i) => {
+    const stream = ops.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i]! + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  const infoId = objects.length + 1;
+  objects.push(
+    `<< /Producer (Matchlance)${title ? ` /Title (${escapeText(title)})` : ""} >>`
+  );
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(body, "latin1"));
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\n`;
+  body += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+};
@@ -0,0 +1,250 @@
+import mongoose from "mongoose";
+import { MAX_PROPOSAL_LABELS } from "../models/proposalTriage.js";
+
+const PROPOSAL_STATUSES = ["pending", "accepted", "rejected", "withdrawn"];
+
+// inbox is everything not archived
+export const PROPOSAL_INBOX_VIEWS = ["inbox", "shortlisted", "archived", "all"] as const;
+
+export const PROPOSAL_SORT_FIELDS = ["date", "price", "rating"] as const;
+
+export const MIN_COMPARED_PROPOSALS = 2;
+export const MAX_COMPARED_PROPOSALS = 5;
+
+const SORT_PATHS: Record<(typeof PROPOSAL_SORT_FIELDS)[number], string> = {
+  date: "createdAt",
+  price: "proposedBudget.min",
+  rating: "freelancer.rating.average",
+};
+
+// cheapest first for price, newest or best rated first otherwise
+const DEFAULT_ORDER: Record<(typeof PROPOSAL_SORT_FIELDS)[number], 1 | -1> = {
+  date: -1,
+  price: 1,
+  rating: -1,
+};
+
+export interface ProposalInboxFilters {
+  view: (typeof PROPOSAL_INBOX_VIEWS)[number];
+  status?: string;
+  label?: string;
+  sortBy: (typeof PROPOSAL_SORT_FIELDS)[number];
+  order: 1 | -1;
+}
+
+/**
+ * Read the inbox view, filters and sort from the query string
+ * @returns The filters, or an error message for the first invalid one
+ */
+export const parseProposalInboxQuery = (
+  query: Record<string, string | undefined>
+): { filters: ProposalInboxFilters } | { error: string } => {
+  const view = query.view || "inbox";
+  if (!(PROPOSAL_INBOX_VIEWS as readonly string[]).includes(view)) {
+    return { error: `view must be one of ${PROPOSAL_INBOX_VIEWS.join(", ")}` };
+  }
+
+  const sortBy = query.sortBy || "date";
+  if (!(PROPOSAL_SORT_FIELDS as readonly string[]).includes(sortBy)) {
+    return { error: `sortBy must be one of ${PROPOSAL_SORT_FIELDS.join(", ")}` };
+  }
+
+  if (query.order && query.order !== "asc" && query.order !== "desc") {
+    return { error: "order must be asc or desc" };
+  }
+
+  if (query.status && !PROPOSAL_STATUSES.includes(query.status)) {
+    return { error: "Invalid status" };
+  }
+
+  const filters: ProposalInboxFilters = {
+    view: view as ProposalInboxFilters["view"],
+    sortBy: sortBy as ProposalInboxFilters["sortBy"],
+    order: query.order
+      ? query.order === "asc"
+        ? 1
+        : -1
+      : DEFAULT_ORDER[sortBy as ProposalInboxFilters["sortBy"]],
+  };
+  if (query.status) filters.status = query.status;
+  if (query.label?.trim()) filters.label = query.label.trim();
+
+  return { filters };
+};
+
+/**
+ * Read the comparison's comma-separated proposal ids, in the order given
+ * @returns The ids, or an error message
+ */
+export const parseComparedProposalIds = (
+  ids: string | undefined
+): { ids: string[] } | { error: string } => {
+  const unique = [...new Set((ids || "").split(",").map((id) => id.trim()).filter(Boolean))];
+
+  if (unique.length < MIN_COMPARED_PROPOSALS || unique.length > MAX_COMPARED_PROPOSALS) {
+    return {
+      error: `Compare between ${MIN_COMPARED_PROPOSALS} and ${MAX_COMPARED_PROPOSALS} proposals`,
+    };
+  }
+
+  const invalid = unique.find((id) => !mongoose.Types.ObjectId.isValid(id));
+  if (invalid) {
+    return { error: `${invalid} is not a valid proposal ID` };
+  }
+
+  return { ids: unique };
+};
+
+/**
+ * Check the fields a client can set on their triage of a proposal. A
+ * proposal can't be shortlisted and archived at once.
+ * @returns The trimmed values to save, or an error message
+ */
+export const parseProposalTriage = (body: {
+  shortlisted?: unknown;
+  archived?: unknown;
+  note?: unknown;
+  labels?: unknown;
+}):
+  | { triage: { shortlisted?: boolean; archived?: boolean; note?: string; labels?: string[] } }
+  | { error: string } => {
+  const { shortlisted, archived, note, labels } = body;
+
+  if (
+    (shortlisted !== undefined && typeof shortlisted !== "boolean") ||
+    (archived !== undefined && typeof archived !== "boolean")
+  ) {
+    return { error: "shortlisted and archived must be true or false" };
+  }
+
+  if (shortlisted && archived) {
+    return { error: "A proposal cannot be shortlisted and archived at once" };
+  }
+
+  if (note !== undefined && typeof note !== "string") {
+    return { error: "Note must be text" };
+  }
+
+  if (
+    labels !== undefined &&
+    (!Array.isArray(labels) || !labels.every((label) => typeof label === "string"))
+  ) {
+    return { error: "Labels must be a list of text" };
+  }
+
+  const cleanLabels = labels && [
+    ...new Set((labels as string[]).map((label) => label.trim()).filter(Boolean)),
+  ];
+  if (cleanLabels && cleanLabels.length > MAX_PROPOSAL_LABELS) {
+    return { error: `A proposal can have at most ${MAX_PROPOSAL_LABELS} labels` };
+  }
+
+  if (
+    shortlisted === undefined &&
+    archived === undefined &&
+    note === undefined &&
+    labels === undefined
+  ) {
+    return { error: "No fields to update" };
+  }
+
+  return {
+    triage: {
+      ...(shortlisted !== undefined && { shortlisted }),
+      // archiving takes it off the shortlist, shortlisting brings it back from the archive
+      ...(archived === true && { shortlisted: false }),
+      ...(shortlisted === true && { archived: false }),
+      ...(archived !== undefined && { archived }),
+      ...(note !== undefined && { note: note.trim() }),
+      ...(cleanLabels && { labels: cleanLabels }),
+    },
+  };
+};
+
+/**
+ * Stages joining each proposal with the freelancer's name and profile stats
+ * and the client's triage, shaped the same for the inbox and comparisons
+ */
+export const proposalInboxStages = () => [
+  {
+    $lookup: {
+      from: "proposaltriages",
+      localField: "_id",
+      foreignField: "proposalId",
+      as: "triage",
+    },
+  },
+  { $unwind: { path: "$triage", preserveNullAndEmptyArrays: true } },
+  {
+    $lookup: {
+      from: "users",
+      localField: "freelancerId",
+      foreignField: "_id",
+      as: "user",
+    },
+  },
+  { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+  {
+    $lookup: {
+      from: "freelancerprofiles",
+      localField: "freelancerId",
+      foreignField: "freelancerId",
+      as: "profile",
+    },
+  },
+  { $unwind: { path: "$profile", preserveNullAndEmptyArrays: true } },
+  {
+    $project: {
+      jobId: 1,
+      status: 1,
+      coverLetter: 1,
+      proposedBudget: 1,
+      estimatedTime: 1,
+      availability: 1,
+      portfolioLinks: 1,
+      attachments: 1,
+      answers: 1,
+      revision: 1,
+      viewedByClientAt: 1,
+      withdrawnAt: 1,
+      withdrawalReason: 1,
+      createdAt: 1,
+      updatedAt: 1,
+      freelancer: {
+        _id: "$freelancerId",
+        firstName: "$user.firstName",
+        lastName: "$user.lastName",
+        title: "$profile.title",
+        profilePicture: "$profile.profilePicture",
+        experienceLevel: "$profile.experienceLevel",
+        hourlyRate: "$profile.hourlyRate",
+        rating: {
+          average: { $ifNull: ["$profile.rating.average", 0] },
+          count: { $ifNull: ["$profile.rating.count", 0] },
+        },
+        successRate: { $ifNull: ["$profile.successRate", 0] },
+        completedJobs: { $ifNull: ["$profile.completedJobs", 0] },
+      },
+      triage: {
+        shortlisted: { $ifNull: ["$triage.shortlisted", false] },
+        archived: { $ifNull: ["$triage.archived", false] },
+        note: { $ifNull: ["$triage.note", null] },
+        labels: { $ifNull: ["$triage.labels", []] },
+      },
+    },
+  },
+];
+
+export const buildInboxViewMatch = (filters: ProposalInboxFilters) => ({
+  $match: {
+    ...(filters.view === "inbox" && { "triage.archived": false }),
+    ...(filters.view === "shortlisted" && { "triage.shortlisted": true }),
+    ...(filters.view === "archived" && { "triage.archived": true }),
+    ...(filters.label && { "triage.labels": filters.label }),
+  },
+});
+
+export const getInboxSort = (filters: ProposalInboxFilters) => ({
+  [SORT_PATHS[filters.sortBy]]: filters.order,
+  _id: 1 as const,
+});
@@ -0,0 +1,91 @@
+import type { Types } from "mongoose";
+import { Proposal, type IProposal, type IProposalRevision } from "../models/proposal.js";
+
+// what a freelancer can change on a proposal, and so what each revision records
+export const REVISED_PROPOSAL_FIELDS = [
+  "coverLetter",
+  "proposedBudget",
+  "estimatedTime",
+  "availability",
+  "portfolioLinks",
+  "questions",
+  "answers",
+  "attachments",
+] as const;
+
+type RevisedField = (typeof REVISED_PROPOSAL_FIELDS)[number];
+
+export interface ProposalVersion extends Omit<IProposalRevision, "replacedAt"> {
+  replacedAt?: Date; // Missing on the current version
+  changes: Array<{ field: RevisedField; from: unknown; to: unknown }>;
+}
+
+/**
+ * The proposal's editable fields as they are now, to push onto its
+ * revisions before an edit replaces them
+ */
+export const snapshotProposal = (
+  proposal: IProposal,
+  replacedAt: Date
+): IProposalRevision => {
+  const values = proposal.toObject();
+  return {
+    revision: proposal.revision,
+    ...Object.fromEntries(REVISED_PROPOSAL_FIELDS.map((field) => [field, values[field]])),
+    replacedAt,
+  } as IProposalRevision;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Every version of a proposal, oldest first and ending with the current one,
+ * each listing the fields that differ from the version before it. The
+ * proposal has to be loaded with +revisions.
+ */
+export const buildProposalVersions = (proposal: IProposal): ProposalVersion[] => {
+  const current = proposal.toObject();
+  const versions: Array<Omit<ProposalVersion, "changes">> = [
+    ...(current.revisions as IProposalRevision[]),
+    {
+      ...(Object.fromEntries(
+        REVISED_PROPOSAL_FIELDS.map((field) => [field, current[field]])
+      ) as Omit<IProposalRevision, "revision" | "replacedAt">),
+      revision: proposal.revision,
+    },
+  ];
+
+  return versions.map((version, i) => {
+    const previous = versions[i - 1];
+    return {
+      ...version,
+      changes: previous
+        ? REVISED_PROPOSAL_FIELDS.filter(
+            (field) => !sameValue(previous[field], version[field])
+          ).map((field) => ({ field, from: previous[field], to: version[field] }))
+        : [],
+    };
+  });
+};
+
+/**
+ * Record the job owner's first look at proposals, which ends the
+ * freelancer's editing window. Ones already seen keep their first time.
+ */
+export const markProposalsViewed = async (
+  proposals: Array<{ _id: Types.ObjectId; viewedByClientAt?: Date }>
+): Promise<void> => {
+  const unviewed = proposals.filter((proposal) => !proposal.viewedByClientAt);
+  if (!unviewed.length) return;
+
+  const viewedAt = new Date();
+  await Proposal.updateMany(
+    {
+      _id: { $in: unviewed.map((proposal) => proposal._id) },
+      viewedByClientAt: { $exists: false },
+    },
+    { $set: { viewedByClientAt: viewedAt } }
+  );
+  for (const proposal of unviewed) proposal.viewedByClientAt = viewedAt;
+};
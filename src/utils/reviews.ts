@@ -0,0 +1,188 @@
+import mongoose from "mongoose";
+import { Contract, type IContract } from "../models/contract.js";
+import { FreelancerProfile } from "../models/freelancer.js";
+import { ClientProfile } from "../models/client.js";
+import { invalidateContractCaches } from "./contractCache.js";
+import { invalidateFreelancerCache } from "./freelancerCache.js";
+import { invalidateClientCache } from "./clientCache.js";
+import { emitToConversation } from "./socket/emitters.js";
+import type { ContractParty } from "./contractAccess.js";
+
+// days after completion that reviews can be left before they are published regardless
+export const REVIEW_WINDOW_DAYS = 14;
+
+const REVIEW_WINDOW_MS = REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export const getReviewWindowClosesAt = (completedAt: Date): Date =>
+  new Date(new Date(completedAt).getTime() + REVIEW_WINDOW_MS);
+
+// which review field each party writes
+export const REVIEW_FIELD: Record<ContractParty, "clientReview" | "freelancerReview"> = {
+  client: "clientReview",
+  freelancer: "freelancerReview",
+};
+
+interface ReviewedContract {
+  reviews: IContract["reviews"];
+}
+
+/**
+ * Strip the counterparty's review until reviews are published so neither
+ * side can read the other's review before writing their own
+ */
+export const redactHiddenReviews = <T extends ReviewedContract>(
+  contract: T,
+  party: ContractParty | null
+): T => {
+  if (contract.reviews?.publishedAt) {
+    return contract;
+  }
+
+  const ownField = party ? REVIEW_FIELD[party] : null;
+  const ownReview = ownField ? contract.reviews?.[ownField] : undefined;
+
+  return {
+    ...contract,
+    reviews: ownField && ownReview ? { [ownField]: ownReview } : {},
+  };
+};
+
+// running average update done inside mongo so concurrent reviews do not overwrite each other
+const buildRatingUpdate = (rating: number) => [
+  {
+    $set: {
+      "rating.average": {
+        $round: [
+          {
+            $divide: [
+              {
+                $add: [
+                  {
+                    $multiply: [
+                      { $ifNull: ["$rating.average", 0] },
+                      { $ifNull: ["$rating.count", 0] },
+                    ],
+                  },
+                  rating,
+                ],
+              },
+              { $add: [{ $ifNull: ["$rating.count", 0] }, 1] },
+            ],
+          },
+          2,
+        ],
+      },
+      "rating.count": { $add: [{ $ifNull: ["$rating.count", 0] }, 1] },
+      [`rating.breakdown.${rating}`]: {
+        $add: [{ $ifNull: [`$rating.breakdown.${rating}`, 0] }, 1],
+      },
+    },
+  },
+];
+
+/**
+ * Publish a contract's reviews and roll them into both profiles in one transaction
+ * @param contractId - The contract ID
+ * @returns The contract, or null if it was already published
+ */
+export const publishContractReviews = async (
+  contractId: string
+): Promise<IContract | null> => {
+  const session = await mongoose.startSession();
+  let contract: IContract | null = null;
+
+  try {
+    await session.withTransaction(async () => {
+      contract = await Contract.findOneAndUpdate(
+        {
+          _id: contractId,
+          status: "completed",
+          "reviews.publishedAt": { $exists: false },
+        },
+        { $set: { "reviews.publishedAt": new Date() } },
+        { new: true, session }
+      );
+
+      if (!contract) return;
+
+      const { clientReview, freelancerReview } = contract.reviews;
+
+      if (clientReview?.rating) {
+        await FreelancerProfile.updateOne(
+          { freelancerId: contract.freelancerId },
+          buildRatingUpdate(clientReview.rating),
+          { session, updatePipeline: true }
+        );
+      }
+
+      if (freelancerReview?.rating) {
+        await ClientProfile.updateOne(
+          { clientId: contract.clientId },
+          buildRatingUpdate(freelancerReview.rating),
+          { session, updatePipeline: true }
+        );
+
+        await ClientProfile.updateOne(
+          { clientId: contract.clientId },
+          {
+            $push: {
+              reviews: {
+                freelancerId: contract.freelancerId,
+                contractId: contract._id,
+                rating: freelancerReview.rating,
+                comment: freelancerReview.comment,
+                createdAt: freelancerReview.reviewedAt,
+              },
+            },
+          },
+          { session }
+        );
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const published = contract as IContract | null;
+  if (!published) {
+    return null;
+  }
+
+  await invalidateContractCaches(published);
+  await invalidateFreelancerCache(published.freelancerId.toString());
+  await invalidateClientCache(published.clientId.toString());
+
+  emitToConversation(published.conversationId.toString(), "reviews_published", {
+    contractId,
+    reviews: published.reviews,
+  });
+
+  return published;
+};
+
+/**
+ * Publish reviews on contracts whose review window has closed
+ */
+export const publishExpiredReviews = async (): Promise<void> => {
+  const cutoff = new Date(Date.now() - REVIEW_WINDOW_MS);
+
+  const expired = await Contract.find({
+    status: "completed",
+    completedAt: { $lte: cutoff },
+    "reviews.publishedAt": { $exists: false },
+    $or: [
+      { "reviews.clientReview.rating": { $exists: true } },
+      { "reviews.freelancerReview.rating": { $exists: true } },
+    ],
+  })
+    .select("_id")
+    .lean();
+
+  for (const contract of expired) {
+    try {
+      await publishContractReviews(contract._id.toString());
+    } catch (err) {
+      console.error(`Failed to publish reviews for contract ${contract._id}:`, err);
+    }
+  }
+};
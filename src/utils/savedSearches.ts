@@ -0,0 +1,182 @@
+import { Job } from "../models/job.js";
+import {
+  SavedSearch,
+  ALERT_FREQUENCIES,
+  type ISavedSearch,
+} from "../models/savedSearch.js";
+import {
+  JOB_SEARCH_PARAMS,
+  parseList,
+  parseJobSearchQuery,
+  buildJobSearchConditions,
+  combineJobSearchConditions,
+} from "./jobSearch.js";
+import { buildJobVisibilityFilter } from "./jobVisibility.js";
+import { getHiddenJobIds } from "./jobFeedback.js";
+import { normalizeSkills, normalizeSkillList } from "./skillTaxonomy.js";
+import type { CachedSkill } from "./skillCache.js";
+import { getCachedUser } from "./userCache.js";
+import { sendSavedSearchAlertEmail } from "./emailServices.js";
+import { emitToUser } from "./socket/emitters.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_SAVED_SEARCHES = 20;
+
+// most jobs listed in one alert, the rest wait for the next run
+const MAX_ALERT_JOBS = 20;
+
+// how long a search waits between checks, instant ones go every scheduler run
+const ALERT_INTERVAL_MS: Record<ISavedSearch["alertFrequency"], number> = {
+  instant: 0,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+/**
+ * Check a saved search's filters the same way search-jobs reads them. JSON
+ * bodies may send lists and numbers, they're stored as query text.
+ * @returns The query parameters to store, or an error message
+ */
+export const parseSavedSearchQuery = (
+  input: unknown
+): { query: Record<string, string> } | { error: string } => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Query must be an object of search filters" };
+  }
+
+  const query: Record<string, string> = {};
+
+  for (const [param, value] of Object.entries(input)) {
+    if (!(JOB_SEARCH_PARAMS as readonly string[]).includes(param)) {
+      return { error: `${param} is not a search filter` };
+    }
+    if (value === undefined || value === null || value === "") continue;
+    query[param] = Array.isArray(value) ? value.join(",") : String(value);
+  }
+
+  if (Object.keys(query).length === 0) {
+    return { error: "Add at least one search filter" };
+  }
+
+  const parsed = parseJobSearchQuery(query);
+  if ("error" in parsed) return parsed;
+
+  return { query };
+};
+
+/**
+ * Rewrite the skills filter of a stored query to catalogue names, the
+ * spelling jobs are saved with
+ */
+export const normalizeSavedSearchSkills = (
+  query: Record<string, string>,
+  catalog: CachedSkill[]
+): Record<string, string> =>
+  query.skills
+    ? { ...query, skills: normalizeSkillList(parseList(query.skills), catalog).join(",") }
+    : query;
+
+export const isAlertFrequency = (
+  value: unknown
+): value is ISavedSearch["alertFrequency"] =>
+  ALERT_FREQUENCIES.includes(value as ISavedSearch["alertFrequency"]);
+
+type AlertSearch = Pick<
+  ISavedSearch,
+  "_id" | "freelancerId" | "query" | "lastCheckedAt" | "alertedJobIds"
+>;
+
+/**
+ * Open jobs published since the search was last checked that match it and
+ * were neither alerted nor hidden, oldest first. The window includes its start because
+ * a full alert resumes from the last job it listed.
+ */
+export const findNewMatches = async (search: AlertSearch, until: Date) => {
+  const parsed = parseJobSearchQuery(search.query);
+  if ("error" in parsed) return [];
+  const { filters } = parsed;
+  // like search-jobs, so an alias saved in the search still matches
+  if (filters.skills) filters.skills = await normalizeSkills(filters.skills);
+
+  const conditions = await buildJobSearchConditions(filters);
+  const freelancerId = search.freelancerId.toString();
+  const visibilityFilter = await buildJobVisibilityFilter(freelancerId);
+  const hiddenJobIds = await getHiddenJobIds(freelancerId);
+
+  return Job.find({
+    status: "open",
+    publishedAt: { $gte: search.lastCheckedAt, $lte: until },
+    _id: { $nin: [...search.alertedJobIds, ...hiddenJobIds] },
+    $and: [visibilityFilter, ...combineJobSearchConditions(conditions)],
+  })
+    .select("_id title budget category publishedAt")
+    .sort({ publishedAt: 1 })
+    .limit(MAX_ALERT_JOBS)
+    .lean();
+};
+
+const notifyFreelancer = async (
+  search: Pick<ISavedSearch, "_id" | "freelancerId" | "name">,
+  jobs: Awaited<ReturnType<typeof findNewMatches>>
+): Promise<void> => {
+  const freelancerId = search.freelancerId.toString();
+
+  emitToUser(freelancerId, "saved_search_alert", {
+    savedSearchId: search._id,
+    name: search.name,
+    jobs: jobs.map((job) => ({ _id: job._id, title: job.title })),
+  });
+
+  try {
+    const user = await getCachedUser(freelancerId);
+    if (user) {
+      await sendSavedSearchAlertEmail(user.email, user.firstName, search.name, jobs);
+    }
+  } catch (emailError) {
+    console.error("Failed to send saved search alert email:", emailError);
+  }
+};
+
+/**
+ * Alert freelancers about new jobs matching their saved searches, each
+ * search on its own frequency. Moving lastCheckedAt and recording the jobs
+ * happen in one conditional update, so a search is never alerted twice for
+ * the same run or the same job.
+ */
+export const processSavedSearchAlerts = async (): Promise<void> => {
+  const now = new Date();
+
+  for (const frequency of ALERT_FREQUENCIES) {
+    const due = await SavedSearch.find({
+      paused: false,
+      alertFrequency: frequency,
+      lastCheckedAt: { $lte: new Date(now.getTime() - ALERT_INTERVAL_MS[frequency]) },
+    }).lean();
+
+    for (const search of due) {
+      try {
+        const jobs = await findNewMatches(search, now);
+        // a full alert resumes from its newest job so the rest follow next run
+        const checkedUntil =
+          jobs.length === MAX_ALERT_JOBS ? jobs[jobs.length - 1]!.publishedAt! : now;
+
+        const claimed = await SavedSearch.updateOne(
+          { _id: search._id, lastCheckedAt: search.lastCheckedAt, paused: false },
+          {
+            $set: {
+              lastCheckedAt: checkedUntil,
+              ...(jobs.length > 0 && { lastAlertedAt: now }),
+            },
+            $addToSet: { alertedJobIds: { $each: jobs.map((j) => j._id) } },
+          }
+        );
+        if (claimed.modifiedCount === 0 || jobs.length === 0) continue;
+
+        await notifyFreelancer(search, jobs);
+      } catch (err) {
+        console.error(`Saved search alert failed for ${search._id}:`, err);
+      }
+    }
+  }
+};
@@ -0,0 +1,57 @@
+import { redisClient } from "../config/redis.js";
+
+const SCHEDULER_LOCK_PREFIX = "lock:scheduler:";
+
+/**
+ * Run a task only if no other server instance holds the lock for it.
+ * The lock is left to expire so the task runs at most once per ttl window
+ * across all instances.
+ * @param name - Unique task name
+ * @param ttlMs - How long the lock is held
+ * @param task - The work to run
+ * @returns true if this instance ran the task
+ */
+export const runWithLock = async (
+  name: string,
+  ttlMs: number,
+  task: () => Promise<void>
+): Promise<boolean> => {
+  const lockKey = `${SCHEDULER_LOCK_PREFIX}${name}`;
+  const acquired = await redisClient.set(lockKey, "1", "PX", ttlMs, "NX");
+  if (acquired !== "OK") {
+    return false;
+  }
+
+  await task();
+  return true;
+};
+
+/**
+ * Run a task on an interval, guarded by a redis lock so that only one
+ * instance executes each tick
+ * @param name - Unique task name
+ * @param intervalMs - Time between runs
+ * @param task - The work to run
+ */
+export const scheduleTask = (
+  name: string,
+  intervalMs: number,
+  task: () => Promise<void>
+): NodeJS.Timeout => {
+  //lock expires just before the next tick so a slow clock does not skip a run
+  const lockTtl = Math.max(1000, Math.floor(intervalMs * 0.9));
+
+  const run = async () => {
+    try {
+      await runWithLock(name, lockTtl, task);
+    } catch (err) {
+      console.error(`Scheduled task "${name}" failed:`, err);
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  console.log(`scheduled task "${name}" every ${intervalMs}ms`);
+  return timer;
+};
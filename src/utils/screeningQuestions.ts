@@ -0,0 +1,219 @@
+import { Types } from "mongoose";
+import {
+  MAX_SCREENING_QUESTIONS,
+  SCREENING_QUESTION_TYPES,
+  type IScreeningQuestion,
+} from "../models/job.js";
+import type { IScreeningAnswer } from "../models/proposal.js";
+
+const MAX_OPTIONS = 10;
+
+const ANSWER_LIMITS = {
+  short_text: 200,
+  long_text: 2000,
+  url: 500,
+};
+
+type ScreeningQuestion = Pick<
+  IScreeningQuestion,
+  "_id" | "prompt" | "type" | "required" | "options"
+>;
+
+type ScreeningAnswer = Pick<IScreeningAnswer, "questionId" | "value">;
+
+// multipart proposal requests carry structured fields as JSON text
+const parseJsonField = (input: unknown): unknown => {
+  if (typeof input !== "string") return input;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return undefined;
+  }
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parse the screening questions a client attaches to a job
+ * @returns The questions, or an error message for the first invalid one
+ */
+export const parseScreeningQuestions = (
+  input: unknown
+): { questions: Omit<IScreeningQuestion, "_id">[] } | { error: string } => {
+  if (!Array.isArray(input)) {
+    return { error: "Screening questions must be a list" };
+  }
+
+  if (input.length > MAX_SCREENING_QUESTIONS) {
+    return {
+      error: `Cannot exceed ${MAX_SCREENING_QUESTIONS} screening questions`,
+    };
+  }
+
+  const questions: Omit<IScreeningQuestion, "_id">[] = [];
+
+  for (const [index, item] of input.entries()) {
+    const label = `Question ${index + 1}`;
+
+    if (!item || typeof item !== "object") {
+      return { error: `${label} must be an object` };
+    }
+
+    const { prompt, type, required, options } = item as Record<string, unknown>;
+
+    if (typeof prompt !== "string" || !prompt.trim()) {
+      return { error: `${label} needs a prompt` };
+    }
+
+    if (!SCREENING_QUESTION_TYPES.includes(type as IScreeningQuestion["type"])) {
+      return {
+        error: `${label} type must be one of ${SCREENING_QUESTION_TYPES.join(", ")}`,
+      };
+    }
+
+    if (required !== undefined && typeof required !== "boolean") {
+      return { error: `${label} required flag must be true or false` };
+    }
+
+    const question: Omit<IScreeningQuestion, "_id"> = {
+      prompt: prompt.trim(),
+      type: type as IScreeningQuestion["type"],
+      required: required === true,
+    };
+
+    if (type === "multiple_choice") {
+      if (
+        !Array.isArray(options) ||
+        options.some((o) => typeof o !== "string" || !o.trim())
+      ) {
+        return { error: `${label} options must be a list of text` };
+      }
+      const choices = [...new Set(options.map((o: string) => o.trim()))];
+      if (choices.length < 2 || choices.length > MAX_OPTIONS) {
+        return { error: `${label} needs between 2 and ${MAX_OPTIONS} options` };
+      }
+      question.options = choices;
+    }
+
+    questions.push(question);
+  }
+
+  return { questions };
+};
+
+const checkAnswerValue = (
+  question: ScreeningQuestion,
+  value: unknown
+): string | boolean | { error: string } => {
+  switch (question.type) {
+    case "yes_no":
+      if (typeof value !== "boolean") {
+        return { error: `"${question.prompt}" must be answered yes or no` };
+      }
+      return value;
+    case "multiple_choice":
+      if (typeof value !== "string" || !question.options?.includes(value)) {
+        return { error: `"${question.prompt}" must be one of the listed options` };
+      }
+      return value;
+    case "url":
+      if (typeof value !== "string" || !isHttpUrl(value.trim())) {
+        return { error: `"${question.prompt}" must be a valid URL` };
+      }
+      break;
+    default:
+      if (typeof value !== "string") {
+        return { error: `"${question.prompt}" must be answered with text` };
+      }
+  }
+
+  const text = value.trim();
+  if (text.length > ANSWER_LIMITS[question.type]) {
+    return {
+      error: `"${question.prompt}" cannot exceed ${ANSWER_LIMITS[question.type]} characters`,
+    };
+  }
+  return text;
+};
+
+/**
+ * Check a proposal's answers against the job's screening questions. Blank
+ * answers count as missing, answers to unknown questions are rejected.
+ * @returns The answers in question order, or an error message
+ */
+export const parseScreeningAnswers = (
+  input: unknown,
+  questions: ScreeningQuestion[]
+): { answers: ScreeningAnswer[] } | { error: string } => {
+  const parsed = parseJsonField(input ?? []);
+
+  if (!Array.isArray(parsed)) {
+    return { error: "Answers must be a list" };
+  }
+
+  const submitted = new Map<string, unknown>();
+
+  for (const item of parsed) {
+    if (!item || typeof item !== "object") {
+      return { error: "Each answer needs a questionId and a value" };
+    }
+    const { questionId, value } = item as Record<string, unknown>;
+    if (typeof questionId !== "string") {
+      return { error: "Each answer needs a questionId and a value" };
+    }
+    if (!questions.some((q) => q._id.toString() === questionId)) {
+      return { error: `Unknown screening question ${questionId}` };
+    }
+    if (submitted.has(questionId)) {
+      return { error: "Each question can only be answered once" };
+    }
+    submitted.set(questionId, value);
+  }
+
+  const answers: ScreeningAnswer[] = [];
+
+  for (const question of questions) {
+    const value = submitted.get(question._id.toString());
+    const blank =
+      value === undefined ||
+      value === null ||
+      (typeof value === "string" && !value.trim());
+
+    if (blank) {
+      if (question.required) {
+        return { error: `"${question.prompt}" is required` };
+      }
+      continue;
+    }
+
+    const checked = checkAnswerValue(question, value);
+    if (typeof checked === "object") return checked;
+
+    answers.push({
+      questionId: new Types.ObjectId(question._id.toString()),
+      value: checked,
+    });
+  }
+
+  return { answers };
+};
+
+/**
+ * Line a proposal's answers up with the job's questions, unanswered ones are null
+ */
+export const alignScreeningAnswers = (
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[] = []
+): Array<string | boolean | null> =>
+  questions.map(
+    (question) =>
+      answers.find((a) => a.questionId.toString() === question._id.toString())
+        ?.value ?? null
+  );
@@ -0,0 +1,47 @@
+import { redisClient } from "../config/redis.js";
+import { Skill, type ISkill } from "../models/skill.js";
+
+const SKILL_CATALOG_CACHE_KEY = "skill-catalog";
+const SKILL_CATALOG_CACHE_TTL = 3600;
+
+export type CachedSkill = Pick<
+  ISkill,
+  "slug" | "name" | "keys" | "category" | "parent" | "related"
+>;
+
+const loadSkillCatalog = async (): Promise<CachedSkill[]> =>
+  Skill.find()
+    .select("-_id slug name keys category parent related")
+    .lean<CachedSkill[]>();
+
+/**
+ * The whole skill catalogue, which every normalization reads, so it is
+ * cached as one entry
+ */
+export const getCachedSkillCatalog = async (): Promise<CachedSkill[]> => {
+  try {
+    const cachedData = await redisClient.get(SKILL_CATALOG_CACHE_KEY);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const skills = await loadSkillCatalog();
+    await redisClient.setex(
+      SKILL_CATALOG_CACHE_KEY,
+      SKILL_CATALOG_CACHE_TTL,
+      JSON.stringify(skills)
+    );
+    return skills;
+  } catch (err) {
+    console.error("Skill catalog cache get error:", err);
+    return loadSkillCatalog();
+  }
+};
+
+export const invalidateSkillCatalogCache = async (): Promise<void> => {
+  try {
+    await redisClient.del(SKILL_CATALOG_CACHE_KEY);
+  } catch (error) {
+    console.error("Skill catalog cache invalidation error:", error);
+  }
+};
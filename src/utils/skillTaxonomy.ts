@@ -0,0 +1,106 @@
+import { toSkillKey } from "../models/skill.js";
+import { getCachedSkillCatalog, type CachedSkill } from "./skillCache.js";
+
+export const MAX_AUTOCOMPLETE_RESULTS = 20;
+
+const indexByKey = (catalog: CachedSkill[]): Map<string, CachedSkill> => {
+  const index = new Map<string, CachedSkill>();
+  for (const skill of catalog) {
+    for (const key of skill.keys) index.set(key, skill);
+  }
+  return index;
+};
+
+/**
+ * Rewrite skills to their catalogue names and drop the duplicates that
+ * leaves. Skills the catalogue doesn't know are kept as typed, trimmed.
+ * Anything that isn't a string is passed through for the schema to reject.
+ */
+export const normalizeSkillList = <T>(
+  skills: T[],
+  catalog: CachedSkill[]
+): Array<T | string> => {
+  const index = indexByKey(catalog);
+  const seen = new Set<string>();
+  const normalized: Array<T | string> = [];
+
+  for (const skill of skills) {
+    if (typeof skill !== "string") {
+      normalized.push(skill);
+      continue;
+    }
+
+    const key = toSkillKey(skill);
+    const name = index.get(key)?.name ?? skill.trim();
+    const nameKey = toSkillKey(name);
+    if (!nameKey || seen.has(nameKey)) continue;
+
+    seen.add(nameKey);
+    normalized.push(name);
+  }
+
+  return normalized;
+};
+
+export const normalizeSkills = async <T>(skills: T[]): Promise<Array<T | string>> =>
+  normalizeSkillList(skills, await getCachedSkillCatalog());
+
+/**
+ * Names of the skills related to, or the parent of, any catalogued skill in
+ * the list, leaving out the ones already in it
+ */
+export const getRelatedSkills = async (skills: string[]): Promise<string[]> => {
+  const catalog = await getCachedSkillCatalog();
+  const index = indexByKey(catalog);
+  const bySlug = new Map(catalog.map((skill) => [skill.slug, skill]));
+
+  const own = new Set(skills.map(toSkillKey));
+  const related = new Map<string, string>();
+
+  for (const skill of skills) {
+    const entry = index.get(toSkillKey(skill));
+    if (!entry) continue;
+
+    for (const slug of [...entry.related, ...(entry.parent ? [entry.parent] : [])]) {
+      const relatedSkill = bySlug.get(slug);
+      const key = relatedSkill && toSkillKey(relatedSkill.name);
+      if (relatedSkill && key && !own.has(key)) related.set(key, relatedSkill.name);
+    }
+  }
+
+  return [...related.values()];
+};
+
+/**
+ * Catalogue skills for a partly typed query. Names starting with the query
+ * come first, then aliases starting with it, then names or aliases that
+ * contain it anywhere.
+ */
+export const autocompleteSkills = (
+  catalog: CachedSkill[],
+  query: string,
+  options: { category?: string; limit: number }
+): CachedSkill[] => {
+  const key = toSkillKey(query);
+  if (!key) return [];
+
+  const rank = (skill: CachedSkill): number => {
+    if (toSkillKey(skill.name).startsWith(key)) return 0;
+    if (skill.keys.some((k) => k.startsWith(key))) return 1;
+    if (skill.keys.some((k) => k.includes(key))) return 2;
+    return -1;
+  };
+
+  return catalog
+    .filter((skill) => !options.category || skill.category === options.category)
+    .map((skill) => ({ skill, rank: rank(skill) }))
+    .filter(({ rank }) => rank !== -1)
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        a.skill.name.length - b.skill.name.length ||
+        a.skill.name.localeCompare(b.skill.name)
+    )
+    .slice(0, options.limit)
+    .map(({ skill }) => skill);
+};
@@ -18,6 +18,7 @@ import {
   handleTyping,
   handleMarkAsRead,
 } from "./socket/handlers/index.js";
+import { setSocketServer } from "./socket/emitters.js";
 
 dotenv.config();
 
@@ -34,6 +35,9 @@ export const initializeSocket = (server: HttpServer) => {
   //attach redis adapter for cross server communication
   io.adapter(createAdapter(pubClient, subClient));
 
+  //expose the server to http controllers
+  setSocketServer(io);
+
   //authentication middleware
   io.use((socket: AuthenticatedSocket, next: (err?: Error) => void) => {
     try {
@@ -0,0 +1,38 @@
+import type { Server as SocketIOServer } from "socket.io";
+
+//socket server reference so http controllers can push real-time events
+let ioInstance: SocketIOServer | null = null;
+
+/**
+ * Store the socket.io server created in initializeSocket
+ * @param io - The socket.io server
+ */
+export const setSocketServer = (io: SocketIOServer) => {
+  ioInstance = io;
+};
+
+/**
+ * Emit an event to everyone in a conversation room
+ * @param conversationId - The conversation ID
+ * @param event - The event name
+ * @param payload - The event data
+ */
+export const emitToConversation = (
+  conversationId: string,
+  event: string,
+  payload: unknown
+) => {
+  if (!ioInstance) return;
+  ioInstance.to(`conversation:${conversationId}`).emit(event, payload);
+};
+
+/**
+ * Emit an event to every socket of a single user
+ * @param userId - The user's ID
+ * @param event - The event name
+ * @param payload - The event data
+ */
+export const emitToUser = (userId: string, event: string, payload: unknown) => {
+  if (!ioInstance) return;
+  ioInstance.to(`user:${userId}`).emit(event, payload);
+};
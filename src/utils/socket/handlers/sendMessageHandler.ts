@@ -63,6 +63,11 @@ export const handleSendMessage = async (
         return;
       }
 
+      if (conversationPreCheck.closedAt) {
+        socket.emit("error", { message: "This conversation is closed" });
+        return;
+      }
+
       otherUserId = conversationPreCheck.participants
         .find((p) => p.toString() !== userId.toString())
         ?.toString();
@@ -0,0 +1,103 @@
+import mongoose, { type ClientSession } from "mongoose";
+import { TimeEntry, Timesheet, type ITimesheet } from "../models/timesheet.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// weeks run Monday to Sunday in UTC
+export const getWeekStart = (date: Date): Date => {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+};
+
+export const getWeekEnd = (weekStart: Date): Date =>
+  new Date(weekStart.getTime() + 7 * DAY_MS);
+
+export const getBillableAmount = (minutes: number, hourlyRate: number): number =>
+  Math.round((minutes / 60) * hourlyRate * 100) / 100;
+
+/**
+ * Minutes logged on a contract in a week
+ * @param excludeEntryId - Leave out an entry that is being edited
+ */
+export const getLoggedMinutes = async (
+  contractId: string,
+  weekStart: Date,
+  excludeEntryId?: string
+): Promise<number> => {
+  const [result] = await TimeEntry.aggregate<{ total: number }>([
+    {
+      $match: {
+        contractId: new mongoose.Types.ObjectId(contractId),
+        weekStart,
+        ...(excludeEntryId && {
+          _id: { $ne: new mongoose.Types.ObjectId(excludeEntryId) },
+        }),
+      },
+    },
+    { $group: { _id: null, total: { $sum: "$durationMinutes" } } },
+  ]);
+
+  return result?.total || 0;
+};
+
+// entries can change until their week is submitted, or again once the client disputes it
+export const isWeekLocked = async (
+  contractId: string,
+  weekStart: Date
+): Promise<boolean> => {
+  const timesheet = await Timesheet.exists({
+    contractId,
+    weekStart,
+    status: { $in: ["submitted", "approved"] },
+  });
+  return !!timesheet;
+};
+
+export type TimesheetTotals = Record<
+  ITimesheet["status"],
+  { minutes: number; amount: number; count: number }
+>;
+
+/**
+ * Logged minutes and billable amounts per timesheet status for a contract
+ */
+export const getTimesheetTotals = async (
+  contractId: string,
+  session?: ClientSession
+): Promise<TimesheetTotals> => {
+  const totals: TimesheetTotals = {
+    submitted: { minutes: 0, amount: 0, count: 0 },
+    approved: { minutes: 0, amount: 0, count: 0 },
+    disputed: { minutes: 0, amount: 0, count: 0 },
+  };
+
+  const rows = await Timesheet.aggregate<{
+    _id: ITimesheet["status"];
+    minutes: number;
+    amount: number;
+    count: number;
+  }>([
+    { $match: { contractId: new mongoose.Types.ObjectId(contractId) } },
+    {
+      $group: {
+        _id: "$status",
+        minutes: { $sum: "$totalMinutes" },
+        amount: { $sum: "$amount" },
+        count: { $sum: 1 },
+      },
+    },
+  ]).session(session || null);
+
+  for (const row of rows) {
+    totals[row._id] = {
+      minutes: row.minutes,
+      amount: Math.round(row.amount * 100) / 100,
+      count: row.count,
+    };
+  }
+
+  return totals;
+};